@@ -0,0 +1,201 @@
+/**
+ * @fileoverview Overflow-aware accumulation of successive count reads
+ * @module accumulator
+ *
+ * Every `c` read returns the counts since the previous read plus an 8-bit
+ * overflow mask. A set bit means that counter wrapped at least once. When
+ * the register width is known, a wrapped read is corrected by adding one
+ * wrap period (assuming it wrapped only once); otherwise the read is marked
+ * invalid for that channel.
+ *
+ * @example
+ * const accumulator = new CountAccumulator({ counterBits: 32 });
+ * accumulator.add(await cd48.getCounts());
+ * const total = accumulator.total(0); // bigint
+ */
+
+import type { CountData } from './cd48.js';
+import { EXPECTED_CHANNEL_COUNT } from './constants.js';
+import { ValidationError } from './errors.js';
+import { validateChannel } from './validation.js';
+
+/**
+ * Count accumulator options
+ */
+export interface CountAccumulatorOptions {
+  /**
+   * Counter register width in bits. When given, overflowed reads are
+   * corrected by one wrap period (2^bits); when omitted they are only
+   * flagged.
+   */
+  counterBits?: number;
+}
+
+/**
+ * Result of adding one read to the accumulator
+ */
+export interface AccumulatedSample {
+  /** Sample number, starting at 0 */
+  readonly index: number;
+  /** Counts per channel, corrected where possible */
+  readonly counts: ReadonlyArray<number>;
+  /** Channels whose overflow bit was set */
+  readonly overflowedChannels: ReadonlyArray<number>;
+  /** Whether overflowed counts were corrected */
+  readonly corrected: boolean;
+  /** False if an overflowed count could not be corrected */
+  readonly valid: boolean;
+}
+
+/**
+ * Accumulates successive count reads into bigint totals
+ */
+export class CountAccumulator {
+  public readonly counterBits: number | null;
+  private readonly totals: bigint[];
+  private readonly overflowCounts: number[];
+  private readonly uncorrected: boolean[];
+  private _samples: number;
+  private _invalidSamples: number;
+
+  /**
+   * Create an accumulator.
+   * @param options - Accumulator options
+   * @throws ValidationError if counterBits is not an integer from 1 to 64
+   */
+  constructor(options: CountAccumulatorOptions = {}) {
+    const bits = options.counterBits;
+    if (
+      bits !== undefined &&
+      (!Number.isInteger(bits) || bits < 1 || bits > 64)
+    ) {
+      throw new ValidationError('counterBits', bits, 'integer from 1 to 64');
+    }
+    this.counterBits = bits ?? null;
+    this.totals = Array.from({ length: EXPECTED_CHANNEL_COUNT }, () => 0n);
+    this.overflowCounts = Array.from(
+      { length: EXPECTED_CHANNEL_COUNT },
+      () => 0
+    );
+    this.uncorrected = Array.from(
+      { length: EXPECTED_CHANNEL_COUNT },
+      () => false
+    );
+    this._samples = 0;
+    this._invalidSamples = 0;
+  }
+
+  /**
+   * Number of reads added.
+   */
+  public get samples(): number {
+    return this._samples;
+  }
+
+  /**
+   * Number of reads with an overflow that could not be corrected.
+   */
+  public get invalidSamples(): number {
+    return this._invalidSamples;
+  }
+
+  /**
+   * Whether any read overflowed on any channel.
+   */
+  public get overflowed(): boolean {
+    return this.overflowCounts.some((n) => n > 0);
+  }
+
+  /**
+   * Add a read.
+   * @param data - Counts and overflow mask from `getCounts()`
+   * @returns The read with corrections applied
+   */
+  public add(data: CountData): AccumulatedSample {
+    const overflowedChannels: number[] = [];
+    const counts = this.totals.map((_, channel) => {
+      const count = data.counts[channel] ?? 0;
+      if (((data.overflow >> channel) & 1) === 0) {
+        this.totals[channel] = (this.totals[channel] ?? 0n) + BigInt(count);
+        return count;
+      }
+
+      overflowedChannels.push(channel);
+      this.overflowCounts[channel] = (this.overflowCounts[channel] ?? 0) + 1;
+      if (this.counterBits === null) {
+        this.uncorrected[channel] = true;
+        this.totals[channel] = (this.totals[channel] ?? 0n) + BigInt(count);
+        return count;
+      }
+      const corrected = BigInt(count) + (1n << BigInt(this.counterBits));
+      this.totals[channel] = (this.totals[channel] ?? 0n) + corrected;
+      return Number(corrected);
+    });
+
+    const hasOverflow = overflowedChannels.length > 0;
+    const valid = !hasOverflow || this.counterBits !== null;
+    if (!valid) {
+      this._invalidSamples++;
+    }
+
+    return {
+      index: this._samples++,
+      counts,
+      overflowedChannels,
+      corrected: hasOverflow && valid,
+      valid,
+    };
+  }
+
+  /**
+   * Total counts on a channel.
+   * @param channel - Channel number (0-7)
+   * @returns Total including corrections
+   */
+  public total(channel: number): bigint {
+    validateChannel(channel);
+    return this.totals[channel] ?? 0n;
+  }
+
+  /**
+   * Totals for all channels.
+   * @returns Totals indexed by channel
+   */
+  public getTotals(): bigint[] {
+    return [...this.totals];
+  }
+
+  /**
+   * Number of reads that overflowed on a channel.
+   * @param channel - Channel number (0-7)
+   * @returns Overflowed read count
+   */
+  public overflowCount(channel: number): number {
+    validateChannel(channel);
+    return this.overflowCounts[channel] ?? 0;
+  }
+
+  /**
+   * Whether a channel's total can be trusted, i.e. it never overflowed
+   * without a correction.
+   * @param channel - Channel number (0-7)
+   * @returns True if the total is exact
+   */
+  public isValid(channel: number): boolean {
+    validateChannel(channel);
+    return this.uncorrected[channel] !== true;
+  }
+
+  /**
+   * Clear all totals and flags.
+   */
+  public reset(): void {
+    this.totals.fill(0n);
+    this.overflowCounts.fill(0);
+    this.uncorrected.fill(false);
+    this._samples = 0;
+    this._invalidSamples = 0;
+  }
+}
+
+export default CountAccumulator;
@@ -0,0 +1,322 @@
+/**
+ * @fileoverview Continuous polling acquisition with drift-free scheduling
+ * @module acquisition
+ *
+ * Reads are scheduled on a fixed grid (start + k * interval) of a monotonic
+ * clock, so slow commands do not push later reads back. Reading counts also
+ * clears them on the device, so each sample covers exactly the time since
+ * the previous read; that time is measured rather than assumed.
+ *
+ * @example
+ * const acquisition = new Acquisition(cd48, { intervalMs: 500, signal });
+ * acquisition.on('sample', (s) => console.log(s.rates[0], 'counts/s'));
+ * acquisition.on('gap', (g) => console.warn(`missed ${g.missed} reads`));
+ * await acquisition.start(); // Resolves when stopped or aborted
+ */
+
+import type CD48 from './cd48.js';
+import type { CountData } from './cd48.js';
+import {
+  DEFAULT_ACQUISITION_INTERVAL_MS,
+  EXPECTED_CHANNEL_COUNT,
+  MILLISECONDS_PER_SECOND,
+} from './constants.js';
+import {
+  CD48Error,
+  NotConnectedError,
+  OperationAbortedError,
+  ValidationError,
+} from './errors.js';
+import { TypedEventEmitter } from './events.js';
+
+/**
+ * Acquisition options
+ */
+export interface AcquisitionOptions {
+  /** Polling interval in milliseconds (default: 1000) */
+  intervalMs?: number;
+  /** Stop after this many milliseconds (default: run until stopped) */
+  durationMs?: number;
+  /** Stops the acquisition when aborted */
+  signal?: AbortSignal;
+  /** Monotonic clock in milliseconds (default: performance.now) */
+  now?: () => number;
+  /**
+   * Origin of the read schedule on the `now` clock (default: when the
+   * clearing read is issued). Acquisitions sharing a clock and origin read
+   * on the same grid.
+   */
+  startTime?: number;
+}
+
+/**
+ * One read of all counters
+ */
+export interface AcquisitionSample extends CountData {
+  /** Sample number, starting at 0 */
+  readonly index: number;
+  /** Wall-clock time of the read (ms since epoch) */
+  readonly timestamp: number;
+  /** Monotonic time of the read relative to the schedule origin (ms) */
+  readonly time: number;
+  /** Measured accumulation time since the previous read (s) */
+  readonly elapsed: number;
+  /** Count rate per channel over `elapsed` (counts/s) */
+  readonly rates: ReadonlyArray<number>;
+}
+
+/**
+ * Scheduled reads that were skipped because a read took too long
+ */
+export interface AcquisitionGap {
+  /** Index of the sample that follows the gap */
+  readonly index: number;
+  /** Number of scheduled reads skipped */
+  readonly missed: number;
+  /** Measured accumulation time of that sample (s) */
+  readonly elapsed: number;
+}
+
+/**
+ * Counter overflow reported by the device
+ */
+export interface AcquisitionOverflow {
+  /** Index of the affected sample */
+  readonly index: number;
+  /** Raw 8-bit overflow flag */
+  readonly overflow: number;
+  /** Channels whose counters overflowed */
+  readonly channels: ReadonlyArray<number>;
+}
+
+/**
+ * Summary emitted when the acquisition stops
+ */
+export interface AcquisitionStop {
+  /** Samples recorded */
+  readonly samples: number;
+  /** Scheduled reads skipped in total */
+  readonly missed: number;
+  /** Why the acquisition stopped */
+  readonly reason: 'stopped' | 'aborted' | 'duration' | 'disconnected';
+}
+
+/**
+ * Events emitted by Acquisition
+ */
+export interface AcquisitionEvents {
+  sample: AcquisitionSample;
+  gap: AcquisitionGap;
+  overflow: AcquisitionOverflow;
+  error: Error;
+  stop: AcquisitionStop;
+}
+
+/**
+ * Continuous counter polling engine
+ */
+export class Acquisition extends TypedEventEmitter<AcquisitionEvents> {
+  public readonly intervalMs: number;
+  private readonly cd48: CD48;
+  private readonly durationMs: number;
+  private readonly signal: AbortSignal | undefined;
+  private readonly now: () => number;
+  private readonly startTime: number | undefined;
+  private controller: AbortController | null;
+  private _samples: number;
+  private _missed: number;
+
+  /**
+   * Create an acquisition for a connected device.
+   * @param cd48 - Device to poll
+   * @param options - Acquisition options
+   * @throws ValidationError if the interval or duration is not positive
+   */
+  constructor(cd48: CD48, options: AcquisitionOptions = {}) {
+    super();
+    const intervalMs = options.intervalMs ?? DEFAULT_ACQUISITION_INTERVAL_MS;
+    if (!(intervalMs > 0)) {
+      throw new ValidationError('intervalMs', intervalMs, 'must be positive');
+    }
+    const durationMs = options.durationMs ?? Infinity;
+    if (!(durationMs > 0)) {
+      throw new ValidationError('durationMs', durationMs, 'must be positive');
+    }
+    this.cd48 = cd48;
+    this.intervalMs = intervalMs;
+    this.durationMs = durationMs;
+    this.signal = options.signal;
+    this.now = options.now ?? (() => performance.now());
+    this.startTime = options.startTime;
+    this.controller = null;
+    this._samples = 0;
+    this._missed = 0;
+  }
+
+  /**
+   * Whether the acquisition is running.
+   */
+  public get running(): boolean {
+    return this.controller !== null;
+  }
+
+  /**
+   * Samples recorded so far.
+   */
+  public get samples(): number {
+    return this._samples;
+  }
+
+  /**
+   * Scheduled reads skipped so far.
+   */
+  public get missed(): number {
+    return this._missed;
+  }
+
+  /**
+   * Clear the counters and poll until stopped, aborted or the duration ends.
+   * Read errors are emitted as `error` events and polling continues; losing
+   * the connection stops the acquisition.
+   * @returns Resolves when the acquisition has stopped
+   * @throws CD48Error if already running
+   * @throws OperationAbortedError if the signal is already aborted
+   */
+  public async start(): Promise<void> {
+    if (this.controller !== null) {
+      throw new CD48Error('Acquisition already running');
+    }
+    if (this.signal?.aborted === true) {
+      throw new OperationAbortedError('acquisition');
+    }
+
+    const controller = new AbortController();
+    this.controller = controller;
+    const onAbort = (): void => controller.abort('aborted');
+    this.signal?.addEventListener('abort', onAbort, { once: true });
+    this._samples = 0;
+    this._missed = 0;
+
+    let reason: AcquisitionStop['reason'] = 'stopped';
+    try {
+      reason = await this.run(controller.signal);
+    } finally {
+      this.signal?.removeEventListener('abort', onAbort);
+      this.controller = null;
+    }
+    this.emit('stop', {
+      samples: this._samples,
+      missed: this._missed,
+      reason:
+        reason === 'stopped' && controller.signal.reason === 'aborted'
+          ? 'aborted'
+          : reason,
+    });
+  }
+
+  /**
+   * Stop polling. The pending start() promise resolves once the current
+   * read (if any) has finished.
+   */
+  public stop(): void {
+    this.controller?.abort('stopped');
+  }
+
+  /**
+   * Polling loop.
+   * @param signal - Internal stop signal
+   * @returns Stop reason
+   */
+  private async run(signal: AbortSignal): Promise<AcquisitionStop['reason']> {
+    // Timestamp each read at the midpoint of its command round trip
+    const timedRead = async (): Promise<{ data: CountData; at: number }> => {
+      const before = this.now();
+      const data = await this.cd48.getCounts();
+      return { data, at: (before + this.now()) / 2 };
+    };
+
+    // By default the grid starts when the clearing read is issued, so every
+    // read has the same latency offset from its slot
+    const start = this.startTime ?? this.now();
+    let previous: number;
+    try {
+      ({ at: previous } = await timedRead());
+    } catch (error) {
+      this.emit('error', toError(error));
+      return 'disconnected';
+    }
+    let slot = 0;
+
+    for (;;) {
+      if (signal.aborted) return 'stopped';
+
+      // Next grid slot; if it has already passed, read now and count the
+      // slots that were skipped
+      const late = Math.floor((this.now() - start) / this.intervalMs);
+      const target = Math.max(slot + 1, late);
+      const missed = target - slot - 1;
+      if (target * this.intervalMs > this.durationMs) return 'duration';
+      try {
+        await this.cd48.sleepWithAbort(
+          Math.max(0, start + target * this.intervalMs - this.now()),
+          signal
+        );
+      } catch {
+        return 'stopped';
+      }
+
+      let read: { data: CountData; at: number };
+      try {
+        read = await timedRead();
+      } catch (error) {
+        this.emit('error', toError(error));
+        if (error instanceof NotConnectedError || !this.cd48.isConnected()) {
+          return 'disconnected';
+        }
+        // Counts stay on the device and are picked up by the next read
+        slot = target;
+        continue;
+      }
+
+      const elapsed = (read.at - previous) / MILLISECONDS_PER_SECOND;
+      previous = read.at;
+      slot = target;
+      const index = this._samples++;
+
+      if (missed > 0) {
+        this._missed += missed;
+        this.emit('gap', { index, missed, elapsed });
+      }
+      if (read.data.overflow !== 0) {
+        const channels: number[] = [];
+        for (let ch = 0; ch < EXPECTED_CHANNEL_COUNT; ch++) {
+          if ((read.data.overflow >> ch) & 1) channels.push(ch);
+        }
+        this.emit('overflow', {
+          index,
+          overflow: read.data.overflow,
+          channels,
+        });
+      }
+      this.emit('sample', {
+        ...read.data,
+        index,
+        timestamp: Date.now(),
+        time: read.at - start,
+        elapsed,
+        rates: read.data.counts.map((count) =>
+          elapsed > 0 ? count / elapsed : 0
+        ),
+      });
+    }
+  }
+}
+
+/**
+ * Normalize a thrown value to an Error.
+ */
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+export default Acquisition;
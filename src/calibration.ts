@@ -12,6 +12,7 @@ import {
   GAIN_MAX,
   GAIN_MIN,
   JSON_INDENT_SPACES,
+  MILLISECONDS_PER_SECOND,
   MIN_CALIBRATION_POINTS,
   PLATEAU_REGION_THRESHOLD_LOWER,
   PLATEAU_REGION_THRESHOLD_UPPER,
@@ -19,13 +20,38 @@ import {
 import { CHANNEL_MAX, CHANNEL_MIN } from './validation.js';
 
 /** Current calibration profile schema version */
-export const CALIBRATION_PROFILE_VERSION = 1;
+export const CALIBRATION_PROFILE_VERSION = 2;
+
+/** Legacy metadata key holding a channel's background rate (version 1) */
+const LEGACY_BACKGROUND_KEY = /^background_ch(\d+)$/;
 
 /**
  * Channel calibration data stored by channel index
  */
 export type ChannelCalibrationMap = Record<number, number>;
 
+/**
+ * Background rate measured on one channel.
+ * Backgrounds migrated from version 1 profiles kept only the rate: their
+ * uncertainty and duration are 0, and subtracting them adds no background
+ * term to the net-rate uncertainty.
+ */
+export interface BackgroundRate {
+  /** Rate in counts per second */
+  readonly rate: number;
+  /** One-sigma rate uncertainty in counts per second (0 if unknown) */
+  readonly uncertainty: number;
+  /** Measurement duration in seconds (0 if unknown) */
+  readonly duration: number;
+  /** When the background was measured (ISO 8601) */
+  readonly measuredAt: string;
+}
+
+/**
+ * Background rates stored by channel index
+ */
+export type ChannelBackgroundMap = Record<number, BackgroundRate>;
+
 /**
  * Calibration profile options
  */
@@ -48,6 +74,8 @@ export interface CalibrationProfileJSON {
   thresholds: ChannelCalibrationMap;
   gains: ChannelCalibrationMap;
   offsets: ChannelCalibrationMap;
+  /** Background rates (version 2+) */
+  backgrounds?: ChannelBackgroundMap;
   metadata: Record<string, unknown>;
 }
 
@@ -63,6 +91,24 @@ function isChannelCalibrationMap(
   );
 }
 
+/**
+ * Type guard for ChannelBackgroundMap
+ */
+function isChannelBackgroundMap(value: unknown): value is ChannelBackgroundMap {
+  if (typeof value !== 'object' || value === null) return false;
+  return Object.entries(value).every(([key, val]) => {
+    if (Number.isNaN(Number(key))) return false;
+    if (typeof val !== 'object' || val === null) return false;
+    const background = val as Record<string, unknown>;
+    return (
+      typeof background['rate'] === 'number' &&
+      typeof background['uncertainty'] === 'number' &&
+      typeof background['duration'] === 'number' &&
+      typeof background['measuredAt'] === 'string'
+    );
+  });
+}
+
 /**
  * Type guard for CalibrationProfileJSON
  * Accepts both versioned (v1+) and legacy unversioned profiles
@@ -84,6 +130,8 @@ function isCalibrationProfileJSON(
     isChannelCalibrationMap(obj['thresholds']) &&
     isChannelCalibrationMap(obj['gains']) &&
     isChannelCalibrationMap(obj['offsets']) &&
+    (obj['backgrounds'] === undefined ||
+      isChannelBackgroundMap(obj['backgrounds'])) &&
     typeof obj['metadata'] === 'object' &&
     obj['metadata'] !== null
   );
@@ -97,13 +145,32 @@ function isCalibrationProfileJSON(
 function migrateCalibrationProfile(
   profile: CalibrationProfileJSON
 ): CalibrationProfileJSON {
+  let migrated = profile;
   // If no version, it's a legacy profile - add version 1
-  if (profile.version === undefined) {
-    return { ...profile, version: CALIBRATION_PROFILE_VERSION };
+  if (migrated.version === undefined) {
+    migrated = { ...migrated, version: 1 };
+  }
+  // Version 2 moves background rates out of metadata
+  if (migrated.version === 1) {
+    const backgrounds: ChannelBackgroundMap = {};
+    const metadata: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(migrated.metadata)) {
+      const match = LEGACY_BACKGROUND_KEY.exec(key);
+      if (match !== null && typeof value === 'number') {
+        // Version 1 kept only the rate; its uncertainty is unknown
+        backgrounds[Number(match[1])] = {
+          rate: value,
+          uncertainty: 0,
+          duration: 0,
+          measuredAt: migrated.date,
+        };
+      } else {
+        metadata[key] = value;
+      }
+    }
+    migrated = { ...migrated, version: 2, backgrounds, metadata };
   }
-  // Future migrations would go here
-  // if (profile.version === 1) { migrate to v2 }
-  return profile;
+  return migrated;
 }
 
 /**
@@ -202,6 +269,7 @@ export class CalibrationProfile {
   public thresholds: ChannelCalibrationMap;
   public gains: ChannelCalibrationMap;
   public offsets: ChannelCalibrationMap;
+  public backgrounds: ChannelBackgroundMap;
   public metadata: Record<string, unknown>;
 
   /**
@@ -216,6 +284,7 @@ export class CalibrationProfile {
     this.thresholds = {};
     this.gains = {};
     this.offsets = {};
+    this.backgrounds = {};
     this.metadata = {};
   }
 
@@ -234,6 +303,7 @@ export class CalibrationProfile {
     profile.thresholds = data.thresholds;
     profile.gains = data.gains;
     profile.offsets = data.offsets;
+    profile.backgrounds = data.backgrounds ?? {};
     profile.metadata = data.metadata;
     return profile;
   }
@@ -322,6 +392,39 @@ export class CalibrationProfile {
     return this.offsets[channel] ?? null;
   }
 
+  /**
+   * Set the background rate for a channel
+   * @param channel - Channel number (0-7)
+   * @param background - Background rate with uncertainty and timestamp
+   */
+  public setBackground(channel: number, background: BackgroundRate): void {
+    if (channel < CHANNEL_MIN || channel > CHANNEL_MAX) {
+      throw new Error('Channel must be between 0 and 7');
+    }
+    this.backgrounds[channel] = background;
+  }
+
+  /**
+   * Get the background rate for a channel
+   * @param channel - Channel number (0-7)
+   * @returns Background rate or null if not measured
+   */
+  public getBackground(channel: number): BackgroundRate | null {
+    return this.backgrounds[channel] ?? null;
+  }
+
+  /**
+   * Age of a channel's background measurement
+   * @param channel - Channel number (0-7)
+   * @param now - Reference time in ms since epoch (default: now)
+   * @returns Age in seconds, or null if not measured
+   */
+  public getBackgroundAge(channel: number, now = Date.now()): number | null {
+    const background = this.backgrounds[channel];
+    if (background === undefined) return null;
+    return (now - Date.parse(background.measuredAt)) / MILLISECONDS_PER_SECOND;
+  }
+
   /**
    * Apply calibration to raw count data
    * @param channel - Channel number (0-7)
@@ -348,6 +451,7 @@ export class CalibrationProfile {
       thresholds: this.thresholds,
       gains: this.gains,
       offsets: this.offsets,
+      backgrounds: this.backgrounds,
       metadata: this.metadata,
     };
   }
@@ -596,7 +700,9 @@ export class CalibrationWizard {
   }
 
   /**
-   * Perform automatic background measurement
+   * Perform automatic background measurement.
+   * Each rate is stored on the profile with its Poisson uncertainty and
+   * timestamp, ready for the `subtractBackground` measurement option.
    * @param channels - Channels to measure
    * @param duration - Measurement duration
    * @returns Background rates for each channel
@@ -605,12 +711,21 @@ export class CalibrationWizard {
     channels: number[],
     duration = DEFAULT_BACKGROUND_DURATION
   ): Promise<Record<number, number>> {
+    if (!this.cd48.isConnected()) {
+      throw new Error('CD48 device not connected');
+    }
+
     const backgrounds: Record<number, number> = {};
 
     for (const channel of channels) {
-      const rate = await this.measureChannelRate(channel, duration);
-      backgrounds[channel] = rate;
-      this.profile.metadata[`background_ch${channel}`] = rate;
+      const result = await this.cd48.measureRate(channel, duration);
+      backgrounds[channel] = result.rate;
+      this.profile.setBackground(channel, {
+        rate: result.rate,
+        uncertainty: result.uncertainty.rate,
+        duration,
+        measuredAt: new Date().toISOString(),
+      });
     }
 
     return backgrounds;
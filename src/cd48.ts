@@ -4,7 +4,8 @@
  * A TypeScript library for controlling the Red Dog Physics CD48
  * Coincidence Counter via the Web Serial API.
  *
- * Requires Chrome 89+ or Edge 89+
+ * Requires Chrome 89+ or Edge 89+ by default. Pass a `transport` option
+ * (e.g. NodeSerialTransport or LoopbackTransport) to run elsewhere.
  *
  * @example
  * const cd48 = new CD48();
@@ -16,22 +17,46 @@
  * await cd48.disconnect();
  */
 
+import {
+  Coincidence,
+  type CoincidenceAnalysis,
+  type CoincidenceChannelMap,
+  DeadTime,
+  type DeadTimeCorrection,
+  type DeadTimeModel,
+  type DeadTimeOptions,
+  type PoissonInterval,
+  type PoissonIntervalOptions,
+  Statistics,
+  validateDeadTimeOptions,
+  validatePoissonIntervalOptions,
+} from './analysis.js';
+import type { BackgroundRate, CalibrationProfile } from './calibration.js';
+import {
+  COMMAND_DESCRIPTORS,
+  type CommandDescriptor,
+  frameResponse,
+  getCommandDescriptor,
+  type ResponseFraming,
+} from './commands.js';
 import {
   ACCIDENTAL_RATE_MULTIPLIER,
   BAUD_RATE,
   COINCIDENCE_WINDOW_SECONDS,
   COMMAND_DELAY_MS,
-  COMMAND_TIMEOUT_MS,
   CONNECTION_INIT_DELAY_MS,
   DECIMAL_RADIX,
+  DEFAULT_BACKGROUND_MAX_AGE,
   DEFAULT_COINCIDENCE_CHANNEL,
   DEFAULT_COMMAND_RETRIES,
   DEFAULT_MEASUREMENT_DURATION,
+  DEFAULT_REPEAT_INTERVAL_MS,
   DEFAULT_RETRY_DELAY_MS,
   DEFAULT_SINGLES_A_CHANNEL,
   DEFAULT_SINGLES_B_CHANNEL,
   EXPECTED_CHANNEL_COUNT,
   EXPECTED_COUNT_RESPONSE_LENGTH,
+  EXPECTED_SETTINGS_RESPONSE_LENGTH,
   MILLISECONDS_PER_SECOND,
   MIN_FIRMWARE_MAJOR,
   MIN_FIRMWARE_MINOR,
@@ -41,12 +66,19 @@ import {
   READ_TIMEOUT_INTERVAL_MS,
   RECONNECT_ATTEMPTS,
   RECONNECT_DELAY_MS,
-  USB_VENDOR_ID,
   WEB_LOCK_NAME,
 } from './constants.js';
 import {
+  type ApplyConfigResult,
+  type DeviceConfig,
+  diffDeviceConfig,
+  validateDeviceConfig,
+} from './device-config.js';
+import {
+  CD48Error,
   CommandTimeoutError,
   CommunicationError,
+  ConfigVerificationError,
   ConnectionError,
   DeviceSelectionCancelledError,
   FirmwareIncompatibleError,
@@ -54,13 +86,27 @@ import {
   NotConnectedError,
   OperationAbortedError,
   UnsupportedBrowserError,
+  ValidationError,
 } from './errors.js';
+import { TypedEventEmitter } from './events.js';
+import { CountStream, type StreamOptions } from './stream.js';
+import type { ProtocolTrace, TraceContext } from './trace.js';
+import {
+  type CD48Transport,
+  type TransportReadResult,
+  WebSerialTransport,
+} from './transport.js';
 import {
   BYTE_MAX,
+  byteToVoltage,
+  createVoltage,
+  type ImpedanceMode,
   REPEAT_INTERVAL_MAX,
   REPEAT_INTERVAL_MIN,
   VOLTAGE_MAX,
+  type Voltage,
   validateChannel,
+  validateRepeatInterval,
   voltageToByte,
 } from './validation.js';
 
@@ -86,6 +132,12 @@ export interface CD48Options {
   retryDelay?: number;
   /** Use Web Locks API to prevent concurrent commands (default: false) */
   useWebLocks?: boolean;
+  /** Transport to use instead of the Web Serial port picker */
+  transport?: CD48Transport;
+  /** Record every write, read and failed attempt (default: off) */
+  trace?: ProtocolTrace;
+  /** Extra or replacement command descriptors, keyed by command letter */
+  commands?: Readonly<Record<string, CommandDescriptor>>;
 }
 
 /**
@@ -118,6 +170,47 @@ export type ConnectionStateChangeCallback = (
 export interface MeasurementOptions {
   /** AbortSignal to cancel the measurement */
   signal?: AbortSignal;
+  /** Queue priority of the measurement's commands (default: 'normal') */
+  priority?: CommandPriority;
+  /** Dead-time correction to report next to the raw rates (default: none) */
+  deadTime?: DeadTimeOptions;
+  /** Profile whose background rates are subtracted (default: none) */
+  subtractBackground?: CalibrationProfile;
+  /**
+   * Background age in seconds beyond which a `staleBackground` event is
+   * emitted (default: 86400)
+   */
+  maxBackgroundAge?: number;
+  /**
+   * Poisson confidence interval to report for the rate (default: none).
+   * Unlike the symmetric sqrt(N) uncertainty it stays valid at low counts.
+   */
+  confidenceInterval?: PoissonIntervalOptions;
+}
+
+/**
+ * Command queue priority
+ */
+export type CommandPriority = 'high' | 'normal' | 'low';
+
+/**
+ * Per-command options
+ */
+export interface CommandOptions {
+  /** Queue priority; higher priorities run first (default: 'normal') */
+  priority?: CommandPriority;
+  /** Cancels the command while it is queued or awaiting its reply */
+  signal?: AbortSignal;
+  /** Response timeout in ms (default: from the command descriptor) */
+  timeoutMs?: number;
+}
+
+/**
+ * Command waiting in the queue
+ */
+export interface QueuedCommandInfo {
+  readonly command: string;
+  readonly priority: CommandPriority;
 }
 
 /**
@@ -130,6 +223,24 @@ export interface ChannelInputs {
   D?: 0 | 1;
 }
 
+/**
+ * Parsed device settings from the machine-readable `p` response
+ */
+export interface DeviceSettings {
+  /** Input selection for each of the 8 counters */
+  readonly channels: ReadonlyArray<Readonly<Required<ChannelInputs>>>;
+  /** Trigger threshold voltage */
+  readonly triggerLevel: Voltage;
+  /** DAC output voltage */
+  readonly dacVoltage: Voltage;
+  /** Input impedance */
+  readonly impedance: ImpedanceMode;
+  /** Whether automatic repeat mode is on */
+  readonly repeatEnabled: boolean;
+  /** Automatic repeat interval in milliseconds */
+  readonly repeatInterval: number;
+}
+
 /**
  * Count data from device
  */
@@ -156,6 +267,31 @@ export interface RateMeasurement {
   readonly rate: number;
   readonly channel: number;
   readonly uncertainty: Readonly<MeasurementUncertainty>;
+  /** True if the channel's counter wrapped; `counts` is then unreliable */
+  readonly overflowed: boolean;
+  /** Dead-time corrected rate, present when the deadTime option was given */
+  readonly deadTimeCorrected?: DeadTimeCorrection;
+  /** Net rate, present when the subtractBackground option was given */
+  readonly backgroundSubtracted?: BackgroundSubtraction;
+  /**
+   * Asymmetric rate interval in counts per second, present when the
+   * confidenceInterval option was given
+   */
+  readonly confidenceInterval?: PoissonInterval;
+}
+
+/**
+ * Rate with the channel's background subtracted.
+ * The net rate is not clamped at zero, so averages stay unbiased.
+ */
+export interface BackgroundSubtraction {
+  readonly rate: number;
+  /** Measurement and background uncertainties added in quadrature */
+  readonly uncertainty: number;
+  /** Background that was subtracted */
+  readonly background: BackgroundRate;
+  /** True if the background is older than maxBackgroundAge */
+  readonly stale: boolean;
 }
 
 /**
@@ -188,6 +324,27 @@ export interface CoincidenceMeasurementOptions extends MeasurementOptions {
   coincidenceWindow?: number;
 }
 
+/**
+ * Channel map coincidence measurement options
+ */
+export interface MultiCoincidenceOptions
+  extends Pick<MeasurementOptions, 'signal' | 'priority'> {
+  /** Measurement duration in seconds */
+  duration?: number;
+  /** Window in seconds (default: 25e-9) */
+  coincidenceWindow?: number;
+  /** Uncertainty of the window in seconds (default: 0) */
+  windowUncertainty?: number;
+}
+
+/**
+ * Channel map coincidence measurement result
+ */
+export interface MultiCoincidenceMeasurement extends CoincidenceAnalysis {
+  /** True if any counter in the map wrapped */
+  readonly overflowed: boolean;
+}
+
 /**
  * Coincidence measurement result
  */
@@ -202,6 +359,58 @@ export interface CoincidenceMeasurement {
   readonly accidentalRate: number;
   readonly trueCoincidenceRate: number;
   readonly uncertainty: Readonly<CoincidenceUncertainty>;
+  /** True if any of the three counters used wrapped */
+  readonly overflowed: boolean;
+  /** Dead-time corrected rates, present when the deadTime option was given */
+  readonly deadTimeCorrected?: CoincidenceDeadTimeCorrection;
+  /** Net rates, present when the subtractBackground option was given */
+  readonly backgroundSubtracted?: CoincidenceBackgroundSubtraction;
+}
+
+/**
+ * Coincidence rates with the background of each counter subtracted.
+ * The true coincidence rate subtracts the background's own true rate (its
+ * coincidence rate minus its accidentals). Net rates are not clamped.
+ */
+export interface CoincidenceBackgroundSubtraction {
+  readonly rateA: number;
+  readonly rateB: number;
+  readonly coincidenceRate: number;
+  readonly trueCoincidenceRate: number;
+  readonly uncertainty: Readonly<
+    Pick<
+      CoincidenceUncertainty,
+      'rateA' | 'rateB' | 'coincidenceRate' | 'trueCoincidenceRate'
+    >
+  >;
+  /** True if any of the three backgrounds is older than maxBackgroundAge */
+  readonly stale: boolean;
+}
+
+/**
+ * Dead-time corrected coincidence rates.
+ * Each counter's rate is corrected on its own; the accidental rate is then
+ * recomputed from the corrected singles.
+ */
+export interface CoincidenceDeadTimeCorrection {
+  readonly model: DeadTimeModel;
+  readonly rateA: number;
+  readonly rateB: number;
+  readonly coincidenceRate: number;
+  readonly accidentalRate: number;
+  readonly trueCoincidenceRate: number;
+  readonly uncertainty: Readonly<
+    Pick<
+      CoincidenceUncertainty,
+      | 'rateA'
+      | 'rateB'
+      | 'coincidenceRate'
+      | 'accidentalRate'
+      | 'trueCoincidenceRate'
+    >
+  >;
+  /** True if any of the three rates is beyond the model's maximum */
+  readonly saturated: boolean;
 }
 
 /**
@@ -218,10 +427,99 @@ export interface ReconnectFailedEventData {
   readonly attempts: number;
 }
 
+/**
+ * Disconnect event data
+ */
+export interface DisconnectEventData {
+  /** 'requested' for disconnect(), 'lost' when the device went away */
+  readonly reason: 'requested' | 'lost';
+}
+
+/**
+ * Command event data, emitted as each attempt is sent
+ */
+export interface CommandEventData {
+  readonly command: string;
+  /** Attempt number, starting at 1 */
+  readonly attempt: number;
+}
+
+/**
+ * Response event data
+ */
+export interface ResponseEventData {
+  readonly command: string;
+  readonly response: string;
+  /** Time from sending the command to receiving the reply (ms) */
+  readonly durationMs: number;
+}
+
+/**
+ * Timeout event data
+ */
+export interface TimeoutEventData {
+  readonly command: string;
+  readonly timeoutMs: number;
+  readonly attempt: number;
+}
+
+/**
+ * Retry event data, emitted before a failed command is sent again
+ */
+export interface RetryEventData {
+  readonly command: string;
+  /** Number of the upcoming attempt, starting at 2 */
+  readonly attempt: number;
+  readonly delayMs: number;
+  /** Error that caused the retry */
+  readonly error: Error;
+}
+
+/**
+ * Counter overflow event data
+ */
+export interface OverflowEventData {
+  /** Raw 8-bit overflow flag */
+  readonly overflow: number;
+  /** Channels whose counters overflowed */
+  readonly channels: ReadonlyArray<number>;
+}
+
+/**
+ * Stale background event data
+ */
+export interface StaleBackgroundEventData {
+  /** Channel whose background is stale */
+  readonly channel: number;
+  /** Background age in seconds */
+  readonly age: number;
+  /** Configured maximum age in seconds */
+  readonly maxAge: number;
+  /** When the background was measured (ISO 8601) */
+  readonly measuredAt: string;
+}
+
+/**
+ * Events emitted by CD48
+ */
+export interface CD48Events {
+  disconnect: DisconnectEventData;
+  reconnect: ReconnectEventData;
+  reconnectFailed: ReconnectFailedEventData;
+  connectionStateChange: ConnectionStateChangeData;
+  command: CommandEventData;
+  response: ResponseEventData;
+  timeout: TimeoutEventData;
+  retry: RetryEventData;
+  overflow: OverflowEventData;
+  firmware: FirmwareInfo;
+  staleBackground: StaleBackgroundEventData;
+}
+
 /**
  * Disconnect callback type
  */
-export type DisconnectCallback = () => void;
+export type DisconnectCallback = (data: DisconnectEventData) => void;
 
 /**
  * Reconnect callback type
@@ -254,16 +552,44 @@ export interface FirmwareInfo {
 /**
  * Read result with timeout flag
  */
-interface ReadResult {
-  value: string;
-  done: boolean;
+interface ReadResult extends TransportReadResult {
   timeout?: boolean;
 }
 
+/**
+ * Background rate looked up for a measurement
+ */
+interface CheckedBackground {
+  readonly background: BackgroundRate;
+  /** True if older than the measurement's maxBackgroundAge */
+  readonly stale: boolean;
+}
+
+/**
+ * Queued command with its caller's promise
+ */
+interface QueuedCommand extends QueuedCommandInfo {
+  readonly timeoutMs: number;
+  readonly framing: ResponseFraming;
+  readonly resolve: (response: string) => void;
+  readonly reject: (error: Error) => void;
+  /** Remove the abort listener */
+  release: () => void;
+}
+
+/**
+ * Queue order of each priority
+ */
+const PRIORITY_ORDER: Readonly<Record<CommandPriority, number>> = {
+  high: 0,
+  normal: 1,
+  low: 2,
+};
+
 /**
  * CD48 Coincidence Counter interface class
  */
-class CD48 {
+class CD48 extends TypedEventEmitter<CD48Events> {
   private readonly baudRate: number;
   private readonly commandDelay: number;
   private readonly autoReconnect: boolean;
@@ -273,26 +599,31 @@ class CD48 {
   private readonly commandRetries: number;
   private readonly retryDelay: number;
   private readonly useWebLocks: boolean;
-  private port: SerialPort | null;
-  private reader: ReadableStreamDefaultReader<string> | null;
-  private writer: WritableStreamDefaultWriter<string> | null;
-  private readableStreamClosed: Promise<void> | null;
-  private writableStreamClosed: Promise<void> | null;
+  private readonly customTransport: CD48Transport | null;
+  private readonly trace: ProtocolTrace | null;
+  private readonly commands: Readonly<Record<string, CommandDescriptor>>;
+  private _traceContext: TraceContext | null;
+  private transport: CD48Transport | null;
+  private _pendingRead: Promise<TransportReadResult> | null;
   private _lastCommandTime: number;
   private _rateLimitLock: Promise<void>;
+  private _commandQueue: QueuedCommand[];
+  private _queueRunning: boolean;
   private _reconnecting: boolean;
   private _connectionState: ConnectionState;
-  private _onDisconnect: DisconnectCallback | null;
-  private _onReconnect: ReconnectCallback | null;
-  private _onReconnectFailed: ReconnectFailedCallback | null;
-  private _onConnectionStateChange: ConnectionStateChangeCallback | null;
   private _boundHandleDisconnect: (() => void) | null;
+  private _stream: CountStream | null;
+  private _lineReader: { stop: () => void } | null;
+  private _rxBuffer: string;
+  private _replyLines: string[];
+  private _replyWaiter: ((line: string) => void) | null;
 
   /**
    * Create a CD48 interface instance.
    * @param options - Configuration options
    */
   constructor(options: CD48Options = {}) {
+    super();
     this.baudRate = options.baudRate ?? BAUD_RATE;
     this.commandDelay = options.commandDelay ?? COMMAND_DELAY_MS;
     this.autoReconnect = options.autoReconnect ?? false;
@@ -302,20 +633,24 @@ class CD48 {
     this.commandRetries = options.commandRetries ?? DEFAULT_COMMAND_RETRIES;
     this.retryDelay = options.retryDelay ?? DEFAULT_RETRY_DELAY_MS;
     this.useWebLocks = options.useWebLocks ?? false;
-    this.port = null;
-    this.reader = null;
-    this.writer = null;
-    this.readableStreamClosed = null;
-    this.writableStreamClosed = null;
+    this.customTransport = options.transport ?? null;
+    this.trace = options.trace ?? null;
+    this.commands = { ...COMMAND_DESCRIPTORS, ...options.commands };
+    this._traceContext = null;
+    this.transport = null;
+    this._pendingRead = null;
     this._lastCommandTime = 0;
     this._rateLimitLock = Promise.resolve();
+    this._commandQueue = [];
+    this._queueRunning = false;
     this._reconnecting = false;
     this._connectionState = 'disconnected';
-    this._onDisconnect = null;
-    this._onReconnect = null;
-    this._onReconnectFailed = null;
-    this._onConnectionStateChange = null;
     this._boundHandleDisconnect = null;
+    this._stream = null;
+    this._lineReader = null;
+    this._rxBuffer = '';
+    this._replyLines = [];
+    this._replyWaiter = null;
   }
 
   /**
@@ -323,7 +658,7 @@ class CD48 {
    * @returns True if supported
    */
   public static isSupported(): boolean {
-    return 'serial' in navigator;
+    return WebSerialTransport.isSupported();
   }
 
   /**
@@ -370,6 +705,67 @@ class CD48 {
     return { major: 0, minor: 0, patch: 0 };
   }
 
+  /**
+   * Parse the machine-readable `p` settings response.
+   *
+   * Format: eight `ABCD` input masks (one 0/1 digit per input), trigger
+   * level byte, DAC byte, impedance flag (1 = 50 Ohm), repeat enabled flag
+   * and repeat interval in ms, separated by whitespace.
+   * @param response - Raw settings response
+   * @returns Parsed settings
+   * @throws InvalidResponseError if the response does not match the format
+   */
+  public static parseDeviceSettings(response: string): DeviceSettings {
+    const expected =
+      `${EXPECTED_CHANNEL_COUNT} four-digit 0/1 input masks, trigger byte, ` +
+      'DAC byte, impedance flag, repeat flag and repeat interval (ms)';
+    const parts = response.split(/\s+/).filter((p) => p.length > 0);
+    if (parts.length !== EXPECTED_SETTINGS_RESPONSE_LENGTH) {
+      throw new InvalidResponseError(response, expected);
+    }
+
+    const masks = parts.slice(0, EXPECTED_CHANNEL_COUNT);
+    const [trigger = '', dac = '', impedance = '', repeat = '', interval = ''] =
+      parts.slice(EXPECTED_CHANNEL_COUNT);
+    const toByte = (field: string): number | null => {
+      const value = Number.parseInt(field, DECIMAL_RADIX);
+      return /^\d{1,3}$/.test(field) && value <= BYTE_MAX ? value : null;
+    };
+    const triggerByte = toByte(trigger);
+    const dacByte = toByte(dac);
+    const repeatInterval = Number.parseInt(interval, DECIMAL_RADIX);
+
+    if (
+      !masks.every((mask) => /^[01]{4}$/.test(mask)) ||
+      triggerByte === null ||
+      dacByte === null ||
+      !/^[01]$/.test(impedance) ||
+      !/^[01]$/.test(repeat) ||
+      !/^\d{1,5}$/.test(interval) ||
+      repeatInterval < REPEAT_INTERVAL_MIN ||
+      repeatInterval > REPEAT_INTERVAL_MAX
+    ) {
+      throw new InvalidResponseError(response, expected);
+    }
+
+    const bit = (mask: string, index: number): 0 | 1 =>
+      mask.charAt(index) === '1' ? 1 : 0;
+
+    return {
+      channels: masks.map((mask) => ({
+        A: bit(mask, 0),
+        B: bit(mask, 1),
+        C: bit(mask, 2),
+        D: bit(mask, 3),
+      })),
+      triggerLevel: createVoltage(byteToVoltage(triggerByte)),
+      dacVoltage: createVoltage(byteToVoltage(dacByte)),
+      impedance: impedance === '1' ? '50ohm' : 'highz',
+      repeatEnabled: repeat === '1',
+      repeatInterval,
+    };
+  }
+
   /**
    * Compare two firmware versions.
    * @param a - First version
@@ -386,37 +782,45 @@ class CD48 {
   }
 
   /**
-   * Set callback for disconnect events.
+   * Listen for disconnect events.
    * @param callback - Function called on disconnect
+   * @returns Function that removes the listener
+   * @deprecated Use `on('disconnect', callback)`
    */
-  public onDisconnect(callback: DisconnectCallback): void {
-    this._onDisconnect = callback;
+  public onDisconnect(callback: DisconnectCallback): () => void {
+    return this.on('disconnect', callback);
   }
 
   /**
-   * Set callback for reconnect events.
+   * Listen for reconnect events.
    * @param callback - Function called on successful reconnect
+   * @returns Function that removes the listener
+   * @deprecated Use `on('reconnect', callback)`
    */
-  public onReconnect(callback: ReconnectCallback): void {
-    this._onReconnect = callback;
+  public onReconnect(callback: ReconnectCallback): () => void {
+    return this.on('reconnect', callback);
   }
 
   /**
-   * Set callback for reconnect failed events.
+   * Listen for reconnect failed events.
    * @param callback - Function called when all reconnection attempts fail
+   * @returns Function that removes the listener
+   * @deprecated Use `on('reconnectFailed', callback)`
    */
-  public onReconnectFailed(callback: ReconnectFailedCallback): void {
-    this._onReconnectFailed = callback;
+  public onReconnectFailed(callback: ReconnectFailedCallback): () => void {
+    return this.on('reconnectFailed', callback);
   }
 
   /**
-   * Set callback for connection state change events.
+   * Listen for connection state change events.
    * @param callback - Function called when connection state changes
+   * @returns Function that removes the listener
+   * @deprecated Use `on('connectionStateChange', callback)`
    */
   public onConnectionStateChange(
     callback: ConnectionStateChangeCallback
-  ): void {
-    this._onConnectionStateChange = callback;
+  ): () => void {
+    return this.on('connectionStateChange', callback);
   }
 
   /**
@@ -429,21 +833,21 @@ class CD48 {
 
   /**
    * Connect to the CD48 device.
-   * Opens a serial port picker dialog for the user.
+   * Opens a serial port picker dialog for the user, unless a transport was
+   * supplied in the constructor options.
    * @returns True if connected successfully
    */
   public async connect(): Promise<boolean> {
-    if (!CD48.isSupported()) {
+    if (this.customTransport === null && !CD48.isSupported()) {
       throw new UnsupportedBrowserError();
     }
 
     this._setConnectionState('connecting');
 
     try {
-      // Request port with Cypress VID filter
-      this.port = await navigator.serial.requestPort({
-        filters: [{ usbVendorId: USB_VENDOR_ID }], // Cypress Semiconductor
-      });
+      this.transport =
+        this.customTransport ??
+        (await WebSerialTransport.request({ baudRate: this.baudRate }));
 
       await this._setupConnection();
       this._setConnectionState('connected');
@@ -476,19 +880,19 @@ class CD48 {
       // Clean up existing connection
       await this._cleanupConnection();
 
-      // Get previously granted ports
-      const ports = await navigator.serial.getPorts();
-      const cd48Port = ports.find((p) => {
-        const info = p.getInfo();
-        return info.usbVendorId === USB_VENDOR_ID;
-      });
+      // Reuse the supplied transport, or find a previously granted port
+      const transport =
+        this.customTransport ??
+        (await WebSerialTransport.fromGrantedPorts({
+          baudRate: this.baudRate,
+        }));
 
-      if (cd48Port === undefined) {
+      if (transport === null) {
         this._setConnectionState('disconnected');
         throw new ConnectionError('No previously connected CD48 device found');
       }
 
-      this.port = cd48Port;
+      this.transport = transport;
       await this._setupConnection();
       this._setConnectionState('connected');
 
@@ -505,11 +909,17 @@ class CD48 {
    * Disconnect from the CD48 device.
    */
   public async disconnect(): Promise<void> {
+    this.flush();
+    if (this._stream !== null) {
+      try {
+        await this._stream.stop();
+      } catch {
+        // Closing the port ends repeat mode anyway
+      }
+    }
     await this._cleanupConnection();
     this._setConnectionState('disconnected');
-    if (this._onDisconnect !== null) {
-      this._onDisconnect();
-    }
+    this.emit('disconnect', { reason: 'requested' });
   }
 
   /**
@@ -517,7 +927,7 @@ class CD48 {
    * @returns True if connected
    */
   public isConnected(): boolean {
-    return this.port !== null && this.reader !== null;
+    return this.transport?.isOpen() === true;
   }
 
   /**
@@ -540,39 +950,114 @@ class CD48 {
     }
 
     return new Promise((resolve, reject) => {
-      const timeoutId = setTimeout(resolve, ms);
+      const abortHandler = (): void => {
+        clearTimeout(timeoutId);
+        reject(new OperationAbortedError('sleep'));
+      };
+      const timeoutId = setTimeout(() => {
+        // Clean up abort listener as the sleep completes
+        signal?.removeEventListener('abort', abortHandler);
+        resolve();
+      }, ms);
 
+      signal?.addEventListener('abort', abortHandler, { once: true });
+    });
+  }
+
+  /**
+   * Send a command and read the response.
+   * Commands run one at a time from a queue, highest priority first and in
+   * call order within a priority. The command's descriptor decides how its
+   * response ends and how long to wait for it. Includes automatic retry logic for
+   * transient errors, and uses the Web Locks API when enabled to prevent
+   * concurrent commands from other tabs.
+   * @param command - Command to send
+   * @param options - Priority, abort signal and timeout
+   * @returns Response from device
+   * @throws OperationAbortedError if aborted or flushed before completing
+   */
+  public async sendCommand(
+    command: string,
+    options: CommandOptions = {}
+  ): Promise<string> {
+    const descriptor = getCommandDescriptor(command, this.commands);
+    const {
+      priority = 'normal',
+      signal,
+      timeoutMs = descriptor.timeoutMs,
+    } = options;
+    if (!(timeoutMs > 0)) {
+      throw new ValidationError('timeoutMs', timeoutMs, 'must be > 0');
+    }
+    if (signal?.aborted === true) {
+      throw new OperationAbortedError(command);
+    }
+
+    return new Promise((resolve, reject) => {
+      const entry: QueuedCommand = {
+        command,
+        priority,
+        timeoutMs,
+        framing: descriptor.framing,
+        resolve,
+        reject,
+        release: () => {},
+      };
       if (signal !== undefined) {
-        const abortHandler = (): void => {
-          clearTimeout(timeoutId);
-          reject(new OperationAbortedError('sleep'));
+        // Once sent, the reply is still read so it cannot leak into the
+        // next command; only the caller stops waiting
+        const onAbort = (): void => {
+          const index = this._commandQueue.indexOf(entry);
+          if (index !== -1) this._commandQueue.splice(index, 1);
+          reject(new OperationAbortedError(command));
         };
+        signal.addEventListener('abort', onAbort, { once: true });
+        entry.release = () => signal.removeEventListener('abort', onAbort);
+      }
 
-        signal.addEventListener('abort', abortHandler, { once: true });
-
-        // Clean up abort listener after sleep completes
-        setTimeout(() => {
-          signal.removeEventListener('abort', abortHandler);
-        }, ms + 1);
+      const order = PRIORITY_ORDER[priority];
+      const index = this._commandQueue.findIndex(
+        (queued) => PRIORITY_ORDER[queued.priority] > order
+      );
+      if (index === -1) {
+        this._commandQueue.push(entry);
+      } else {
+        this._commandQueue.splice(index, 0, entry);
       }
+      void this._runQueue();
     });
   }
 
   /**
-   * Send a command and read the response.
-   * Includes automatic retry logic for transient errors.
-   * Uses Web Locks API when enabled to prevent concurrent commands.
-   * @param command - Command to send
-   * @returns Response from device
+   * Number of commands waiting to be sent, excluding the one in progress.
    */
-  public async sendCommand(command: string): Promise<string> {
-    // Use Web Locks if enabled and supported
-    if (this.useWebLocks && CD48.isWebLocksSupported()) {
-      return navigator.locks.request(WEB_LOCK_NAME, async () => {
-        return this._sendCommandWithRetry(command);
-      });
+  public get queueDepth(): number {
+    return this._commandQueue.length;
+  }
+
+  /**
+   * Commands waiting to be sent, in the order they will run.
+   */
+  public get queuedCommands(): ReadonlyArray<QueuedCommandInfo> {
+    return this._commandQueue.map(({ command, priority }) => ({
+      command,
+      priority,
+    }));
+  }
+
+  /**
+   * Reject every queued command with OperationAbortedError.
+   * The command in progress, if any, is left to finish.
+   * Called automatically on disconnect.
+   * @returns Number of commands rejected
+   */
+  public flush(): number {
+    const pending = this._commandQueue.splice(0);
+    for (const entry of pending) {
+      entry.release();
+      entry.reject(new OperationAbortedError(entry.command));
     }
-    return this._sendCommandWithRetry(command);
+    return pending.length;
   }
 
   /**
@@ -598,7 +1083,7 @@ class CD48 {
     const isCompatible =
       CD48.compareFirmwareVersions({ major, minor, patch }, minVersion) >= 0;
 
-    return {
+    const info: FirmwareInfo = {
       versionString,
       major,
       minor,
@@ -606,6 +1091,8 @@ class CD48 {
       isCompatible,
       minimumVersion: MIN_FIRMWARE_VERSION,
     };
+    this.emit('firmware', info);
+    return info;
   }
 
   /**
@@ -635,25 +1122,42 @@ class CD48 {
   /**
    * Get current counts from all channels.
    * @param humanReadable - If true, returns formatted string
+   * @param options - Priority, abort signal and timeout
    * @returns Counts data or formatted string
    */
-  public async getCounts(humanReadable: true): Promise<string>;
-  public async getCounts(humanReadable?: false): Promise<CountData>;
-  public async getCounts(humanReadable = false): Promise<CountData | string> {
+  public async getCounts(
+    humanReadable: true,
+    options?: CommandOptions
+  ): Promise<string>;
+  public async getCounts(
+    humanReadable?: false,
+    options?: CommandOptions
+  ): Promise<CountData>;
+  public async getCounts(
+    humanReadable = false,
+    options: CommandOptions = {}
+  ): Promise<CountData | string> {
+    if (this._stream !== null) {
+      throw new CD48Error(
+        'Counts are being delivered by an active stream; stop it first'
+      );
+    }
     if (humanReadable) {
-      return await this.sendCommand('C');
+      return await this.sendCommand('C', options);
     }
 
-    const response = await this.sendCommand('c');
+    const response = await this.sendCommand('c', options);
     const parts = response.split(/\s+/).filter((p) => p.length > 0);
 
     if (parts.length >= EXPECTED_COUNT_RESPONSE_LENGTH) {
+      const overflow = Number.parseInt(
+        parts[EXPECTED_CHANNEL_COUNT] ?? '0',
+        DECIMAL_RADIX
+      );
+      this._emitOverflow(overflow);
       return {
         counts: parts.slice(0, EXPECTED_CHANNEL_COUNT).map(Number),
-        overflow: Number.parseInt(
-          parts[EXPECTED_CHANNEL_COUNT] ?? '0',
-          DECIMAL_RADIX
-        ),
+        overflow,
       };
     }
 
@@ -665,9 +1169,10 @@ class CD48 {
 
   /**
    * Clear all counters by reading them.
+   * @param options - Priority, abort signal and timeout
    */
-  public async clearCounts(): Promise<void> {
-    await this.getCounts(false);
+  public async clearCounts(options: CommandOptions = {}): Promise<void> {
+    await this.getCounts(false, options);
   }
 
   /**
@@ -679,6 +1184,69 @@ class CD48 {
     return await this.sendCommand(humanReadable ? 'P' : 'p');
   }
 
+  /**
+   * Get current settings as a typed object.
+   * @returns Parsed device settings
+   * @throws InvalidResponseError if the firmware response cannot be parsed
+   */
+  public async getDeviceSettings(): Promise<DeviceSettings> {
+    const response = await this.sendCommand('p');
+    return CD48.parseDeviceSettings(response);
+  }
+
+  /**
+   * Bring the device into the state described by a config.
+   * Reads the current settings, sends only the commands needed, then reads
+   * the settings back to verify them.
+   * @param config - Desired device state; omitted settings are left alone
+   * @returns Settings before and after, plus the changes that were made
+   * @throws ValidationError if the config is invalid
+   * @throws ConfigVerificationError if the device disagrees afterwards
+   */
+  public async applyConfig(config: DeviceConfig): Promise<ApplyConfigResult> {
+    validateDeviceConfig(config);
+
+    const before = await this.getDeviceSettings();
+    const changes = diffDeviceConfig(config, before);
+    for (const change of changes) {
+      const { setting, expected } = change;
+      switch (setting) {
+        case 'triggerLevel':
+          await this.setTriggerLevel(expected as number);
+          break;
+        case 'dacVoltage':
+          await this.setDacVoltage(expected as number);
+          break;
+        case 'impedance':
+          await (expected === '50ohm'
+            ? this.setImpedance50Ohm()
+            : this.setImpedanceHighZ());
+          break;
+        case 'repeatInterval':
+          await this.setRepeat(expected as number);
+          break;
+        case 'repeatEnabled':
+          await this.toggleRepeat();
+          break;
+        default: {
+          // channels[N]
+          const channel = Number.parseInt(
+            setting.replace(/\D/g, ''),
+            DECIMAL_RADIX
+          );
+          await this.setChannel(channel, expected as ChannelInputs);
+        }
+      }
+    }
+
+    const after = await this.getDeviceSettings();
+    const remaining = diffDeviceConfig(config, after);
+    if (remaining.length > 0) {
+      throw new ConfigVerificationError(remaining);
+    }
+    return { before, after, changes };
+  }
+
   /**
    * Configure a counter channel.
    * @param channel - Channel number (0-7)
@@ -755,13 +1323,63 @@ class CD48 {
     return await this.sendCommand(`V${byteVal}`);
   }
 
+  /**
+   * Stream counts using the firmware's automatic repeat mode.
+   * Sets the repeat interval, enables repeat mode and routes the pushed
+   * count lines into the returned stream. Other commands keep working while
+   * streaming, except `getCounts()` (and the measurements built on it), whose
+   * reply cannot be told apart from streamed lines.
+   * @param options - Interval, abort signal and buffer size
+   * @returns Stream of timestamped counts
+   * @throws NotConnectedError if not connected
+   * @throws CD48Error if a stream is already active
+   */
+  public async stream(options: StreamOptions = {}): Promise<CountStream> {
+    const intervalMs = options.intervalMs ?? DEFAULT_REPEAT_INTERVAL_MS;
+    validateRepeatInterval(intervalMs);
+    if (options.signal?.aborted === true) {
+      throw new OperationAbortedError('stream');
+    }
+    if (this._stream !== null) {
+      throw new CD48Error('A stream is already active');
+    }
+    const transport = this.transport;
+    if (transport === null || !transport.isOpen()) {
+      throw new NotConnectedError('stream');
+    }
+
+    const stream = new CountStream(
+      intervalMs,
+      () => this._stopStream(stream),
+      options
+    );
+    this._stream = stream;
+    this._startLineReader(transport);
+
+    try {
+      await this.sendCommand(`r${intervalMs}`);
+      const settings = await this.getDeviceSettings();
+      if (!settings.repeatEnabled) {
+        await this.toggleRepeat();
+      }
+    } catch (error) {
+      this._stream = null;
+      this._stopLineReader();
+      stream.end();
+      throw error;
+    }
+    return stream;
+  }
+
   /**
    * Get and clear overflow status.
    * @returns 8-bit overflow flag
    */
   public async getOverflow(): Promise<number> {
     const response = await this.sendCommand('E');
-    return Number.parseInt(response, DECIMAL_RADIX);
+    const overflow = Number.parseInt(response, DECIMAL_RADIX);
+    this._emitOverflow(overflow);
+    return overflow;
   }
 
   /**
@@ -779,6 +1397,9 @@ class CD48 {
    * @param options - Optional measurement options including AbortSignal
    * @returns Rate measurement result with uncertainties
    * @throws OperationAbortedError if aborted via signal
+   * @throws ValidationError if subtractBackground has no rate for the channel
+   *   or deadTime or confidenceInterval is invalid, before anything is
+   *   measured
    */
   public async measureRate(
     channel = 0,
@@ -791,15 +1412,27 @@ class CD48 {
     if (options?.signal?.aborted === true) {
       throw new OperationAbortedError('measureRate');
     }
+    const background =
+      options?.subtractBackground !== undefined
+        ? this._background(options, channel)
+        : null;
+    if (options?.deadTime !== undefined) {
+      validateDeadTimeOptions(options.deadTime);
+    }
+    if (options?.confidenceInterval !== undefined) {
+      validatePoissonIntervalOptions(options.confidenceInterval);
+    }
 
-    await this.clearCounts();
+    const commandOptions = CD48._commandOptions(options);
+    await this.clearCounts(commandOptions);
     await this.sleepWithAbort(
       duration * MILLISECONDS_PER_SECOND,
       options?.signal
     );
-    const data = await this.getCounts(false);
+    const data = await this.getCounts(false, commandOptions);
     const counts = data.counts[channel] ?? 0;
     const rate = counts / duration;
+    const overflowed = ((data.overflow >> channel) & 1) === 1;
 
     // Poisson uncertainty: sigma_N = sqrt(N)
     const countUncertainty = Math.sqrt(Math.max(0, counts));
@@ -809,6 +1442,8 @@ class CD48 {
     const relativeUncertainty =
       counts > 0 ? (countUncertainty / counts) * PERCENT_CONVERSION : 0;
 
+    const deadTime = options?.deadTime;
+    const interval = options?.confidenceInterval;
     return {
       counts,
       duration,
@@ -819,6 +1454,23 @@ class CD48 {
         rate: rateUncertainty,
         relative: relativeUncertainty,
       },
+      overflowed,
+      ...(deadTime !== undefined && {
+        deadTimeCorrected: DeadTime.correct(rate, rateUncertainty, deadTime),
+      }),
+      ...(background !== null && {
+        backgroundSubtracted: {
+          rate: rate - background.background.rate,
+          uncertainty: Math.hypot(
+            rateUncertainty,
+            background.background.uncertainty
+          ),
+          ...background,
+        },
+      }),
+      ...(interval !== undefined && {
+        confidenceInterval: Statistics.rateInterval(counts, duration, interval),
+      }),
     };
   }
 
@@ -827,6 +1479,8 @@ class CD48 {
    * @param options - Measurement options
    * @returns Coincidence measurement result with uncertainties
    * @throws OperationAbortedError if aborted via signal
+   * @throws ValidationError if subtractBackground lacks a rate for a channel
+   *   or deadTime is invalid, before anything is measured
    */
   public async measureCoincidenceRate(
     options: CoincidenceMeasurementOptions = {}
@@ -838,20 +1492,38 @@ class CD48 {
       coincidenceChannel = DEFAULT_COINCIDENCE_CHANNEL,
       coincidenceWindow = COINCIDENCE_WINDOW_SECONDS,
       signal,
+      deadTime,
     } = options;
+    const commandOptions = CD48._commandOptions(options);
 
     // Check if already aborted
     if (signal?.aborted === true) {
       throw new OperationAbortedError('measureCoincidenceRate');
     }
+    const backgrounds =
+      options.subtractBackground !== undefined
+        ? ([
+            this._background(options, singlesAChannel),
+            this._background(options, singlesBChannel),
+            this._background(options, coincidenceChannel),
+          ] as const)
+        : null;
+    if (deadTime !== undefined) {
+      validateDeadTimeOptions(deadTime);
+    }
 
-    await this.clearCounts();
+    await this.clearCounts(commandOptions);
     await this.sleepWithAbort(duration * MILLISECONDS_PER_SECOND, signal);
-    const data = await this.getCounts(false);
+    const data = await this.getCounts(false, commandOptions);
 
     const singlesA = data.counts[singlesAChannel] ?? 0;
     const singlesB = data.counts[singlesBChannel] ?? 0;
     const coincidences = data.counts[coincidenceChannel] ?? 0;
+    const overflowed = [
+      singlesAChannel,
+      singlesBChannel,
+      coincidenceChannel,
+    ].some((ch) => ((data.overflow >> ch) & 1) === 1);
 
     const rateA = singlesA / duration;
     const rateB = singlesB / duration;
@@ -901,9 +1573,309 @@ class CD48 {
         accidentalRate: accidentalRateUncertainty,
         trueCoincidenceRate: trueCoincidenceRateUncertainty,
       },
+      overflowed,
+      ...(deadTime !== undefined && {
+        deadTimeCorrected: CD48._correctCoincidenceDeadTime(
+          [rateA, rateAUncertainty],
+          [rateB, rateBUncertainty],
+          [coincidenceRate, coincidenceRateUncertainty],
+          coincidenceWindow,
+          deadTime
+        ),
+      }),
+      ...(backgrounds !== null && {
+        backgroundSubtracted: CD48._subtractCoincidenceBackground(
+          [rateA, rateAUncertainty],
+          [rateB, rateBUncertainty],
+          [coincidenceRate, coincidenceRateUncertainty],
+          // Unclamped, so the net rate stays unbiased near zero
+          [coincidenceRate - accidentalRate, trueCoincidenceRateUncertainty],
+          backgrounds,
+          coincidenceWindow
+        ),
+      }),
+    };
+  }
+
+  /**
+   * Set each counter's input mask from a coincidence channel map.
+   * Singles counters get their one input; coincidence counters get every
+   * input in their key.
+   * @param map - Which counter holds which singles input or coincidence
+   * @throws ValidationError if the map is invalid
+   */
+  public async configureCoincidences(
+    map: CoincidenceChannelMap
+  ): Promise<void> {
+    const combinations = Coincidence.parseChannelMap(map);
+    const masks = new Map<number, ChannelInputs>();
+    for (const [input, channel] of Object.entries(map.singles)) {
+      if (channel !== undefined) masks.set(channel, { [input]: 1 });
+    }
+    for (const [key, inputs] of Object.entries(combinations)) {
+      const channel = map.coincidences[key] ?? 0;
+      masks.set(channel, Object.fromEntries(inputs.map((input) => [input, 1])));
+    }
+    for (const [channel, inputs] of masks) {
+      await this.setChannel(channel, inputs);
+    }
+  }
+
+  /**
+   * Measure singles and any number of two- to four-fold coincidences.
+   * Accidentals for an n-fold coincidence are n * tau^(n-1) * prod(R_i),
+   * with the singles and window uncertainties propagated.
+   * @param map - Which counter holds which singles input or coincidence
+   * @param options - Measurement options
+   * @returns Rates, accidentals and true coincidence rates with uncertainties
+   * @throws ValidationError if the map is invalid
+   * @throws OperationAbortedError if aborted via signal
+   */
+  public async measureCoincidences(
+    map: CoincidenceChannelMap,
+    options: MultiCoincidenceOptions = {}
+  ): Promise<MultiCoincidenceMeasurement> {
+    const {
+      duration = DEFAULT_MEASUREMENT_DURATION,
+      coincidenceWindow = COINCIDENCE_WINDOW_SECONDS,
+      windowUncertainty = 0,
+      signal,
+    } = options;
+    // Validate before spending the measurement time
+    Coincidence.parseChannelMap(map);
+    if (signal?.aborted === true) {
+      throw new OperationAbortedError('measureCoincidences');
+    }
+
+    const commandOptions = CD48._commandOptions(options);
+    await this.clearCounts(commandOptions);
+    await this.sleepWithAbort(duration * MILLISECONDS_PER_SECOND, signal);
+    const data = await this.getCounts(false, commandOptions);
+
+    const channels = [
+      ...Object.values(map.singles),
+      ...Object.values(map.coincidences),
+    ];
+    return {
+      ...Coincidence.analyzeChannelMap(
+        data.counts,
+        duration,
+        map,
+        coincidenceWindow,
+        windowUncertainty
+      ),
+      overflowed: channels.some(
+        (ch) => ch !== undefined && ((data.overflow >> ch) & 1) === 1
+      ),
+    };
+  }
+
+  /**
+   * Look up a channel's background rate and check its age.
+   * Emits 'staleBackground' if it is older than options.maxBackgroundAge.
+   * @param options - Measurement options with subtractBackground set
+   * @param channel - Channel number
+   * @returns Background with its stale flag
+   * @throws ValidationError if the profile has no background for the channel
+   */
+  private _background(
+    options: MeasurementOptions,
+    channel: number
+  ): CheckedBackground {
+    const maxAge = options.maxBackgroundAge ?? DEFAULT_BACKGROUND_MAX_AGE;
+    if (!(maxAge > 0)) {
+      throw new ValidationError('maxBackgroundAge', maxAge, 'must be > 0');
+    }
+    const profile = options.subtractBackground;
+    const background = profile?.getBackground(channel) ?? null;
+    if (profile === undefined || background === null) {
+      throw new ValidationError(
+        'subtractBackground',
+        profile?.name,
+        `profile must have a background rate for channel ${channel}`
+      );
+    }
+
+    const age = profile.getBackgroundAge(channel) ?? 0;
+    const stale = age > maxAge;
+    if (stale) {
+      this.emit('staleBackground', {
+        channel,
+        age,
+        maxAge,
+        measuredAt: background.measuredAt,
+      });
+    }
+    return { background, stale };
+  }
+
+  /**
+   * Subtract background rates from a coincidence measurement.
+   * @param a - Singles A rate and uncertainty
+   * @param b - Singles B rate and uncertainty
+   * @param coincidence - Coincidence rate and uncertainty
+   * @param trueCoincidence - True coincidence rate and uncertainty
+   * @param backgrounds - Backgrounds of the A, B and coincidence counters
+   * @param coincidenceWindow - Window in seconds
+   * @returns Net rates with uncertainties
+   */
+  private static _subtractCoincidenceBackground(
+    a: readonly [number, number],
+    b: readonly [number, number],
+    coincidence: readonly [number, number],
+    trueCoincidence: readonly [number, number],
+    backgrounds: readonly [
+      CheckedBackground,
+      CheckedBackground,
+      CheckedBackground,
+    ],
+    coincidenceWindow: number
+  ): CoincidenceBackgroundSubtraction {
+    const [{ background: bgA }, { background: bgB }, { background: bgC }] =
+      backgrounds;
+
+    // The background's own correlated rate: C_bg - 2*tau*A_bg*B_bg
+    const window = ACCIDENTAL_RATE_MULTIPLIER * coincidenceWindow;
+    const bgTrue = bgC.rate - window * bgA.rate * bgB.rate;
+    const bgTrueUncertainty = Math.hypot(
+      bgC.uncertainty,
+      window *
+        Math.hypot(bgB.rate * bgA.uncertainty, bgA.rate * bgB.uncertainty)
+    );
+
+    return {
+      rateA: a[0] - bgA.rate,
+      rateB: b[0] - bgB.rate,
+      coincidenceRate: coincidence[0] - bgC.rate,
+      trueCoincidenceRate: trueCoincidence[0] - bgTrue,
+      uncertainty: {
+        rateA: Math.hypot(a[1], bgA.uncertainty),
+        rateB: Math.hypot(b[1], bgB.uncertainty),
+        coincidenceRate: Math.hypot(coincidence[1], bgC.uncertainty),
+        trueCoincidenceRate: Math.hypot(trueCoincidence[1], bgTrueUncertainty),
+      },
+      stale: backgrounds.some((b) => b.stale),
     };
   }
 
+  /**
+   * Dead-time correct the rates of a coincidence measurement.
+   * @param a - Singles A rate and uncertainty
+   * @param b - Singles B rate and uncertainty
+   * @param coincidence - Coincidence rate and uncertainty
+   * @param coincidenceWindow - Window in seconds
+   * @param deadTime - Dead-time options
+   * @returns Corrected rates with uncertainties
+   */
+  private static _correctCoincidenceDeadTime(
+    a: readonly [number, number],
+    b: readonly [number, number],
+    coincidence: readonly [number, number],
+    coincidenceWindow: number,
+    deadTime: DeadTimeOptions
+  ): CoincidenceDeadTimeCorrection {
+    const rateA = DeadTime.correct(a[0], a[1], deadTime);
+    const rateB = DeadTime.correct(b[0], b[1], deadTime);
+    const coincidenceRate = DeadTime.correct(
+      coincidence[0],
+      coincidence[1],
+      deadTime
+    );
+
+    const window = ACCIDENTAL_RATE_MULTIPLIER * coincidenceWindow;
+    const accidentalRate = window * rateA.rate * rateB.rate;
+    const accidentalRateUncertainty =
+      window *
+      Math.hypot(
+        rateB.rate * rateA.uncertainty,
+        rateA.rate * rateB.uncertainty
+      );
+
+    return {
+      model: rateA.model,
+      rateA: rateA.rate,
+      rateB: rateB.rate,
+      coincidenceRate: coincidenceRate.rate,
+      accidentalRate,
+      trueCoincidenceRate: Math.max(0, coincidenceRate.rate - accidentalRate),
+      uncertainty: {
+        rateA: rateA.uncertainty,
+        rateB: rateB.uncertainty,
+        coincidenceRate: coincidenceRate.uncertainty,
+        accidentalRate: accidentalRateUncertainty,
+        trueCoincidenceRate: Math.hypot(
+          coincidenceRate.uncertainty,
+          accidentalRateUncertainty
+        ),
+      },
+      saturated:
+        rateA.saturated || rateB.saturated || coincidenceRate.saturated,
+    };
+  }
+
+  /**
+   * Command options for the reads a measurement makes.
+   * @param options - Measurement options
+   */
+  private static _commandOptions(
+    options: MeasurementOptions | undefined
+  ): CommandOptions {
+    const commandOptions: CommandOptions = {};
+    if (options?.signal !== undefined) commandOptions.signal = options.signal;
+    if (options?.priority !== undefined) {
+      commandOptions.priority = options.priority;
+    }
+    return commandOptions;
+  }
+
+  /**
+   * Run queued commands one at a time until the queue is empty.
+   */
+  private async _runQueue(): Promise<void> {
+    if (this._queueRunning) return;
+    this._queueRunning = true;
+    try {
+      for (
+        let entry = this._commandQueue.shift();
+        entry !== undefined;
+        entry = this._commandQueue.shift()
+      ) {
+        const { command, timeoutMs, framing } = entry;
+        try {
+          // Use Web Locks if enabled and supported
+          const response =
+            this.useWebLocks && CD48.isWebLocksSupported()
+              ? await navigator.locks.request(WEB_LOCK_NAME, async () =>
+                  this._sendCommandWithRetry(command, timeoutMs, framing)
+                )
+              : await this._sendCommandWithRetry(command, timeoutMs, framing);
+          entry.resolve(response);
+        } catch (error) {
+          entry.reject(
+            error instanceof Error ? error : new Error(String(error))
+          );
+        } finally {
+          entry.release();
+        }
+      }
+    } finally {
+      this._queueRunning = false;
+    }
+  }
+
+  /**
+   * Emit an overflow event if any overflow bit is set.
+   * @param overflow - Raw 8-bit overflow flag
+   */
+  private _emitOverflow(overflow: number): void {
+    if (!(overflow > 0)) return;
+    const channels: number[] = [];
+    for (let ch = 0; ch < EXPECTED_CHANNEL_COUNT; ch++) {
+      if ((overflow >> ch) & 1) channels.push(ch);
+    }
+    this.emit('overflow', { overflow, channels });
+  }
+
   /**
    * Update connection state and notify listeners.
    * @param newState - New connection state
@@ -912,42 +1884,78 @@ class CD48 {
     const previousState = this._connectionState;
     if (previousState !== newState) {
       this._connectionState = newState;
-      if (this._onConnectionStateChange !== null) {
-        this._onConnectionStateChange({
-          previousState,
-          currentState: newState,
-        });
-      }
+      this.emit('connectionStateChange', {
+        previousState,
+        currentState: newState,
+      });
     }
   }
 
   /**
    * Send a command with retry logic.
    * @param command - Command to send
+   * @param timeoutMs - Response timeout in ms
+   * @param framing - How the response ends
    * @returns Response from device
    */
-  private async _sendCommandWithRetry(command: string): Promise<string> {
+  private async _sendCommandWithRetry(
+    command: string,
+    timeoutMs: number,
+    framing: ResponseFraming
+  ): Promise<string> {
     let lastError: Error | undefined;
 
-    for (let attempt = 0; attempt <= this.commandRetries; attempt++) {
-      try {
-        return await this._sendCommandOnce(command);
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
+    try {
+      for (let attempt = 0; attempt <= this.commandRetries; attempt++) {
+        this.emit('command', { command, attempt: attempt + 1 });
+        this._traceContext = { command, attempt: attempt + 1 };
+        const startTime = Date.now();
+        try {
+          const response = await this._sendCommandOnce(
+            command,
+            timeoutMs,
+            framing
+          );
+          this.emit('response', {
+            command,
+            response,
+            durationMs: Date.now() - startTime,
+          });
+          return response;
+        } catch (error) {
+          lastError = error instanceof Error ? error : new Error(String(error));
+          this.trace?.recordError(lastError, this._traceContext);
+          if (error instanceof CommandTimeoutError) {
+            this.emit('timeout', {
+              command,
+              timeoutMs: error.timeout,
+              attempt: attempt + 1,
+            });
+          }
 
-        // Don't retry for non-retryable errors
-        if (
-          error instanceof NotConnectedError ||
-          error instanceof InvalidResponseError
-        ) {
-          throw error;
-        }
+          // Don't retry for non-retryable errors
+          if (
+            error instanceof NotConnectedError ||
+            error instanceof InvalidResponseError
+          ) {
+            throw error;
+          }
 
-        // If we have retries left, wait and try again
-        if (attempt < this.commandRetries) {
-          await this.sleep(this.retryDelay * (attempt + 1));
+          // If we have retries left, wait and try again
+          if (attempt < this.commandRetries) {
+            const delayMs = this.retryDelay * (attempt + 1);
+            this.emit('retry', {
+              command,
+              attempt: attempt + 2,
+              delayMs,
+              error: lastError,
+            });
+            await this.sleep(delayMs);
+          }
         }
       }
+    } finally {
+      this._traceContext = null;
     }
 
     // All retries exhausted, throw the last error
@@ -957,9 +1965,15 @@ class CD48 {
   /**
    * Send a command once without retry logic.
    * @param command - Command to send
+   * @param timeoutMs - Response timeout in ms
+   * @param framing - How the response ends
    * @returns Response from device
    */
-  private async _sendCommandOnce(command: string): Promise<string> {
+  private async _sendCommandOnce(
+    command: string,
+    timeoutMs: number,
+    framing: ResponseFraming
+  ): Promise<string> {
     if (!this.isConnected()) {
       // Attempt auto-reconnect if enabled
       if (this.autoReconnect) {
@@ -976,23 +1990,29 @@ class CD48 {
     await this._applyRateLimit();
 
     try {
-      if (this.writer === null || this.reader === null) {
+      const transport = this.transport;
+      if (transport === null) {
         throw new NotConnectedError('sendCommand');
       }
 
       // Clear any pending data
-      await this.writer.write(`${command}\r`);
+      this._replyLines = [];
+      this.trace?.record('write', `${command}\r`, this._traceContext);
+      await transport.write(`${command}\r`);
       await this.sleep(this.commandDelay);
 
+      // While streaming, the line reader owns the transport
+      if (this._lineReader !== null) {
+        return await this._readReply(command, timeoutMs, framing);
+      }
+
       // Read response with timeout
       let response = '';
+      let lastDataTime = 0;
       const startTime = Date.now();
-      const timeout = COMMAND_TIMEOUT_MS;
 
-      while (Date.now() - startTime < timeout) {
-        const readPromise: Promise<ReadResult> = this.reader
-          .read()
-          .then((result) => ({ value: result.value ?? '', done: result.done }));
+      while (Date.now() - startTime < timeoutMs) {
+        const readPromise: Promise<ReadResult> = this._readChunk(transport);
         const timeoutPromise: Promise<ReadResult> = this.sleep(
           READ_TIMEOUT_INTERVAL_MS
         ).then(() => ({
@@ -1002,22 +2022,36 @@ class CD48 {
         }));
 
         const result = await Promise.race([readPromise, timeoutPromise]);
+        if (result.timeout !== true) {
+          this._consumeChunk();
+        }
 
         if (result.done) break;
-        if (result.value !== '') response += result.value;
+        if (result.value !== '') {
+          response += result.value;
+          lastDataTime = Date.now();
+        }
 
         // Check if we have a complete response
-        if (response.includes('\r') || response.includes('\n')) {
+        if (frameResponse(response, framing).complete) {
+          break;
+        }
+        // A response of unknown length ends after a quiet period
+        if (
+          framing.type === 'idle' &&
+          response !== '' &&
+          Date.now() - lastDataTime >= framing.gapMs
+        ) {
           break;
         }
       }
 
       // Check if we timed out
-      if (Date.now() - startTime >= timeout && response === '') {
-        throw new CommandTimeoutError(command, timeout);
+      if (Date.now() - startTime >= timeoutMs && response === '') {
+        throw new CommandTimeoutError(command, timeoutMs);
       }
 
-      return response.trim();
+      return frameResponse(response, framing).text;
     } catch (error) {
       if (
         error instanceof CommandTimeoutError ||
@@ -1033,52 +2067,244 @@ class CD48 {
   }
 
   /**
-   * Set up connection streams after port is opened.
+   * Open the transport and register the disconnect handler.
    */
   private async _setupConnection(): Promise<void> {
-    if (this.port === null) {
-      throw new ConnectionError('No port available');
-    }
-
-    await this.port.open({ baudRate: this.baudRate });
-
-    // Set up reader and writer
-    const textDecoder = new TextDecoderStream();
-    const readable = this.port.readable;
-    if (readable === null) {
-      throw new ConnectionError('Port readable stream not available');
+    if (this.transport === null) {
+      throw new ConnectionError('No transport available');
     }
-    /**
-     * Type assertions needed here because Web Serial API uses BufferSource
-     * but TextDecoderStream expects Uint8Array. They're compatible at runtime
-     * since BufferSource = ArrayBuffer | ArrayBufferView (which includes Uint8Array)
-     */
-    // eslint-disable-next-line @typescript-eslint/no-unnecessary-type-assertion
-    this.readableStreamClosed = (readable as ReadableStream<Uint8Array>).pipeTo(
-      textDecoder.writable as WritableStream<Uint8Array>
-    );
-    this.reader = textDecoder.readable.getReader();
 
-    const textEncoder = new TextEncoderStream();
-    const writable = this.port.writable;
-    if (writable === null) {
-      throw new ConnectionError('Port writable stream not available');
-    }
-    this.writableStreamClosed = textEncoder.readable.pipeTo(
-      writable as WritableStream<Uint8Array> // eslint-disable-line @typescript-eslint/no-unnecessary-type-assertion
-    );
-    this.writer = textEncoder.writable.getWriter();
+    await this.transport.open();
 
     // Set up disconnect event listener for auto-reconnection
     this._boundHandleDisconnect = () => {
       void this._handleDisconnect();
     };
-    this.port.addEventListener('disconnect', this._boundHandleDisconnect);
+    this.transport.onDisconnect(this._boundHandleDisconnect);
 
     // Wait for device to initialize
     await this.sleep(CONNECTION_INIT_DELAY_MS);
   }
 
+  /**
+   * Read the next chunk from the transport.
+   * The read stays pending until a caller consumes its result with
+   * _consumeChunk(), so a read abandoned by a timeout (or by a stopped line
+   * reader) is reused by the next call and late data is not lost.
+   * @param transport - Active transport
+   * @returns Read result
+   */
+  private _readChunk(transport: CD48Transport): Promise<TransportReadResult> {
+    if (this._pendingRead === null) {
+      const pending = transport.read();
+      pending.then(
+        (result) => {
+          if (this.trace !== null && result.value !== '') {
+            this.trace.record('read', result.value, this._traceContext);
+          }
+        },
+        () => {
+          if (this._pendingRead === pending) {
+            this._pendingRead = null;
+          }
+        }
+      );
+      this._pendingRead = pending;
+    }
+    return this._pendingRead;
+  }
+
+  /**
+   * Mark the pending read as consumed so the next _readChunk() starts a new
+   * transport read.
+   */
+  private _consumeChunk(): void {
+    this._pendingRead = null;
+  }
+
+  /**
+   * Start reading the transport in the background, splitting the input into
+   * lines. Count lines go to the active stream, everything else is treated
+   * as a command reply.
+   * @param transport - Active transport
+   */
+  private _startLineReader(transport: CD48Transport): void {
+    let stop: () => void = () => {};
+    const stopped = new Promise<null>((resolve) => {
+      stop = () => resolve(null);
+    });
+    this._lineReader = { stop };
+    this._rxBuffer = '';
+    this._replyLines = [];
+
+    const run = async (): Promise<void> => {
+      for (;;) {
+        const result = await Promise.race([
+          this._readChunk(transport),
+          stopped,
+        ]);
+        if (result === null) return;
+        this._consumeChunk();
+        if (result.done) {
+          throw new ConnectionError('Device disconnected while streaming');
+        }
+        this._routeLines(result.value);
+      }
+    };
+
+    run().catch((error: unknown) => {
+      const stream = this._stream;
+      this._stream = null;
+      this._stopLineReader();
+      stream?.fail(
+        error instanceof CD48Error
+          ? error
+          : new CommunicationError(
+              String(error),
+              error instanceof Error ? error : undefined
+            )
+      );
+    });
+  }
+
+  /**
+   * Stop the background line reader. An outstanding transport read is kept
+   * and reused by the next command.
+   */
+  private _stopLineReader(): void {
+    if (this._lineReader !== null) {
+      this._lineReader.stop();
+      this._lineReader = null;
+    }
+    this._rxBuffer = '';
+    this._replyLines = [];
+    this._replyWaiter = null;
+  }
+
+  /**
+   * Split received text into lines and dispatch them.
+   * @param text - Received chunk
+   */
+  private _routeLines(text: string): void {
+    this._rxBuffer += text;
+    const lines = this._rxBuffer.split(/\r\n|\r|\n/);
+    this._rxBuffer = lines.pop() ?? '';
+
+    for (const raw of lines) {
+      const line = raw.trim();
+      if (line === '') continue;
+
+      const parts = line.split(/\s+/);
+      const isCountLine =
+        parts.length === EXPECTED_COUNT_RESPONSE_LENGTH &&
+        parts.every((part) => /^\d+$/.test(part));
+      if (isCountLine && this._stream !== null) {
+        const overflow = Number.parseInt(
+          parts[EXPECTED_CHANNEL_COUNT] ?? '0',
+          DECIMAL_RADIX
+        );
+        this._emitOverflow(overflow);
+        this._stream.push({
+          counts: parts.slice(0, EXPECTED_CHANNEL_COUNT).map(Number),
+          overflow,
+        });
+      } else if (this._replyWaiter !== null) {
+        const deliver = this._replyWaiter;
+        this._replyWaiter = null;
+        deliver(line);
+      } else {
+        this._replyLines.push(line);
+      }
+    }
+  }
+
+  /**
+   * Wait for a complete reply from the background line reader.
+   * @param command - Command awaiting the reply (for error reporting)
+   * @param timeoutMs - Timeout in milliseconds
+   * @param framing - How the response ends
+   * @returns Reply text
+   * @throws CommandTimeoutError if no reply arrives in time
+   */
+  private async _readReply(
+    command: string,
+    timeoutMs: number,
+    framing: ResponseFraming
+  ): Promise<string> {
+    if (framing.type === 'line') {
+      return this._readReplyLine(command, timeoutMs);
+    }
+
+    // The line reader strips terminators, so a prompt is only seen once it
+    // ends a line
+    const deadline = Date.now() + timeoutMs;
+    let buffer = '';
+    for (;;) {
+      const remaining = deadline - Date.now();
+      const wait =
+        framing.type === 'idle' && buffer !== ''
+          ? Math.min(framing.gapMs, remaining)
+          : remaining;
+      if (wait <= 0) break;
+      try {
+        buffer += `${await this._readReplyLine(command, wait)}\n`;
+      } catch (error) {
+        if (!(error instanceof CommandTimeoutError)) throw error;
+        if (buffer === '') throw new CommandTimeoutError(command, timeoutMs);
+        break;
+      }
+      if (frameResponse(buffer, framing).complete) break;
+    }
+    return frameResponse(buffer, framing).text;
+  }
+
+  /**
+   * Wait for the next reply line from the background line reader.
+   * @param command - Command awaiting the reply (for error reporting)
+   * @param timeout - Timeout in milliseconds
+   * @returns Reply line
+   * @throws CommandTimeoutError if no reply arrives in time
+   */
+  private async _readReplyLine(
+    command: string,
+    timeout: number
+  ): Promise<string> {
+    const queued = this._replyLines.shift();
+    if (queued !== undefined) {
+      return queued;
+    }
+    return new Promise((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        this._replyWaiter = null;
+        reject(new CommandTimeoutError(command, timeout));
+      }, timeout);
+      this._replyWaiter = (line) => {
+        clearTimeout(timeoutId);
+        resolve(line);
+      };
+    });
+  }
+
+  /**
+   * Turn repeat mode off and hand the transport back to command/response
+   * reads.
+   * @param stream - Stream being stopped
+   */
+  private async _stopStream(stream: CountStream): Promise<void> {
+    if (this._stream !== stream) return;
+    try {
+      if (this.isConnected()) {
+        const settings = await this.getDeviceSettings();
+        if (settings.repeatEnabled) {
+          await this.toggleRepeat();
+        }
+      }
+    } finally {
+      this._stream = null;
+      this._stopLineReader();
+    }
+  }
+
   /**
    * Attempt auto-reconnection with retries.
    * @returns True if reconnected successfully
@@ -1093,9 +2319,7 @@ class CD48 {
         await this.sleep(this.reconnectDelay * attempt);
         const success = await this.reconnect();
         if (success) {
-          if (this._onReconnect !== null) {
-            this._onReconnect({ attempt });
-          }
+          this.emit('reconnect', { attempt });
           return true;
         }
       } catch {
@@ -1103,9 +2327,7 @@ class CD48 {
       }
     }
 
-    if (this._onReconnectFailed !== null) {
-      this._onReconnectFailed({ attempts: this.reconnectAttempts });
-    }
+    this.emit('reconnectFailed', { attempts: this.reconnectAttempts });
     return false;
   }
 
@@ -1114,9 +2336,8 @@ class CD48 {
    * Triggers auto-reconnection if enabled.
    */
   private async _handleDisconnect(): Promise<void> {
-    if (this._onDisconnect !== null) {
-      this._onDisconnect();
-    }
+    this.flush();
+    this.emit('disconnect', { reason: 'lost' });
 
     if (this.autoReconnect) {
       await this._attemptAutoReconnect();
@@ -1127,44 +2348,25 @@ class CD48 {
    * Clean up connection resources.
    */
   private async _cleanupConnection(): Promise<void> {
-    if (this.reader !== null) {
-      try {
-        await this.reader.cancel();
-        if (this.readableStreamClosed !== null) {
-          await this.readableStreamClosed.catch(() => {});
-        }
-      } catch {
-        // Ignore cleanup errors
-      }
-      this.reader = null;
-    }
-    if (this.writer !== null) {
-      try {
-        await this.writer.close();
-        if (this.writableStreamClosed !== null) {
-          await this.writableStreamClosed;
-        }
-      } catch {
-        // Ignore cleanup errors
-      }
-      this.writer = null;
-    }
-    if (this.port !== null) {
+    if (this.transport !== null) {
       // Remove disconnect listener before closing
       if (this._boundHandleDisconnect !== null) {
-        this.port.removeEventListener(
-          'disconnect',
-          this._boundHandleDisconnect
-        );
+        this.transport.onDisconnect(null);
         this._boundHandleDisconnect = null;
       }
       try {
-        await this.port.close();
+        await this.transport.close();
       } catch {
         // Ignore cleanup errors
       }
-      this.port = null;
+      this.transport = null;
+    }
+    if (this._stream !== null) {
+      this._stream.end();
+      this._stream = null;
     }
+    this._stopLineReader();
+    this._pendingRead = null;
   }
 
   /**
@@ -0,0 +1,174 @@
+/**
+ * @fileoverview CD48 command descriptors and response framing
+ * @module commands
+ *
+ * Each firmware command is identified by its first character. Its
+ * descriptor says how the response ends and how long to wait for it:
+ * - line: the first line terminator (most commands)
+ * - lines: a fixed number of non-empty lines
+ * - prompt: a prompt string at the end of the output
+ * - idle: no new data for a quiet period (`C`, `P` and `H`, whose
+ *   layout varies between firmware versions)
+ *
+ * @example
+ * const cd48 = new CD48({
+ *   commands: {
+ *     // Firmware variant that ends its help text with a prompt
+ *     H: {
+ *       description: 'Help text',
+ *       framing: { type: 'prompt', prompt: '>' },
+ *       timeoutMs: 3000,
+ *     },
+ *   },
+ * });
+ */
+
+import {
+  COMMAND_TIMEOUT_MS,
+  HELP_TIMEOUT_MS,
+  RESPONSE_IDLE_GAP_MS,
+} from './constants.js';
+
+/**
+ * How a command's response ends
+ */
+export type ResponseFraming =
+  | { readonly type: 'line' }
+  | { readonly type: 'lines'; readonly count: number }
+  | { readonly type: 'prompt'; readonly prompt: string }
+  | { readonly type: 'idle'; readonly gapMs: number };
+
+/**
+ * Response rules for one command
+ */
+export interface CommandDescriptor {
+  /** What the command does */
+  readonly description: string;
+  /** How the response ends */
+  readonly framing: ResponseFraming;
+  /** Time allowed for the complete response in ms */
+  readonly timeoutMs: number;
+}
+
+/**
+ * Response text assembled so far
+ */
+export interface FramedResponse {
+  /** True once the framing rule is satisfied */
+  readonly complete: boolean;
+  /** Response with line terminators normalized to '\n' and trimmed */
+  readonly text: string;
+}
+
+const LINE: ResponseFraming = { type: 'line' };
+
+/**
+ * Build a single-line descriptor with the default timeout.
+ * @param description - What the command does
+ */
+function singleLine(description: string): CommandDescriptor {
+  return { description, framing: LINE, timeoutMs: COMMAND_TIMEOUT_MS };
+}
+
+/**
+ * Descriptors for the CD48 firmware commands, keyed by command letter
+ */
+export const COMMAND_DESCRIPTORS: Readonly<Record<string, CommandDescriptor>> =
+  {
+    v: singleLine('Firmware version'),
+    c: singleLine('Counts (machine readable)'),
+    C: {
+      description: 'Counts (human readable)',
+      framing: { type: 'idle', gapMs: RESPONSE_IDLE_GAP_MS },
+      timeoutMs: COMMAND_TIMEOUT_MS,
+    },
+    p: singleLine('Settings (machine readable)'),
+    P: {
+      description: 'Settings (human readable)',
+      framing: { type: 'idle', gapMs: RESPONSE_IDLE_GAP_MS },
+      timeoutMs: COMMAND_TIMEOUT_MS,
+    },
+    S: singleLine('Set counter inputs'),
+    L: singleLine('Set trigger level'),
+    V: singleLine('Set DAC voltage'),
+    z: singleLine('50 Ohm inputs'),
+    Z: singleLine('High impedance inputs'),
+    r: singleLine('Set repeat interval'),
+    R: singleLine('Toggle repeat mode'),
+    E: singleLine('Overflow flags'),
+    T: singleLine('LED test'),
+    H: {
+      description: 'Help text',
+      framing: { type: 'idle', gapMs: RESPONSE_IDLE_GAP_MS },
+      timeoutMs: HELP_TIMEOUT_MS,
+    },
+  };
+
+/**
+ * Look up the descriptor for a command.
+ * Commands without a descriptor are treated as single-line.
+ * @param command - Command text, e.g. 'L128'
+ * @param table - Descriptor table (default: COMMAND_DESCRIPTORS)
+ * @returns Descriptor for the command's first character
+ */
+export function getCommandDescriptor(
+  command: string,
+  table: Readonly<Record<string, CommandDescriptor>> = COMMAND_DESCRIPTORS
+): CommandDescriptor {
+  return table[command.charAt(0)] ?? singleLine('Unknown command');
+}
+
+/**
+ * Apply a framing rule to the text received so far.
+ * Idle-framed responses are never complete by content; the reader ends them
+ * after the quiet period.
+ * @param buffer - Raw received text
+ * @param framing - Framing rule
+ * @returns Completion flag and normalized text
+ */
+export function frameResponse(
+  buffer: string,
+  framing: ResponseFraming
+): FramedResponse {
+  switch (framing.type) {
+    case 'line':
+      return { complete: /[\r\n]/.test(buffer), text: buffer.trim() };
+    case 'lines': {
+      const segments = buffer.split(/\r\n|\r|\n/);
+      const terminated = segments
+        .slice(0, -1)
+        .filter((line) => line.trim() !== '');
+      return {
+        complete: terminated.length >= framing.count,
+        text: joinLines(segments),
+      };
+    }
+    case 'prompt': {
+      const trimmed = buffer.trimEnd();
+      const complete = trimmed.endsWith(framing.prompt);
+      const body = complete
+        ? trimmed.slice(0, trimmed.length - framing.prompt.length)
+        : buffer;
+      return { complete, text: joinLines(body.split(/\r\n|\r|\n/)) };
+    }
+    case 'idle':
+      return { complete: false, text: joinLines(buffer.split(/\r\n|\r|\n/)) };
+  }
+}
+
+/**
+ * Join the non-empty lines of a response.
+ * @param lines - Raw lines
+ */
+function joinLines(lines: ReadonlyArray<string>): string {
+  return lines
+    .map((line) => line.trim())
+    .filter((line) => line !== '')
+    .join('\n');
+}
+
+export default {
+  COMMAND_DESCRIPTORS,
+  getCommandDescriptor,
+  frameResponse,
+};
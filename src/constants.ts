@@ -39,6 +39,12 @@ export const DEFAULT_RETRY_DELAY_MS = 100;
 /** Web Locks API lock name for CD48 serial communication */
 export const WEB_LOCK_NAME = 'cd48-serial-lock';
 
+/** Timeout for the multi-line help text (milliseconds) */
+export const HELP_TIMEOUT_MS = 3000;
+
+/** Quiet period that ends a response of unknown length (milliseconds) */
+export const RESPONSE_IDLE_GAP_MS = 250;
+
 // ============================================================================
 // Firmware Version Constants
 // ============================================================================
@@ -68,6 +74,12 @@ export const EXPECTED_CHANNEL_COUNT = 8;
 /** Expected number of values in count response (channels + overflow flag) */
 export const EXPECTED_COUNT_RESPONSE_LENGTH = 9;
 
+/**
+ * Expected number of values in machine-readable settings response
+ * (8 input masks + trigger, DAC, impedance, repeat enabled, repeat interval)
+ */
+export const EXPECTED_SETTINGS_RESPONSE_LENGTH = 13;
+
 /** Coincidence window width in seconds (25 nanoseconds) */
 export const COINCIDENCE_WINDOW_SECONDS = 25e-9;
 
@@ -93,6 +105,9 @@ export const DEFAULT_MEASUREMENT_DURATION = 1.0;
 /** Default background measurement duration in seconds */
 export const DEFAULT_BACKGROUND_DURATION = 10.0;
 
+/** Age in seconds after which a stored background rate is reported stale */
+export const DEFAULT_BACKGROUND_MAX_AGE = 86400;
+
 /** Default calibration measurement duration in seconds */
 export const DEFAULT_CALIBRATION_DURATION = 5.0;
 
@@ -102,6 +117,45 @@ export const MILLISECONDS_PER_SECOND = 1000;
 /** Percentage conversion factor (multiply by 100 to convert to percent) */
 export const PERCENT_CONVERSION = 100;
 
+// ============================================================================
+// Simulator Configuration
+// ============================================================================
+
+/** Firmware version string reported by the simulator */
+export const SIMULATOR_FIRMWARE_VERSION = 'CD48 Simulator v1.0.0';
+
+/** Default simulated counter register width in bits */
+export const SIMULATOR_COUNTER_BITS = 32;
+
+/** Longest stretch of simulated time generated in one pass (seconds) */
+export const SIMULATOR_SLICE_SECONDS = 1;
+
+/** Power-on trigger level byte (about 2.04V) */
+export const DEFAULT_TRIGGER_LEVEL_BYTE = 128;
+
+/** Power-on repeat interval (milliseconds) */
+export const DEFAULT_REPEAT_INTERVAL_MS = 1000;
+
+// ============================================================================
+// Streaming and Acquisition Configuration
+// ============================================================================
+
+/** Samples a count stream buffers for a slow consumer before dropping */
+export const STREAM_BUFFER_SIZE = 1024;
+
+/** Default polling interval for continuous acquisition (milliseconds) */
+export const DEFAULT_ACQUISITION_INTERVAL_MS = 1000;
+
+// ============================================================================
+// Session Storage Configuration
+// ============================================================================
+
+/** Default IndexedDB database name for measurement sessions */
+export const SESSION_DB_NAME = 'cd48_sessions';
+
+/** IndexedDB schema version for measurement sessions */
+export const SESSION_DB_VERSION = 1;
+
 // ============================================================================
 // Statistical Analysis Constants
 // ============================================================================
@@ -124,6 +178,64 @@ export const QUARTILE_Q3 = 0.75;
 /** Freedman-Diaconis rule divisor for bin width calculation */
 export const FREEDMAN_DIACONIS_DIVISOR = 1 / 3;
 
+/** Relative tolerance for the paralyzable dead-time solver */
+export const DEAD_TIME_SOLVER_TOLERANCE = 1e-12;
+
+/** Iteration limit for the paralyzable dead-time solver */
+export const DEAD_TIME_SOLVER_MAX_ITERATIONS = 100;
+
+/** Largest CHSH |S| allowed by local hidden-variable theories */
+export const CHSH_CLASSICAL_BOUND = 2;
+
+/** Tolerance in degrees when matching polarizer angles */
+export const POLARIZER_ANGLE_TOLERANCE = 1e-6;
+
+/** Confidence level of a one-sigma Gaussian interval */
+export const ONE_SIGMA_CONFIDENCE = 0.6826894921370859;
+
+/** Relative convergence tolerance for series and continued fractions */
+export const SPECIAL_FUNCTION_TOLERANCE = 1e-14;
+
+/** Iteration limit for series, continued fractions and root finding */
+export const SPECIAL_FUNCTION_MAX_ITERATIONS = 500;
+
+/** Smallest expected count per bin in a chi-square test */
+export const CHI_SQUARE_MIN_EXPECTED = 5;
+
+/** Relative precision of Feldman-Cousins interval endpoints */
+export const FELDMAN_COUSINS_PRECISION = 1e-6;
+
+/** False-alarm probability per change point for Bayesian blocks */
+export const DEFAULT_CHANGE_POINT_FALSE_ALARM = 0.05;
+
+/** Per-interval significance in sigma that starts a burst */
+export const DEFAULT_BURST_THRESHOLD_SIGMA = 3;
+
+// ============================================================================
+// Curve Fitting Constants
+// ============================================================================
+
+/** Iteration limit for Levenberg-Marquardt fits */
+export const FIT_MAX_ITERATIONS = 200;
+
+/** Chi-square decrease below which a fit has converged */
+export const FIT_TOLERANCE = 1e-9;
+
+/** Relative step for numerical derivatives of a model */
+export const FIT_DERIVATIVE_STEP = 1e-6;
+
+/** Starting Levenberg-Marquardt damping factor */
+export const FIT_INITIAL_DAMPING = 1e-3;
+
+/** Damping beyond which no downhill step is left */
+export const FIT_MAX_DAMPING = 1e10;
+
+/** Relative slope change at which York regression has converged */
+export const YORK_REGRESSION_TOLERANCE = 1e-12;
+
+/** Decay constants tried per component when estimating starting values */
+export const DECAY_GRID_SIZE = 40;
+
 // ============================================================================
 // Calibration Constants
 // ============================================================================
@@ -0,0 +1,287 @@
+/**
+ * @fileoverview Declarative device configuration with diffing and JSON support
+ * @module device-config
+ *
+ * A DeviceConfig describes the desired state of a CD48. Settings that are
+ * omitted are left untouched when the config is applied.
+ *
+ * @example
+ * const config: DeviceConfig = {
+ *   name: 'Muon telescope',
+ *   channels: { 4: { A: 1, B: 1 } },
+ *   triggerLevel: 0.5,
+ *   impedance: '50ohm',
+ * };
+ * const result = await cd48.applyConfig(config);
+ * console.log(result.changes);
+ * localStorage.setItem('setup', stringifyDeviceConfig(config));
+ */
+
+import type { ChannelInputs, DeviceSettings } from './cd48.js';
+import { JSON_INDENT_SPACES } from './constants.js';
+import { ValidationError } from './errors.js';
+import {
+  CHANNEL_MAX,
+  CHANNEL_MIN,
+  type ImpedanceMode,
+  validateBoolean,
+  validateChannel,
+  validateImpedanceMode,
+  validateRepeatInterval,
+  validateVoltage,
+  voltageToByte,
+} from './validation.js';
+
+/** Current device config schema version */
+export const DEVICE_CONFIG_VERSION = 1;
+
+/**
+ * Desired device state. Every field is optional; omitted settings are
+ * neither changed nor verified.
+ */
+export interface DeviceConfig {
+  /** Schema version for migration support */
+  version?: number;
+  name?: string;
+  description?: string;
+  /** Input selection by channel index; unspecified inputs are off */
+  channels?: Record<number, ChannelInputs>;
+  /** Trigger threshold voltage (0-4.08V) */
+  triggerLevel?: number;
+  /** DAC output voltage (0-4.08V) */
+  dacVoltage?: number;
+  impedance?: ImpedanceMode;
+  repeatEnabled?: boolean;
+  /** Automatic repeat interval (100-65535 ms) */
+  repeatInterval?: number;
+}
+
+/**
+ * Value of a single configurable setting
+ */
+export type DeviceConfigValue =
+  | number
+  | boolean
+  | ImpedanceMode
+  | Readonly<Required<ChannelInputs>>;
+
+/**
+ * A setting whose device value differs from the config
+ */
+export interface DeviceConfigDifference {
+  /** Setting name, e.g. `triggerLevel` or `channels[4]` */
+  readonly setting: string;
+  /** Value requested by the config */
+  readonly expected: DeviceConfigValue;
+  /** Value reported by the device */
+  readonly actual: DeviceConfigValue;
+}
+
+/**
+ * Outcome of applying a config to a device
+ */
+export interface ApplyConfigResult {
+  /** Settings read before any command was sent */
+  readonly before: DeviceSettings;
+  /** Settings read back after applying */
+  readonly after: DeviceSettings;
+  /** Settings that were changed (empty if the device already matched) */
+  readonly changes: ReadonlyArray<DeviceConfigDifference>;
+}
+
+/**
+ * Fill in unspecified inputs with 0.
+ * @param inputs - Partial input selection
+ * @returns Complete input selection
+ */
+function completeInputs(inputs: ChannelInputs): Required<ChannelInputs> {
+  const { A = 0, B = 0, C = 0, D = 0 } = inputs;
+  return { A, B, C, D };
+}
+
+/**
+ * Check that a value is a ChannelInputs object with 0/1 entries.
+ */
+function isChannelInputs(value: unknown): value is ChannelInputs {
+  if (typeof value !== 'object' || value === null) return false;
+  return Object.entries(value).every(
+    ([key, bit]) =>
+      ['A', 'B', 'C', 'D'].includes(key) && (bit === 0 || bit === 1)
+  );
+}
+
+/**
+ * Validate a device config.
+ * @param config - Config to validate
+ * @throws ValidationError if any setting is malformed or out of range
+ */
+export function validateDeviceConfig(config: DeviceConfig): void {
+  if (config.channels !== undefined) {
+    for (const [key, inputs] of Object.entries(config.channels)) {
+      validateChannel(Number(key));
+      if (!isChannelInputs(inputs)) {
+        throw new ValidationError(
+          `channels[${key}]`,
+          JSON.stringify(inputs),
+          'must map inputs A-D to 0 or 1'
+        );
+      }
+    }
+  }
+  if (config.triggerLevel !== undefined) validateVoltage(config.triggerLevel);
+  if (config.dacVoltage !== undefined) validateVoltage(config.dacVoltage);
+  if (config.impedance !== undefined) validateImpedanceMode(config.impedance);
+  if (config.repeatEnabled !== undefined) {
+    validateBoolean('repeatEnabled', config.repeatEnabled);
+  }
+  if (config.repeatInterval !== undefined) {
+    validateRepeatInterval(config.repeatInterval);
+  }
+}
+
+/**
+ * Compare a config with the device settings.
+ * Voltages are compared at the device's 8-bit DAC resolution.
+ * @param config - Desired state
+ * @param settings - Current device settings
+ * @returns Settings that differ, in the order they would be applied
+ */
+export function diffDeviceConfig(
+  config: DeviceConfig,
+  settings: DeviceSettings
+): DeviceConfigDifference[] {
+  const differences: DeviceConfigDifference[] = [];
+
+  for (let channel = CHANNEL_MIN; channel <= CHANNEL_MAX; channel++) {
+    const inputs = config.channels?.[channel];
+    const actual = settings.channels[channel];
+    if (inputs === undefined || actual === undefined) continue;
+    const expected = completeInputs(inputs);
+    if (
+      expected.A !== actual.A ||
+      expected.B !== actual.B ||
+      expected.C !== actual.C ||
+      expected.D !== actual.D
+    ) {
+      differences.push({ setting: `channels[${channel}]`, expected, actual });
+    }
+  }
+
+  const voltages = [
+    ['triggerLevel', config.triggerLevel, settings.triggerLevel],
+    ['dacVoltage', config.dacVoltage, settings.dacVoltage],
+  ] as const;
+  for (const [setting, expected, actual] of voltages) {
+    if (
+      expected !== undefined &&
+      voltageToByte(expected) !== voltageToByte(actual)
+    ) {
+      differences.push({ setting, expected, actual });
+    }
+  }
+
+  if (
+    config.impedance !== undefined &&
+    config.impedance !== settings.impedance
+  ) {
+    differences.push({
+      setting: 'impedance',
+      expected: config.impedance,
+      actual: settings.impedance,
+    });
+  }
+  if (
+    config.repeatInterval !== undefined &&
+    config.repeatInterval !== settings.repeatInterval
+  ) {
+    differences.push({
+      setting: 'repeatInterval',
+      expected: config.repeatInterval,
+      actual: settings.repeatInterval,
+    });
+  }
+  // Repeat mode last: once enabled the device streams counts unprompted
+  if (
+    config.repeatEnabled !== undefined &&
+    config.repeatEnabled !== settings.repeatEnabled
+  ) {
+    differences.push({
+      setting: 'repeatEnabled',
+      expected: config.repeatEnabled,
+      actual: settings.repeatEnabled,
+    });
+  }
+
+  return differences;
+}
+
+/**
+ * Capture device settings as a complete config.
+ * @param settings - Device settings
+ * @param options - Optional name and description
+ * @returns Config that reproduces the settings
+ */
+export function deviceConfigFromSettings(
+  settings: DeviceSettings,
+  options: { name?: string; description?: string } = {}
+): DeviceConfig {
+  const channels: Record<number, ChannelInputs> = {};
+  settings.channels.forEach((inputs, channel) => {
+    channels[channel] = { ...inputs };
+  });
+  return {
+    version: DEVICE_CONFIG_VERSION,
+    ...options,
+    channels,
+    triggerLevel: settings.triggerLevel,
+    dacVoltage: settings.dacVoltage,
+    impedance: settings.impedance,
+    repeatEnabled: settings.repeatEnabled,
+    repeatInterval: settings.repeatInterval,
+  };
+}
+
+/**
+ * Serialize a config to JSON.
+ * @param config - Config to serialize
+ * @returns Pretty-printed JSON including the schema version
+ */
+export function stringifyDeviceConfig(config: DeviceConfig): string {
+  return JSON.stringify(
+    { ...config, version: DEVICE_CONFIG_VERSION },
+    null,
+    JSON_INDENT_SPACES
+  );
+}
+
+/**
+ * Parse and validate a config from JSON.
+ * @param json - JSON text
+ * @returns Validated config
+ * @throws ValidationError if the JSON is not a valid config
+ */
+export function parseDeviceConfig(json: string): DeviceConfig {
+  const parsed: unknown = JSON.parse(json);
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new ValidationError('config', json, 'must be a JSON object');
+  }
+  const config = parsed as DeviceConfig;
+  if (config.version !== undefined && config.version > DEVICE_CONFIG_VERSION) {
+    throw new ValidationError(
+      'version',
+      config.version,
+      `must be at most ${DEVICE_CONFIG_VERSION}`
+    );
+  }
+  validateDeviceConfig(config);
+  return { ...config, version: DEVICE_CONFIG_VERSION };
+}
+
+export default {
+  DEVICE_CONFIG_VERSION,
+  validateDeviceConfig,
+  diffDeviceConfig,
+  deviceConfigFromSettings,
+  stringifyDeviceConfig,
+  parseDeviceConfig,
+};
@@ -2,6 +2,8 @@
  * Custom error classes for CD48 operations
  */
 
+import type { DeviceConfigDifference } from './device-config.js';
+
 /**
  * Base error class for CD48-related errors
  */
@@ -179,3 +181,35 @@ export class FirmwareIncompatibleError extends CD48Error {
     this.minimumVersion = minimumVersion;
   }
 }
+
+/**
+ * Error thrown when the device does not report the configured settings
+ */
+export class ConfigVerificationError extends CD48Error {
+  public override readonly name: string = 'ConfigVerificationError';
+  public readonly differences: ReadonlyArray<DeviceConfigDifference>;
+
+  constructor(differences: ReadonlyArray<DeviceConfigDifference>) {
+    super(
+      `Device did not accept configuration: ${differences.map((d) => d.setting).join(', ')}`
+    );
+    this.differences = differences;
+  }
+}
+
+/**
+ * Error thrown when a replayed session writes something the trace did not
+ */
+export class ReplayMismatchError extends CD48Error {
+  public override readonly name: string = 'ReplayMismatchError';
+  public readonly expected: string | null;
+  public readonly actual: string;
+
+  constructor(expected: string | null, actual: string) {
+    super(
+      `Replay diverged from trace. Wrote: ${JSON.stringify(actual)}, expected: ${expected === null ? 'end of trace' : JSON.stringify(expected)}`
+    );
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * @fileoverview Minimal typed event emitter
+ * @module events
+ */
+
+/**
+ * Listener for an event whose payload type is `T`
+ */
+export type EventListener<T> = (payload: T) => void;
+
+/**
+ * Options for registering a listener
+ */
+export interface ListenerOptions {
+  /** Remove the listener when this signal aborts */
+  signal?: AbortSignal;
+}
+
+/**
+ * Event emitter keyed by an event map such as
+ * `{ sample: AcquisitionSample; error: Error }`.
+ *
+ * A listener that throws does not stop the remaining listeners; its error
+ * is rethrown asynchronously so it still reaches the global error handler.
+ */
+export class TypedEventEmitter<Events extends object> {
+  private readonly listeners: Map<
+    keyof Events,
+    Set<EventListener<Events[keyof Events]>>
+  >;
+
+  constructor() {
+    this.listeners = new Map();
+  }
+
+  /**
+   * Register a listener.
+   * @param event - Event name
+   * @param listener - Listener
+   * @param options - Optional AbortSignal that removes the listener
+   * @returns Function that removes the listener
+   */
+  public on<K extends keyof Events>(
+    event: K,
+    listener: EventListener<Events[K]>,
+    options: ListenerOptions = {}
+  ): () => void {
+    const { signal } = options;
+    const off = (): void => this.off(event, listener);
+    if (signal?.aborted === true) {
+      return off;
+    }
+
+    let set = this.listeners.get(event);
+    if (set === undefined) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener as EventListener<Events[keyof Events]>);
+    signal?.addEventListener('abort', off, { once: true });
+    return off;
+  }
+
+  /**
+   * Register a listener that is removed after its first call.
+   * @param event - Event name
+   * @param listener - Listener
+   * @param options - Optional AbortSignal that removes the listener
+   * @returns Function that removes the listener
+   */
+  public once<K extends keyof Events>(
+    event: K,
+    listener: EventListener<Events[K]>,
+    options: ListenerOptions = {}
+  ): () => void {
+    const wrapper: EventListener<Events[K]> = (payload) => {
+      off();
+      listener(payload);
+    };
+    const off = this.on(event, wrapper, options);
+    return off;
+  }
+
+  /**
+   * Remove a listener.
+   * @param event - Event name
+   * @param listener - Listener passed to on()
+   */
+  public off<K extends keyof Events>(
+    event: K,
+    listener: EventListener<Events[K]>
+  ): void {
+    this.listeners
+      .get(event)
+      ?.delete(listener as EventListener<Events[keyof Events]>);
+  }
+
+  /**
+   * Number of listeners registered for an event.
+   * @param event - Event name
+   * @returns Listener count
+   */
+  public listenerCount(event: keyof Events): number {
+    return this.listeners.get(event)?.size ?? 0;
+  }
+
+  /**
+   * Remove all listeners, or all listeners of one event.
+   * @param event - Optional event name
+   */
+  public removeAllListeners(event?: keyof Events): void {
+    if (event === undefined) {
+      this.listeners.clear();
+    } else {
+      this.listeners.delete(event);
+    }
+  }
+
+  /**
+   * Call every listener of an event.
+   * @param event - Event name
+   * @param payload - Event payload
+   */
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const set = this.listeners.get(event);
+    if (set === undefined) return;
+    for (const listener of [...set]) {
+      try {
+        (listener as EventListener<Events[K]>)(payload);
+      } catch (error) {
+        queueMicrotask(() => {
+          throw error;
+        });
+      }
+    }
+  }
+}
+
+export default TypedEventEmitter;
@@ -32,6 +32,21 @@ export interface ExportableMeasurement {
   data: CountData | RateMeasurement | CoincidenceMeasurement;
 }
 
+/**
+ * Value of a table cell
+ */
+export type TableValue = number | string | boolean | null;
+
+/**
+ * Column-oriented table of results, e.g. a sweep result
+ */
+export interface DataTable {
+  /** Column names */
+  readonly columns: ReadonlyArray<string>;
+  /** Rows with one value per column */
+  readonly rows: ReadonlyArray<ReadonlyArray<TableValue>>;
+}
+
 /**
  * Export options
  */
@@ -142,6 +157,7 @@ export const DataExport = {
         'uncertainty_counts',
         'uncertainty_rate',
         'uncertainty_relative',
+        'overflowed',
       ];
       lines.push(headers.join(opts.separator));
     }
@@ -155,6 +171,7 @@ export const DataExport = {
         item.uncertainty.counts.toFixed(opts.precision),
         item.uncertainty.rate.toFixed(opts.precision),
         item.uncertainty.relative.toFixed(opts.precision),
+        String(item.overflowed),
       ];
       lines.push(values.join(opts.separator));
     }
@@ -261,7 +278,7 @@ export const DataExport = {
 
     lines.push(`% ${opts.matVariableName} - CD48 rate measurements`);
     lines.push(
-      '% Columns: channel counts duration rate unc_counts unc_rate unc_relative'
+      '% Columns: channel counts duration rate unc_counts unc_rate unc_relative overflowed'
     );
     lines.push(`% Generated: ${new Date().toISOString()}`);
     lines.push('');
@@ -275,6 +292,7 @@ export const DataExport = {
         item.uncertainty.counts,
         item.uncertainty.rate,
         item.uncertainty.relative,
+        item.overflowed ? 1 : 0,
       ];
       lines.push(values.join(' '));
     }
@@ -332,6 +350,74 @@ export const DataExport = {
     return lines.join('\n');
   },
 
+  /**
+   * Export a table to a JSON array of row objects
+   * @param table - Table to export
+   * @returns JSON string
+   */
+  tableToJSON(table: DataTable): string {
+    const records = table.rows.map((row) =>
+      Object.fromEntries(table.columns.map((col, i) => [col, row[i] ?? null]))
+    );
+    return JSON.stringify(records, null, JSON_INDENT_SPACES);
+  },
+
+  /**
+   * Export a table to CSV string
+   * @param table - Table to export
+   * @param options - Export options
+   * @returns CSV string
+   */
+  tableToCSV(table: DataTable, options: ExportOptions = {}): string {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    const lines: string[] = [];
+
+    if (opts.includeHeaders) {
+      lines.push(table.columns.join(opts.separator));
+    }
+
+    for (const row of table.rows) {
+      const values = row.map((value) => {
+        if (value === null) return '';
+        if (typeof value === 'number' && !Number.isInteger(value)) {
+          return value.toFixed(opts.precision);
+        }
+        return String(value);
+      });
+      lines.push(values.join(opts.separator));
+    }
+
+    return lines.join(opts.lineEnding);
+  },
+
+  /**
+   * Export a table to MATLAB-compatible ASCII format. Booleans become 1/0;
+   * strings and missing values become NaN.
+   * @param table - Table to export
+   * @param options - Export options
+   * @returns MAT-compatible string
+   */
+  tableToMAT(table: DataTable, options: ExportOptions = {}): string {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    const lines: string[] = [];
+
+    lines.push(`% ${opts.matVariableName} - CD48 data table`);
+    lines.push(`% Columns: ${table.columns.join(' ')}`);
+    lines.push(`% Generated: ${new Date().toISOString()}`);
+    lines.push('');
+
+    for (const row of table.rows) {
+      const values = row.map((value) => {
+        if (typeof value === 'number') return value;
+        if (typeof value === 'boolean') return value ? 1 : 0;
+        return Number.NaN;
+      });
+      lines.push(values.join(' '));
+    }
+
+    return lines.join('\n');
+  },
+
   /**
    * Export measurements to a Blob for download
    * @param content - String content to export
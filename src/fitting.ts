@@ -0,0 +1,1268 @@
+/**
+ * @fileoverview Decay-curve and general nonlinear fitting
+ * @module fitting
+ *
+ * `fitDecay` and `fitDoubleDecay` fit exponential decay plus a constant
+ * background to a rate series, for half-life measurements. The model is
+ * integrated over each counting interval, so intervals that are long
+ * compared with the half-life are handled exactly. Two methods are
+ * available:
+ * - least-squares: weighted least squares with sqrt(N) count errors
+ * - poisson: maximum likelihood on the raw counts, which stays unbiased
+ *   when intervals hold only a few counts
+ *
+ * `curveFit` fits any model y = f(x) with named parameters to data with
+ * per-point errors, with bounds and fixed parameters. `CurveModels` has
+ * ready-made models for common lab laws.
+ *
+ * All fits minimize with Levenberg-Marquardt and take the covariance
+ * matrix from the curvature at the minimum.
+ *
+ * @example
+ * const series = [];
+ * for (let i = 0; i < 30; i++) {
+ *   series.push({ timestamp: Date.now(), data: await cd48.measureRate(0, 10) });
+ * }
+ * const fit = Fitting.fitDecay(series, { method: 'poisson' });
+ * const { value, uncertainty } = fit.halfLife;
+ * console.log(`T1/2 = ${value.toFixed(1)} ± ${uncertainty.toFixed(1)} s`);
+ *
+ * const malus = Fitting.curveFit(CurveModels.malus, {
+ *   x: angles,
+ *   y: rates,
+ *   sigma: rateErrors,
+ * });
+ * console.log(malus.parameters.phase, malus.reducedChiSquare, malus.pValue);
+ */
+
+import {
+  type RatePoint,
+  type ValueWithUncertainty,
+  validateRatePoints,
+} from './analysis.js';
+import type { RateMeasurement } from './cd48.js';
+import {
+  DECAY_GRID_SIZE,
+  FIT_DERIVATIVE_STEP,
+  FIT_INITIAL_DAMPING,
+  FIT_MAX_DAMPING,
+  FIT_MAX_ITERATIONS,
+  FIT_TOLERANCE,
+  MILLISECONDS_PER_SECOND,
+} from './constants.js';
+import { ValidationError } from './errors.js';
+import { chiSquareSf } from './special-functions.js';
+
+/**
+ * Fit method
+ * - least-squares: minimize chi-square with sqrt(N) errors (at least 1)
+ * - poisson: maximize the Poisson likelihood of the counts
+ */
+export type FitMethod = 'least-squares' | 'poisson';
+
+/**
+ * Result of a fit
+ */
+export interface FitResult<P extends string = string> {
+  /** Best-fit parameter values */
+  readonly parameters: Readonly<Record<P, number>>;
+  /** One-sigma parameter uncertainties */
+  readonly uncertainties: Readonly<Record<P, number>>;
+  /** Parameter order of the covariance matrix */
+  readonly parameterNames: ReadonlyArray<P>;
+  /** Parameter covariance matrix */
+  readonly covariance: ReadonlyArray<ReadonlyArray<number>>;
+  /**
+   * Chi-square at the minimum; for Poisson fits, the likelihood-ratio
+   * (deviance) statistic, which follows the same distribution
+   */
+  readonly chiSquare: number;
+  /** Degrees of freedom: points minus free parameters */
+  readonly dof: number;
+  /** chiSquare / dof */
+  readonly reducedChiSquare: number;
+  /** Probability of a chi-square at least this large if the model is right */
+  readonly pValue: number;
+  /** Levenberg-Marquardt iterations taken */
+  readonly iterations: number;
+  /** False if the iteration limit was reached first */
+  readonly converged: boolean;
+}
+
+/**
+ * Parameters of single exponential decay plus background,
+ * rate(t) = amplitude * exp(-decayConstant * t) + background.
+ * `amplitude` and `background` are in counts/s, `decayConstant` in 1/s, and
+ * t = 0 is the start of the first counting interval.
+ */
+export type DecayParameter = 'amplitude' | 'decayConstant' | 'background';
+
+/**
+ * Parameters of double exponential decay plus background, with a second
+ * component amplitude2 * exp(-decayConstant2 * t). The first component is
+ * the shorter-lived one.
+ */
+export type DoubleDecayParameter =
+  | DecayParameter
+  | 'amplitude2'
+  | 'decayConstant2';
+
+/**
+ * Single exponential decay fit
+ */
+export interface DecayFitResult extends FitResult<DecayParameter> {
+  readonly method: FitMethod;
+  /** ln 2 / decayConstant in seconds */
+  readonly halfLife: ValueWithUncertainty;
+}
+
+/**
+ * Double exponential decay fit
+ */
+export interface DoubleDecayFitResult extends FitResult<DoubleDecayParameter> {
+  readonly method: FitMethod;
+  /** Half-lives in seconds, shorter-lived component first */
+  readonly halfLives: readonly [ValueWithUncertainty, ValueWithUncertainty];
+}
+
+/**
+ * Rate measurement with the time it ended. Session records of type
+ * 'rate' have this shape.
+ */
+export interface TimestampedRate {
+  /** End of the measurement: ms since epoch or an ISO 8601 string */
+  readonly timestamp: number | string;
+  readonly data: RateMeasurement;
+}
+
+/**
+ * Decay-curve data: a rate series or timestamped rate measurements
+ */
+export type DecayData =
+  | ReadonlyArray<RatePoint>
+  | ReadonlyArray<TimestampedRate>;
+
+/**
+ * Decay fit options
+ */
+export interface DecayFitOptions<P extends string> {
+  /** Fit method (default: 'poisson') */
+  method?: FitMethod;
+  /** Starting values; the rest are estimated from the data */
+  initial?: Partial<Record<P, number>>;
+  /** Iteration limit (default: FIT_MAX_ITERATIONS) */
+  maxIterations?: number;
+}
+
+/**
+ * Lower and upper bound of a parameter; either may be infinite
+ */
+export type ParameterBounds = readonly [number, number];
+
+/**
+ * Model for `Fitting.curveFit`: a function of x with named parameters
+ *
+ * @example
+ * const line: CurveModel<'slope' | 'intercept'> = {
+ *   parameters: ['slope', 'intercept'],
+ *   evaluate: (x, p) => p.slope * x + p.intercept,
+ * };
+ */
+export interface CurveModel<P extends string> {
+  /** Parameter names */
+  readonly parameters: ReadonlyArray<P>;
+  /** Model value at x */
+  evaluate(x: number, parameters: Readonly<Record<P, number>>): number;
+  /** Starting values estimated from the data */
+  estimate?(
+    x: ReadonlyArray<number>,
+    y: ReadonlyArray<number>
+  ): Record<P, number>;
+  /** Default parameter bounds */
+  readonly bounds?: Partial<Record<P, ParameterBounds>>;
+}
+
+/**
+ * Data for a curve fit
+ */
+export interface CurveFitData {
+  readonly x: ReadonlyArray<number>;
+  readonly y: ReadonlyArray<number>;
+  /** One-sigma error of each y, e.g. sqrt(N) for counts */
+  readonly sigma: ReadonlyArray<number>;
+}
+
+/**
+ * Curve fit options
+ */
+export interface CurveFitOptions<P extends string> {
+  /** Starting values; required for any the model cannot estimate */
+  initial?: Partial<Record<P, number>>;
+  /** Bounds, replacing the model's defaults */
+  bounds?: Partial<Record<P, ParameterBounds>>;
+  /** Parameters held at their starting values */
+  fixed?: ReadonlyArray<P>;
+  /** Iteration limit (default: FIT_MAX_ITERATIONS) */
+  maxIterations?: number;
+}
+
+/**
+ * Quantity minimized by a fit
+ */
+interface Objective {
+  /** Observed values */
+  readonly observed: ReadonlyArray<number>;
+  /** Chi-square of the model's expected values */
+  chiSquare(expected: ReadonlyArray<number>): number;
+  /** Inverse variances at the expected values */
+  weights(expected: ReadonlyArray<number>): number[];
+}
+
+/**
+ * Model and objective of a fit
+ */
+interface FitProblem {
+  /** Expected value of each observation for a parameter vector */
+  model(parameters: ReadonlyArray<number>): number[];
+  readonly objective: Objective;
+  /** Lower bound of each parameter */
+  readonly lower: ReadonlyArray<number>;
+  /** Upper bound of each parameter */
+  readonly upper: ReadonlyArray<number>;
+}
+
+/**
+ * Minimum found by Levenberg-Marquardt
+ */
+interface Minimum {
+  readonly parameters: number[];
+  readonly chiSquare: number;
+  readonly iterations: number;
+  readonly converged: boolean;
+}
+
+/**
+ * Counting intervals of a decay curve, in seconds from the first start
+ */
+interface DecayIntervals {
+  readonly start: number[];
+  readonly duration: number[];
+  readonly counts: number[];
+}
+
+const DECAY_PARAMETERS: ReadonlyArray<DecayParameter> = [
+  'amplitude',
+  'decayConstant',
+  'background',
+];
+
+const DOUBLE_DECAY_PARAMETERS: ReadonlyArray<DoubleDecayParameter> = [
+  'amplitude',
+  'decayConstant',
+  'amplitude2',
+  'decayConstant2',
+  'background',
+];
+
+/**
+ * Decay-curve fitting
+ */
+export const Fitting = {
+  /**
+   * Build a rate series from timestamped rate measurements.
+   * @param series - Measurements with the time each one ended
+   * @returns Rate series
+   * @throws ValidationError for an unreadable timestamp or an overflowed
+   *   measurement
+   */
+  fromMeasurements(series: ReadonlyArray<TimestampedRate>): RatePoint[] {
+    return series.map(({ timestamp, data }, index) => {
+      const time =
+        typeof timestamp === 'string' ? Date.parse(timestamp) : timestamp;
+      if (!Number.isFinite(time)) {
+        throw new ValidationError(
+          `series[${index}].timestamp`,
+          timestamp,
+          'must be ms since epoch or an ISO 8601 string'
+        );
+      }
+      if (data.overflowed) {
+        throw new ValidationError(
+          `series[${index}].data.overflowed`,
+          data.overflowed,
+          'must be false; the counts are unreliable'
+        );
+      }
+      return { time, duration: data.duration, counts: data.counts };
+    });
+  },
+
+  /**
+   * Fit single exponential decay plus a constant background.
+   * @param data - Rate series or timestamped rate measurements
+   * @param options - Method, starting values and iteration limit
+   * @returns Fitted parameters with covariance and half-life
+   * @throws ValidationError for invalid data or options, or if the data
+   *   do not constrain every parameter
+   */
+  fitDecay(
+    data: DecayData,
+    options: DecayFitOptions<DecayParameter> = {}
+  ): DecayFitResult {
+    const { method = 'poisson' } = options;
+    const intervals = decayIntervals(data, DECAY_PARAMETERS.length);
+    const initial = {
+      ...estimateSingleDecay(intervals),
+      ...validateInitial(options.initial),
+    };
+    const problem = decayProblem(intervals, method, 1);
+    const minimum = minimize(
+      problem,
+      DECAY_PARAMETERS.map((name) => initial[name]),
+      validateMaxIterations(options.maxIterations)
+    );
+    const fit = fitResult(DECAY_PARAMETERS, problem, minimum);
+    return {
+      ...fit,
+      method,
+      halfLife: halfLife(
+        fit.parameters.decayConstant,
+        fit.uncertainties.decayConstant
+      ),
+    };
+  },
+
+  /**
+   * Fit the sum of two exponential decays plus a constant background,
+   * e.g. a mixture of two isotopes or a parent-daughter chain.
+   * @param data - Rate series or timestamped rate measurements
+   * @param options - Method, starting values and iteration limit
+   * @returns Fitted parameters with covariance and both half-lives
+   * @throws ValidationError for invalid data or options, or if the data
+   *   do not constrain every parameter
+   */
+  fitDoubleDecay(
+    data: DecayData,
+    options: DecayFitOptions<DoubleDecayParameter> = {}
+  ): DoubleDecayFitResult {
+    const { method = 'poisson' } = options;
+    const intervals = decayIntervals(data, DOUBLE_DECAY_PARAMETERS.length);
+    const initial = {
+      ...estimateDoubleDecay(intervals),
+      ...validateInitial(options.initial),
+    };
+    const problem = decayProblem(intervals, method, 2);
+    const minimum = minimize(
+      problem,
+      DOUBLE_DECAY_PARAMETERS.map((name) => initial[name]),
+      validateMaxIterations(options.maxIterations)
+    );
+
+    // Put the shorter-lived component first
+    const [a1 = 0, k1 = 0, a2 = 0, k2 = 0, background = 0] = minimum.parameters;
+    const ordered =
+      k1 >= k2
+        ? minimum
+        : { ...minimum, parameters: [a2, k2, a1, k1, background] };
+    const fit = fitResult(DOUBLE_DECAY_PARAMETERS, problem, ordered);
+    return {
+      ...fit,
+      method,
+      halfLives: [
+        halfLife(fit.parameters.decayConstant, fit.uncertainties.decayConstant),
+        halfLife(
+          fit.parameters.decayConstant2,
+          fit.uncertainties.decayConstant2
+        ),
+      ],
+    };
+  },
+
+  /**
+   * Fit a model to data with per-point errors by minimizing chi-square.
+   * Parameters listed in `fixed` keep their starting values and do not
+   * count against the degrees of freedom.
+   * @param model - Model with named parameters, e.g. from CurveModels
+   * @param data - x, y and the error of each y
+   * @param options - Starting values, bounds, fixed parameters and
+   *   iteration limit
+   * @returns Best-fit values with covariance, chi-square and p-value
+   * @throws ValidationError for invalid data or options, a missing
+   *   starting value, or if the data do not constrain every free parameter
+   */
+  curveFit<P extends string>(
+    model: CurveModel<P>,
+    data: CurveFitData,
+    options: CurveFitOptions<P> = {}
+  ): FitResult<P> {
+    const { x, y, sigma } = data;
+    validateCurveData(data);
+    const names = model.parameters;
+    const fixedNames = options.fixed ?? [];
+    const bounds = validateBounds(names, {
+      ...model.bounds,
+      ...options.bounds,
+    });
+    for (const name of [...Object.keys(options.initial ?? {}), ...fixedNames]) {
+      if (!names.some((n) => n === name)) {
+        throw new ValidationError(
+          'options',
+          name,
+          `must name a parameter of ${names.join(', ')}`
+        );
+      }
+    }
+
+    const start: Partial<Record<P, number>> = {
+      ...model.estimate?.(x, y),
+      ...validateInitial(options.initial),
+    };
+    const initial = names.map((name) => {
+      const value = start[name];
+      if (value === undefined) {
+        throw new ValidationError(
+          `initial.${name}`,
+          value,
+          'is required; the model cannot estimate it'
+        );
+      }
+      return value;
+    });
+    const fixed = names.map((name, j) =>
+      fixedNames.includes(name) ? initial[j] : undefined
+    );
+    const free = names.flatMap((_, j) => (fixed[j] === undefined ? [j] : []));
+    if (x.length <= free.length) {
+      throw new ValidationError(
+        'data',
+        x.length,
+        `must hold more than ${free.length} points`
+      );
+    }
+
+    const expand = (vector: ReadonlyArray<number>): Record<P, number> => {
+      const values = {} as Record<P, number>;
+      let k = 0;
+      names.forEach((name, j) => {
+        values[name] = fixed[j] ?? vector[k++] ?? 0;
+      });
+      return values;
+    };
+    const problem: FitProblem = {
+      model: (vector) => {
+        const values = expand(vector);
+        return x.map((xi) => model.evaluate(xi, values));
+      },
+      objective: leastSquaresObjective(y, sigma),
+      lower: free.map((j) => bounds[j]?.[0] ?? Number.NEGATIVE_INFINITY),
+      upper: free.map((j) => bounds[j]?.[1] ?? Number.POSITIVE_INFINITY),
+    };
+    const minimum = minimize(
+      problem,
+      free.map((j) => initial[j] ?? 0),
+      validateMaxIterations(options.maxIterations)
+    );
+    return fitResult(names, problem, minimum, fixed);
+  },
+};
+
+/**
+ * Built-in models for common lab laws, for `Fitting.curveFit`. Angles are
+ * in degrees. Each model estimates its starting values from the data.
+ */
+export const CurveModels = {
+  /**
+   * Rate against source distance:
+   * amplitude / (x + offset)^2 + background. `offset` is the distance from
+   * the point where x is measured to the effective source position.
+   */
+  inverseSquare: {
+    parameters: ['amplitude', 'offset', 'background'],
+    evaluate: (x, p) => p.amplitude / (x + p.offset) ** 2 + p.background,
+    estimate: (x, y) => ({
+      amplitude: mean(y.map((yi, i) => yi * (x[i] ?? 0) ** 2)),
+      offset: 0,
+      background: 0,
+    }),
+  } satisfies CurveModel<'amplitude' | 'offset' | 'background'>,
+
+  /**
+   * Cosmic-ray rate against zenith angle:
+   * amplitude * |cos x|^exponent + background. Fix `exponent` at its
+   * starting value 2 for a strict cos^2 law.
+   */
+  cosineSquared: {
+    parameters: ['amplitude', 'exponent', 'background'],
+    evaluate: (x, p) =>
+      p.amplitude * Math.abs(Math.cos(toRadians(x))) ** p.exponent +
+      p.background,
+    estimate: (_, y) => ({
+      amplitude: maxOf(y) - minOf(y),
+      exponent: 2,
+      background: minOf(y),
+    }),
+    bounds: { exponent: [0, Number.POSITIVE_INFINITY] },
+  } satisfies CurveModel<'amplitude' | 'exponent' | 'background'>,
+
+  /**
+   * Malus's law, intensity against polarizer angle:
+   * amplitude * cos^2(x - phase) + background
+   */
+  malus: {
+    parameters: ['amplitude', 'phase', 'background'],
+    evaluate: (x, p) =>
+      p.amplitude * Math.cos(toRadians(x - p.phase)) ** 2 + p.background,
+    estimate: (x, y) => ({
+      amplitude: maxOf(y) - minOf(y),
+      phase: x[argMax(y)] ?? 0,
+      background: minOf(y),
+    }),
+  } satisfies CurveModel<'amplitude' | 'phase' | 'background'>,
+
+  /**
+   * Plateau curve, rate against trigger threshold or detector voltage:
+   * plateau * (1 + slope * (x - edge)) / (1 + exp((x - edge) / width)).
+   * A positive width gives a rate that falls off above the edge (a
+   * threshold scan), a negative width one that rises (a voltage scan).
+   * `slope` is the relative change per unit x on the plateau.
+   */
+  thresholdPlateau: {
+    parameters: ['plateau', 'edge', 'width', 'slope'],
+    evaluate: (x, p) =>
+      (p.plateau * (1 + p.slope * (x - p.edge))) /
+      (1 + Math.exp((x - p.edge) / p.width)),
+    estimate: (x, y) => {
+      const plateau = maxOf(y);
+      const half = y.reduce(
+        (best, yi, i) =>
+          Math.abs(yi - plateau / 2) < Math.abs((y[best] ?? 0) - plateau / 2)
+            ? i
+            : best,
+        0
+      );
+      const edge = x[half] ?? 0;
+      // Falling if the points beyond the edge are lower on average
+      const above = y.filter((_, i) => (x[i] ?? 0) > edge);
+      const below = y.filter((_, i) => (x[i] ?? 0) < edge);
+      const falling = mean(above) < mean(below);
+      const range = maxOf(x) - minOf(x);
+      return {
+        plateau,
+        edge,
+        width: ((falling ? 1 : -1) * range) / 20,
+        slope: 0,
+      };
+    },
+  } satisfies CurveModel<'plateau' | 'edge' | 'width' | 'slope'>,
+};
+
+/**
+ * Convert decay data to counting intervals.
+ * @param data - Rate series or timestamped rate measurements
+ * @param parameterCount - Number of fit parameters
+ * @throws ValidationError for invalid points or too few of them
+ */
+function decayIntervals(
+  data: DecayData,
+  parameterCount: number
+): DecayIntervals {
+  const points = isTimestampedSeries(data)
+    ? Fitting.fromMeasurements(data)
+    : data;
+  validateRatePoints(points);
+  if (points.length <= parameterCount) {
+    throw new ValidationError(
+      'data',
+      points.length,
+      `must hold more than ${parameterCount} points`
+    );
+  }
+  const first = points[0];
+  const origin =
+    first === undefined
+      ? 0
+      : first.time - first.duration * MILLISECONDS_PER_SECOND;
+  return {
+    start: points.map(
+      (p) => (p.time - origin) / MILLISECONDS_PER_SECOND - p.duration
+    ),
+    duration: points.map((p) => p.duration),
+    counts: points.map((p) => p.counts),
+  };
+}
+
+/**
+ * Whether decay data are timestamped measurements.
+ * @param data - Rate series or timestamped rate measurements
+ */
+function isTimestampedSeries(
+  data: DecayData
+): data is ReadonlyArray<TimestampedRate> {
+  const first = data[0];
+  return first !== undefined && 'data' in first;
+}
+
+/**
+ * Check user-supplied starting values.
+ * @param initial - Starting values by parameter name
+ * @throws ValidationError for a value that is not finite
+ */
+function validateInitial<P extends string>(
+  initial: Partial<Record<P, number>> = {}
+): Partial<Record<P, number>> {
+  for (const [name, value] of Object.entries(initial)) {
+    if (!Number.isFinite(value)) {
+      throw new ValidationError(`initial.${name}`, value, 'must be finite');
+    }
+  }
+  return initial;
+}
+
+/**
+ * Check curve-fit data.
+ * @param data - x, y and errors
+ * @throws ValidationError unless the arrays have equal lengths, every
+ *   value is finite and every error is positive
+ */
+function validateCurveData(data: CurveFitData): void {
+  const { x, y, sigma } = data;
+  if (y.length !== x.length || sigma.length !== x.length) {
+    throw new ValidationError(
+      'data',
+      [x.length, y.length, sigma.length],
+      'x, y and sigma must have equal lengths'
+    );
+  }
+  x.forEach((xi, i) => {
+    if (!(Number.isFinite(xi) && Number.isFinite(y[i]))) {
+      throw new ValidationError(`data[${i}]`, [xi, y[i]], 'must be finite');
+    }
+    const s = sigma[i] ?? 0;
+    if (!(s > 0 && Number.isFinite(s))) {
+      throw new ValidationError(`data.sigma[${i}]`, s, 'must be > 0');
+    }
+  });
+}
+
+/**
+ * Check parameter bounds and list them in parameter order.
+ * @param names - Parameter names
+ * @param bounds - Bounds by parameter name
+ * @throws ValidationError for an unknown parameter or a lower bound that
+ *   is not below the upper bound
+ */
+function validateBounds<P extends string>(
+  names: ReadonlyArray<P>,
+  bounds: Partial<Record<P, ParameterBounds>>
+): Array<ParameterBounds | undefined> {
+  for (const [name, range] of Object.entries(bounds)) {
+    const [lower, upper] = (range ?? []) as ParameterBounds;
+    if (!names.some((n) => n === name)) {
+      throw new ValidationError(
+        'bounds',
+        name,
+        `must name a parameter of ${names.join(', ')}`
+      );
+    }
+    if (!(lower < upper)) {
+      throw new ValidationError(
+        `bounds.${name}`,
+        range,
+        'lower bound must be below upper bound'
+      );
+    }
+  }
+  return names.map((name) => bounds[name]);
+}
+
+/**
+ * Check an iteration limit.
+ * @param maxIterations - Iteration limit, or undefined for the default
+ * @throws ValidationError unless it is a positive integer
+ */
+function validateMaxIterations(
+  maxIterations: number = FIT_MAX_ITERATIONS
+): number {
+  if (!(Number.isInteger(maxIterations) && maxIterations > 0)) {
+    throw new ValidationError(
+      'maxIterations',
+      maxIterations,
+      'must be a positive integer'
+    );
+  }
+  return maxIterations;
+}
+
+/**
+ * Expected counts per unit amplitude of exp(-rate * t) over an interval.
+ * @param rate - Decay constant in 1/s
+ * @param start - Interval start in seconds
+ * @param duration - Interval length in seconds
+ */
+function decayIntegral(rate: number, start: number, duration: number): number {
+  const x = rate * duration;
+  const shape = Math.abs(x) < 1e-8 ? 1 - x / 2 : -Math.expm1(-x) / x;
+  return Math.exp(-rate * start) * duration * shape;
+}
+
+/**
+ * Set up a decay fit with `components` exponentials. The parameter vector
+ * is [amplitude, decayConstant]... per component, then background, and
+ * every parameter is non-negative.
+ * @param intervals - Counting intervals
+ * @param method - Fit method
+ * @param components - Number of exponential components
+ */
+function decayProblem(
+  intervals: DecayIntervals,
+  method: FitMethod,
+  components: number
+): FitProblem {
+  const { start, duration, counts } = intervals;
+  const size = 2 * components + 1;
+  return {
+    model: (parameters) =>
+      counts.map((_, i) => {
+        const s = start[i] ?? 0;
+        const d = duration[i] ?? 0;
+        let expected = (parameters[size - 1] ?? 0) * d;
+        for (let c = 0; c < components; c++) {
+          const amplitude = parameters[2 * c] ?? 0;
+          expected +=
+            amplitude * decayIntegral(parameters[2 * c + 1] ?? 0, s, d);
+        }
+        return expected;
+      }),
+    objective:
+      method === 'poisson'
+        ? poissonObjective(counts)
+        : leastSquaresObjective(
+            counts,
+            counts.map((n) => Math.sqrt(Math.max(n, 1)))
+          ),
+    lower: new Array<number>(size).fill(0),
+    upper: new Array<number>(size).fill(Number.POSITIVE_INFINITY),
+  };
+}
+
+/**
+ * Chi-square with fixed errors.
+ * @param observed - Observed values
+ * @param sigma - One-sigma error of each value
+ */
+function leastSquaresObjective(
+  observed: ReadonlyArray<number>,
+  sigma: ReadonlyArray<number>
+): Objective {
+  const weights = sigma.map((s) => 1 / (s * s));
+  return {
+    observed,
+    chiSquare: (expected) =>
+      observed.reduce(
+        (sum, y, i) => sum + (weights[i] ?? 0) * (y - (expected[i] ?? 0)) ** 2,
+        0
+      ),
+    weights: () => weights,
+  };
+}
+
+/**
+ * Poisson deviance 2 * sum(mu - n + n ln(n / mu)), which is minimal where
+ * the likelihood is maximal. Its curvature gives inverse variances 1/mu.
+ * @param counts - Observed counts
+ */
+function poissonObjective(counts: ReadonlyArray<number>): Objective {
+  return {
+    observed: counts,
+    chiSquare: (expected) =>
+      counts.reduce((sum, n, i) => {
+        const mu = expected[i] ?? 0;
+        if (n === 0) return sum + 2 * mu;
+        if (!(mu > 0)) return Number.POSITIVE_INFINITY;
+        return sum + 2 * (mu - n + n * Math.log(n / mu));
+      }, 0),
+    weights: (expected) =>
+      expected.map((mu) => 1 / Math.max(mu, Number.MIN_VALUE)),
+  };
+}
+
+/**
+ * Minimize a fit's chi-square with Levenberg-Marquardt. Steps that leave
+ * the bounds are clipped to them.
+ * @param problem - Model, objective and bounds
+ * @param start - Starting parameter vector
+ * @param maxIterations - Iteration limit
+ * @throws ValidationError if the starting point has no finite chi-square
+ */
+function minimize(
+  problem: FitProblem,
+  start: ReadonlyArray<number>,
+  maxIterations: number
+): Minimum {
+  const { objective } = problem;
+  let parameters = clampToBounds(problem, start);
+  let expected = problem.model(parameters);
+  let chiSquare = objective.chiSquare(expected);
+  if (!Number.isFinite(chiSquare)) {
+    throw new ValidationError(
+      'initial',
+      parameters,
+      'must give a finite chi-square'
+    );
+  }
+
+  let damping = FIT_INITIAL_DAMPING;
+  let iterations = 0;
+  let converged = false;
+  while (!converged && iterations < maxIterations) {
+    iterations++;
+    const { alpha, beta } = normalEquations(problem, parameters, expected);
+    let improved = false;
+    while (!improved && damping <= FIT_MAX_DAMPING) {
+      const damped = alpha.map((row, j) =>
+        row.map((value, k) => (j === k ? value * (1 + damping) : value))
+      );
+      const step = solveLinear(damped, beta);
+      const trial =
+        step === null
+          ? null
+          : clampToBounds(
+              problem,
+              parameters.map((p, j) => p + (step[j] ?? 0))
+            );
+      const trialExpected = trial === null ? [] : problem.model(trial);
+      const trialChiSquare =
+        trial === null
+          ? Number.POSITIVE_INFINITY
+          : objective.chiSquare(trialExpected);
+      if (trial !== null && trialChiSquare <= chiSquare) {
+        converged =
+          damping < 1 &&
+          chiSquare - trialChiSquare <=
+            FIT_TOLERANCE * Math.max(trialChiSquare, 1);
+        parameters = trial;
+        expected = trialExpected;
+        chiSquare = trialChiSquare;
+        damping = Math.max(damping / 10, Number.EPSILON);
+        improved = true;
+      } else {
+        damping *= 10;
+      }
+    }
+    // No downhill step left: already at the minimum
+    if (!improved) converged = true;
+  }
+  return { parameters, chiSquare, iterations, converged };
+}
+
+/**
+ * Curvature matrix J^T W J and gradient J^T W r, with the Jacobian J
+ * from finite differences.
+ * @param problem - Model, objective and bounds
+ * @param parameters - Parameter vector
+ * @param expected - Model values at the parameters
+ */
+function normalEquations(
+  problem: FitProblem,
+  parameters: ReadonlyArray<number>,
+  expected: ReadonlyArray<number>
+): { alpha: number[][]; beta: number[] } {
+  const { observed } = problem.objective;
+  const weights = problem.objective.weights(expected);
+  const jacobian = parameters.map((value, j) => {
+    // Central differences, one-sided at a bound
+    const h = FIT_DERIVATIVE_STEP * (value === 0 ? 1 : Math.abs(value));
+    const above = Math.min(
+      value + h,
+      problem.upper[j] ?? Number.POSITIVE_INFINITY
+    );
+    const below = Math.max(
+      value - h,
+      problem.lower[j] ?? Number.NEGATIVE_INFINITY
+    );
+    const up = problem.model(parameters.map((p, k) => (k === j ? above : p)));
+    const down = problem.model(parameters.map((p, k) => (k === j ? below : p)));
+    return up.map((u, i) => (u - (down[i] ?? 0)) / (above - below));
+  });
+  const alpha = jacobian.map((dj) =>
+    jacobian.map((dk) =>
+      dj.reduce((sum, d, i) => sum + (weights[i] ?? 0) * d * (dk[i] ?? 0), 0)
+    )
+  );
+  const beta = jacobian.map((dj) =>
+    dj.reduce(
+      (sum, d, i) =>
+        sum + (weights[i] ?? 0) * ((observed[i] ?? 0) - (expected[i] ?? 0)) * d,
+      0
+    )
+  );
+  return { alpha, beta };
+}
+
+/**
+ * Assemble a fit result, with the covariance matrix as the inverse of the
+ * curvature matrix at the minimum. Fixed parameters have zero uncertainty
+ * and zero covariance.
+ * @param names - Parameter names in vector order
+ * @param problem - Model, objective and bounds of the free parameters
+ * @param minimum - Minimum found
+ * @param fixed - Value of each fixed parameter, undefined for free ones
+ * @throws ValidationError if the curvature matrix is singular
+ */
+function fitResult<P extends string>(
+  names: ReadonlyArray<P>,
+  problem: FitProblem,
+  minimum: Minimum,
+  fixed: ReadonlyArray<number | undefined> = []
+): FitResult<P> {
+  const expected = problem.model(minimum.parameters);
+  const { alpha } = normalEquations(problem, minimum.parameters, expected);
+  const freeCovariance = invertMatrix(alpha);
+  if (freeCovariance === null) {
+    throw new ValidationError(
+      'data',
+      problem.objective.observed.length,
+      `must constrain every free parameter of ${names.join(', ')}`
+    );
+  }
+  // Position of each parameter in the free vector, -1 if fixed
+  let next = 0;
+  const position = names.map((_, j) => (fixed[j] === undefined ? next++ : -1));
+  const covariance = position.map((a) =>
+    position.map((b) =>
+      a === -1 || b === -1 ? 0 : (freeCovariance[a]?.[b] ?? 0)
+    )
+  );
+  const parameters = {} as Record<P, number>;
+  const uncertainties = {} as Record<P, number>;
+  names.forEach((name, j) => {
+    const k = position[j] ?? -1;
+    parameters[name] =
+      k === -1 ? (fixed[j] ?? 0) : (minimum.parameters[k] ?? 0);
+    uncertainties[name] = Math.sqrt(Math.max(covariance[j]?.[j] ?? 0, 0));
+  });
+  const dof = problem.objective.observed.length - minimum.parameters.length;
+  return {
+    parameters,
+    uncertainties,
+    parameterNames: names,
+    covariance,
+    chiSquare: minimum.chiSquare,
+    dof,
+    reducedChiSquare: minimum.chiSquare / dof,
+    pValue: chiSquareSf(minimum.chiSquare, dof),
+    iterations: minimum.iterations,
+    converged: minimum.converged,
+  };
+}
+
+/**
+ * Clip a parameter vector to the bounds.
+ * @param problem - Problem with the bounds
+ * @param parameters - Parameter vector
+ */
+function clampToBounds(
+  problem: FitProblem,
+  parameters: ReadonlyArray<number>
+): number[] {
+  return parameters.map((p, j) =>
+    Math.min(
+      Math.max(p, problem.lower[j] ?? Number.NEGATIVE_INFINITY),
+      problem.upper[j] ?? Number.POSITIVE_INFINITY
+    )
+  );
+}
+
+/**
+ * Solve A x = b by Gaussian elimination with partial pivoting.
+ * @param a - Square matrix
+ * @param b - Right-hand side
+ * @returns Solution, or null if A is singular
+ */
+function solveLinear(
+  a: ReadonlyArray<ReadonlyArray<number>>,
+  b: ReadonlyArray<number>
+): number[] | null {
+  const n = b.length;
+  const rows = a.map((row, i) => [...row, b[i] ?? 0]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(rows[r]?.[col] ?? 0) > Math.abs(rows[pivot]?.[col] ?? 0)) {
+        pivot = r;
+      }
+    }
+    const pivotRow = rows[pivot];
+    const diagonal = pivotRow?.[col] ?? 0;
+    if (
+      pivotRow === undefined ||
+      diagonal === 0 ||
+      !Number.isFinite(diagonal)
+    ) {
+      return null;
+    }
+    rows[pivot] = rows[col] ?? [];
+    rows[col] = pivotRow;
+    for (let r = 0; r < n; r++) {
+      const row = rows[r];
+      if (r === col || row === undefined) continue;
+      const factor = (row[col] ?? 0) / diagonal;
+      for (let c = col; c <= n; c++) {
+        row[c] = (row[c] ?? 0) - factor * (pivotRow[c] ?? 0);
+      }
+    }
+  }
+  const solution = rows.map((row, i) => (row[n] ?? 0) / (row[i] ?? 1));
+  return solution.every(Number.isFinite) ? solution : null;
+}
+
+/**
+ * Invert a square matrix.
+ * @param a - Square matrix
+ * @returns Inverse, or null if A is singular
+ */
+function invertMatrix(
+  a: ReadonlyArray<ReadonlyArray<number>>
+): number[][] | null {
+  const columns: number[][] = [];
+  for (let j = 0; j < a.length; j++) {
+    const column = solveLinear(
+      a,
+      a.map((_, i) => (i === j ? 1 : 0))
+    );
+    if (column === null) return null;
+    columns.push(column);
+  }
+  return a.map((_, i) => columns.map((column) => column[i] ?? 0));
+}
+
+/**
+ * Non-negative weighted least-squares fit of counts to a sum of columns.
+ * Columns whose coefficient comes out negative are dropped until every
+ * coefficient is non-negative.
+ * @param columns - Expected counts per unit coefficient
+ * @param intervals - Counting intervals
+ * @returns Coefficients and chi-square
+ */
+function nonNegativeFit(
+  columns: ReadonlyArray<ReadonlyArray<number>>,
+  intervals: DecayIntervals
+): { coefficients: number[]; chiSquare: number } {
+  const { counts } = intervals;
+  const weights = counts.map((n) => 1 / Math.max(n, 1));
+  const coefficients = columns.map(() => 0);
+  const active = columns.map((_, j) => j);
+  while (active.length > 0) {
+    const alpha = active.map((j) =>
+      active.map((k) =>
+        counts.reduce(
+          (sum, _, i) =>
+            sum +
+            (weights[i] ?? 0) * (columns[j]?.[i] ?? 0) * (columns[k]?.[i] ?? 0),
+          0
+        )
+      )
+    );
+    const beta = active.map((j) =>
+      counts.reduce(
+        (sum, n, i) => sum + (weights[i] ?? 0) * n * (columns[j]?.[i] ?? 0),
+        0
+      )
+    );
+    const solution = solveLinear(alpha, beta);
+    if (solution === null) {
+      active.pop();
+      continue;
+    }
+    const worst = solution.indexOf(minOf(solution));
+    if ((solution[worst] ?? 0) >= 0) {
+      active.forEach((j, k) => {
+        coefficients[j] = solution[k] ?? 0;
+      });
+      break;
+    }
+    active.splice(worst, 1);
+  }
+  const chiSquare = counts.reduce((sum, n, i) => {
+    const expected = columns.reduce(
+      (total, column, j) => total + (coefficients[j] ?? 0) * (column[i] ?? 0),
+      0
+    );
+    return sum + (weights[i] ?? 0) * (n - expected) ** 2;
+  }, 0);
+  return { coefficients, chiSquare };
+}
+
+/**
+ * Log-spaced decay constants spanning the time scales the data can
+ * resolve, from a tenth of the inverse series length to ten times the
+ * inverse of the shortest interval. Fastest first.
+ * @param intervals - Counting intervals
+ */
+function decayGrid(intervals: DecayIntervals): number[] {
+  const last = intervals.start.length - 1;
+  const span = (intervals.start[last] ?? 0) + (intervals.duration[last] ?? 0);
+  const slowest = 0.1 / span;
+  const fastest = Math.max(10 / minOf(intervals.duration), 100 * slowest);
+  const ratio = (fastest / slowest) ** (1 / (DECAY_GRID_SIZE - 1));
+  return Array.from(
+    { length: DECAY_GRID_SIZE },
+    (_, k) => fastest / ratio ** k
+  );
+}
+
+/**
+ * Expected counts per unit amplitude for each grid decay constant.
+ * @param intervals - Counting intervals
+ * @param grid - Decay constants
+ */
+function decayColumns(
+  intervals: DecayIntervals,
+  grid: ReadonlyArray<number>
+): number[][] {
+  return grid.map((rate) =>
+    intervals.start.map((s, i) =>
+      decayIntegral(rate, s, intervals.duration[i] ?? 0)
+    )
+  );
+}
+
+/**
+ * Starting values for a single decay: the grid decay constant whose
+ * linear amplitude and background fit best.
+ * @param intervals - Counting intervals
+ */
+function estimateSingleDecay(
+  intervals: DecayIntervals
+): Record<DecayParameter, number> {
+  const grid = decayGrid(intervals);
+  const columns = decayColumns(intervals, grid);
+  let best = { amplitude: 0, decayConstant: 0, background: 0 };
+  let bestChiSquare = Number.POSITIVE_INFINITY;
+  columns.forEach((column, k) => {
+    const fit = nonNegativeFit([column, intervals.duration], intervals);
+    const [amplitude = 0, background = 0] = fit.coefficients;
+    if (amplitude > 0 && fit.chiSquare < bestChiSquare) {
+      bestChiSquare = fit.chiSquare;
+      best = { amplitude, decayConstant: grid[k] ?? 0, background };
+    }
+  });
+  return best;
+}
+
+/**
+ * Starting values for a double decay: the pair of grid decay constants
+ * whose linear amplitudes and background fit best. Falls back to
+ * splitting the single-decay estimate if no pair has two positive
+ * amplitudes.
+ * @param intervals - Counting intervals
+ */
+function estimateDoubleDecay(
+  intervals: DecayIntervals
+): Record<DoubleDecayParameter, number> {
+  const grid = decayGrid(intervals);
+  const columns = decayColumns(intervals, grid);
+  let best = {
+    amplitude: 0,
+    decayConstant: 0,
+    amplitude2: 0,
+    decayConstant2: 0,
+    background: 0,
+  };
+  let bestChiSquare = Number.POSITIVE_INFINITY;
+  for (let j = 0; j < grid.length; j++) {
+    for (let k = j + 1; k < grid.length; k++) {
+      const fit = nonNegativeFit(
+        [columns[j] ?? [], columns[k] ?? [], intervals.duration],
+        intervals
+      );
+      const [amplitude = 0, amplitude2 = 0, background = 0] = fit.coefficients;
+      if (amplitude > 0 && amplitude2 > 0 && fit.chiSquare < bestChiSquare) {
+        bestChiSquare = fit.chiSquare;
+        best = {
+          amplitude,
+          decayConstant: grid[j] ?? 0,
+          amplitude2,
+          decayConstant2: grid[k] ?? 0,
+          background,
+        };
+      }
+    }
+  }
+  if (bestChiSquare === Number.POSITIVE_INFINITY) {
+    const single = estimateSingleDecay(intervals);
+    return {
+      amplitude: single.amplitude / 2,
+      decayConstant: single.decayConstant * 2,
+      amplitude2: single.amplitude / 2,
+      decayConstant2: single.decayConstant / 2,
+      background: single.background,
+    };
+  }
+  return best;
+}
+
+/**
+ * Half-life from a decay constant, with its propagated uncertainty.
+ * @param decayConstant - Decay constant in 1/s
+ * @param uncertainty - One-sigma uncertainty of the decay constant
+ */
+function halfLife(
+  decayConstant: number,
+  uncertainty: number
+): ValueWithUncertainty {
+  return {
+    value: Math.LN2 / decayConstant,
+    uncertainty: (Math.LN2 * uncertainty) / decayConstant ** 2,
+  };
+}
+
+/**
+ * Arithmetic mean, or 0 for no values.
+ * @param values - Values
+ */
+function mean(values: ReadonlyArray<number>): number {
+  return values.length === 0
+    ? 0
+    : values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * Smallest value, safe for long arrays.
+ * @param values - Values
+ */
+function minOf(values: ReadonlyArray<number>): number {
+  return values.reduce((min, v) => Math.min(min, v), Number.POSITIVE_INFINITY);
+}
+
+/**
+ * Largest value, safe for long arrays.
+ * @param values - Values
+ */
+function maxOf(values: ReadonlyArray<number>): number {
+  return values.reduce((max, v) => Math.max(max, v), Number.NEGATIVE_INFINITY);
+}
+
+/**
+ * Index of the largest value.
+ * @param values - Values
+ */
+function argMax(values: ReadonlyArray<number>): number {
+  return values.reduce(
+    (best, v, i) => (v > (values[best] ?? Number.NEGATIVE_INFINITY) ? i : best),
+    0
+  );
+}
+
+/**
+ * Convert degrees to radians.
+ * @param degrees - Angle in degrees
+ */
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+export default {
+  Fitting,
+  CurveModels,
+};
@@ -5,15 +5,79 @@
  */
 
 export type {
+  AccumulatedSample,
+  CountAccumulatorOptions,
+} from './accumulator.js';
+// Overflow-aware count accumulation
+export { CountAccumulator } from './accumulator.js';
+export type {
+  AcquisitionEvents,
+  AcquisitionGap,
+  AcquisitionOptions,
+  AcquisitionOverflow,
+  AcquisitionSample,
+  AcquisitionStop,
+} from './acquisition.js';
+// Continuous polling acquisition
+export { Acquisition } from './acquisition.js';
+export type {
+  Burst,
+  BurstOptions,
+  ChangePointOptions,
+  ChshResult,
+  ChshSettings,
+  CoincidenceAnalysis,
+  CoincidenceChannelMap,
+  CoincidenceInput,
   CumulativeHistogramResult,
+  DeadTimeCorrection,
+  DeadTimeModel,
+  DeadTimeOptions,
+  HeraldedCounts,
+  Histogram2DOptions,
+  Histogram2DResult,
   HistogramOptions,
   HistogramResult,
+  HypothesisTest,
+  IntegerHistogramOptions,
+  IntegerHistogramResult,
+  KlyshkoEfficiency,
   LinearRegressionResult,
+  ModelFit,
+  MultiFoldCoincidence,
+  PairCounts,
+  PoissonChiSquareTest,
+  PoissonGaussianComparison,
+  PoissonInterval,
+  PoissonIntervalMethod,
+  PoissonIntervalOptions,
+  PoissonTestBin,
+  PolarizationMeasurement,
+  RateComparison,
+  RatePoint,
+  RateSegment,
+  RateWithUncertainty,
+  RegressionBandOptions,
+  RegressionBandPoint,
+  RegressionErrors,
+  SinglesRate,
+  StabilityOptions,
+  StabilityPoint,
   StatisticalSummary,
+  ValueWithUncertainty,
+  WeightedRegressionResult,
 } from './analysis.js';
 // Analysis utilities
-export { Coincidence, Histogram, Statistics, TimeSeries } from './analysis.js';
+export {
+  Coincidence,
+  DeadTime,
+  Histogram,
+  QuantumOptics,
+  Statistics,
+  TimeSeries,
+} from './analysis.js';
 export type {
+  BackgroundRate,
   CalibrationCoefficients,
   CalibrationErrorStats,
   CalibrationPoint,
@@ -21,6 +85,7 @@ export type {
   CalibrationProfileOptions,
   CalibrationReport,
   CalibrationValidationResult,
+  ChannelBackgroundMap,
   ChannelCalibrationMap,
   OptimalThresholdResult,
 } from './calibration.js';
@@ -34,25 +99,55 @@ export {
 } from './calibration.js';
 // Export types from CD48
 export type {
+  BackgroundSubtraction,
+  CD48Events,
   CD48Options,
   ChannelInputs,
+  CoincidenceBackgroundSubtraction,
+  CoincidenceDeadTimeCorrection,
   CoincidenceMeasurement,
   CoincidenceMeasurementOptions,
   CoincidenceUncertainty,
+  CommandEventData,
+  CommandOptions,
+  CommandPriority,
   ConnectionState,
   ConnectionStateChangeCallback,
   ConnectionStateChangeData,
   CountData,
+  DeviceSettings,
   DisconnectCallback,
+  DisconnectEventData,
   FirmwareInfo,
   MeasurementOptions,
   MeasurementUncertainty,
+  MultiCoincidenceMeasurement,
+  MultiCoincidenceOptions,
+  OverflowEventData,
+  QueuedCommandInfo,
   RateMeasurement,
   ReconnectCallback,
+  ReconnectEventData,
   ReconnectFailedCallback,
+  ReconnectFailedEventData,
+  ResponseEventData,
+  RetryEventData,
+  StaleBackgroundEventData,
+  TimeoutEventData,
 } from './cd48.js';
 // Main CD48 class
 export { default as CD48, default } from './cd48.js';
+export type {
+  CommandDescriptor,
+  FramedResponse,
+  ResponseFraming,
+} from './commands.js';
+// Command descriptors and response framing
+export {
+  COMMAND_DESCRIPTORS,
+  frameResponse,
+  getCommandDescriptor,
+} from './commands.js';
 // Firmware version constants
 export {
   MIN_FIRMWARE_MAJOR,
@@ -78,11 +173,27 @@ export {
   PerformanceMonitor,
   setupDevMode,
 } from './dev-utils.js';
+export type {
+  ApplyConfigResult,
+  DeviceConfig,
+  DeviceConfigDifference,
+  DeviceConfigValue,
+} from './device-config.js';
+// Declarative device configuration
+export {
+  DEVICE_CONFIG_VERSION,
+  deviceConfigFromSettings,
+  diffDeviceConfig,
+  parseDeviceConfig,
+  stringifyDeviceConfig,
+  validateDeviceConfig,
+} from './device-config.js';
 // Error classes
 export {
   CD48Error,
   CommandTimeoutError,
   CommunicationError,
+  ConfigVerificationError,
   ConnectionError,
   DeviceSelectionCancelledError,
   FirmwareIncompatibleError,
@@ -91,17 +202,112 @@ export {
   InvalidVoltageError,
   NotConnectedError,
   OperationAbortedError,
+  ReplayMismatchError,
   UnsupportedBrowserError,
   ValidationError,
 } from './errors.js';
+export type { EventListener, ListenerOptions } from './events.js';
+// Typed event emitter
+export { TypedEventEmitter } from './events.js';
 export type {
+  DataTable,
   ExportableMeasurement,
   ExportFormat,
   ExportOptions,
+  TableValue,
 } from './export.js';
-
 // Data export utilities
 export { DataExport } from './export.js';
+export type {
+  CurveFitData,
+  CurveFitOptions,
+  CurveModel,
+  DecayData,
+  DecayFitOptions,
+  DecayFitResult,
+  DecayParameter,
+  DoubleDecayFitResult,
+  DoubleDecayParameter,
+  FitMethod,
+  FitResult,
+  ParameterBounds,
+  TimestampedRate,
+} from './fitting.js';
+// Decay-curve and nonlinear fitting
+export { CurveModels, Fitting } from './fitting.js';
+export type {
+  AddDeviceOptions,
+  CD48ManagerOptions,
+  DeviceEvent,
+  ManagedDevice,
+  SynchronizedAcquisitionEvents,
+  SynchronizedAcquisitionOptions,
+} from './manager.js';
+// Multi-device management
+export { CD48Manager, SynchronizedAcquisition } from './manager.js';
+export type {
+  NodeSerialPortInfo,
+  NodeSerialTransportOptions,
+} from './node-transport.js';
+// Node.js serial transport
+export { NodeSerialTransport } from './node-transport.js';
+export type {
+  CreateSessionOptions,
+  SessionMetadata,
+  SessionRecord,
+  SessionStatus,
+  SessionStorage,
+} from './session.js';
+// Persistent measurement sessions
+export {
+  FileSessionStorage,
+  IndexedDBSessionStorage,
+  MeasurementSession,
+  MemorySessionStorage,
+} from './session.js';
+export type {
+  CD48SimulatorOptions,
+  CorrelatedSource,
+  SimulatorInput,
+  SimulatorSettings,
+} from './simulator.js';
+// Device simulator
+export { CD48Simulator } from './simulator.js';
+export type { StreamOptions, TimestampedCounts } from './stream.js';
+// Repeat-mode count streams
+export { CountStream } from './stream.js';
+export type {
+  SweepEvents,
+  SweepMeasure,
+  SweepOptions,
+  SweepParameter,
+  SweepPoint,
+  SweepProgress,
+  SweepResult,
+  VoltageSweepOptions,
+} from './sweep.js';
+// Parameter sweeps
+export { Sweep } from './sweep.js';
+export type {
+  ProtocolTraceOptions,
+  ReplayTransportOptions,
+  TraceContext,
+  TraceDirection,
+  TraceEntry,
+  TraceError,
+} from './trace.js';
+// Protocol trace recording and replay
+export { ProtocolTrace, ReplayTransport } from './trace.js';
+export type {
+  CD48Transport,
+  LoopbackResponder,
+  LoopbackTransportOptions,
+  TransportDisconnectCallback,
+  TransportReadResult,
+  WebSerialTransportOptions,
+} from './transport.js';
+// Transports
+export { LoopbackTransport, WebSerialTransport } from './transport.js';
 // Branded types for type-safe channel and voltage values
 export type { Channel, ImpedanceMode, Voltage } from './validation.js';
 // Validation utilities
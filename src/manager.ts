@@ -0,0 +1,419 @@
+/**
+ * @fileoverview Management of several CD48 units on one host
+ * @module manager
+ *
+ * Each unit gets its own `CD48` instance bound to its own transport, so
+ * reconnecting one unit never picks up another. Units are addressed by a
+ * user-assigned label; synchronized acquisitions poll every unit on one
+ * schedule of a shared monotonic clock.
+ *
+ * @example
+ * const manager = new CD48Manager();
+ * const [top, bottom] = await manager.discover();
+ * manager.relabel(top.label, 'top');
+ * manager.relabel(bottom.label, 'bottom');
+ *
+ * const acquisition = manager.createAcquisition({ intervalMs: 1000 });
+ * acquisition.on('sample', ({ label, data }) => log(label, data.time));
+ * await acquisition.start();
+ */
+
+import {
+  Acquisition,
+  type AcquisitionGap,
+  type AcquisitionOptions,
+  type AcquisitionOverflow,
+  type AcquisitionSample,
+  type AcquisitionStop,
+} from './acquisition.js';
+import CD48, { type CD48Options } from './cd48.js';
+import { CD48Error, OperationAbortedError, ValidationError } from './errors.js';
+import { TypedEventEmitter } from './events.js';
+import { type CD48Transport, WebSerialTransport } from './transport.js';
+
+/**
+ * Manager options
+ */
+export interface CD48ManagerOptions {
+  /** Options for every CD48 instance; the transport is set per unit */
+  deviceOptions?: Omit<CD48Options, 'transport'>;
+  /** Monotonic clock shared by synchronized acquisitions (default: performance.now) */
+  now?: () => number;
+}
+
+/**
+ * A CD48 unit held by the manager
+ */
+export interface ManagedDevice {
+  /** User-assigned label, unique within the manager */
+  readonly label: string;
+  /** Device instance bound to this unit's transport */
+  readonly cd48: CD48;
+  /** Transport of this unit */
+  readonly transport: CD48Transport;
+  /** USB identity from `SerialPort.getInfo()` (empty for other transports) */
+  readonly info: Readonly<SerialPortInfo>;
+  /** Firmware version string read when the unit was added */
+  readonly firmwareVersion: string;
+}
+
+/**
+ * Options for adding a unit
+ */
+export interface AddDeviceOptions {
+  /** Label (default: `CD48-<n>`) */
+  label?: string;
+  /** USB identity of the unit */
+  info?: SerialPortInfo;
+}
+
+/**
+ * Event payload tagged with the unit it came from
+ */
+export interface DeviceEvent<T> {
+  readonly label: string;
+  readonly data: T;
+}
+
+/**
+ * Events emitted by SynchronizedAcquisition
+ */
+export interface SynchronizedAcquisitionEvents {
+  sample: DeviceEvent<AcquisitionSample>;
+  gap: DeviceEvent<AcquisitionGap>;
+  overflow: DeviceEvent<AcquisitionOverflow>;
+  error: DeviceEvent<Error>;
+  stop: DeviceEvent<AcquisitionStop>;
+}
+
+/**
+ * Synchronized acquisition options
+ */
+export type SynchronizedAcquisitionOptions = Omit<
+  AcquisitionOptions,
+  'now' | 'startTime'
+>;
+
+/**
+ * Polls several units on one schedule. Every unit's `Acquisition` shares
+ * the manager's clock and schedule origin, so samples with the same index
+ * cover the same time slot and their `time` values are comparable.
+ */
+export class SynchronizedAcquisition extends TypedEventEmitter<SynchronizedAcquisitionEvents> {
+  public readonly labels: ReadonlyArray<string>;
+  private readonly devices: ReadonlyArray<ManagedDevice>;
+  private readonly options: SynchronizedAcquisitionOptions;
+  private readonly now: () => number;
+  private readonly _acquisitions: Map<string, Acquisition>;
+  private _running: boolean;
+
+  /**
+   * Create a synchronized acquisition. Used by `CD48Manager.createAcquisition()`.
+   * @param devices - Units to poll
+   * @param options - Acquisition options applied to every unit
+   * @param now - Shared monotonic clock
+   * @internal
+   */
+  constructor(
+    devices: ReadonlyArray<ManagedDevice>,
+    options: SynchronizedAcquisitionOptions,
+    now: () => number
+  ) {
+    super();
+    const { intervalMs, durationMs } = options;
+    if (intervalMs !== undefined && !(intervalMs > 0)) {
+      throw new ValidationError('intervalMs', intervalMs, 'must be positive');
+    }
+    if (durationMs !== undefined && !(durationMs > 0)) {
+      throw new ValidationError('durationMs', durationMs, 'must be positive');
+    }
+    this.devices = devices;
+    this.labels = devices.map((d) => d.label);
+    this.options = options;
+    this.now = now;
+    this._acquisitions = new Map();
+    this._running = false;
+  }
+
+  /**
+   * Whether the acquisition is running.
+   */
+  public get running(): boolean {
+    return this._running;
+  }
+
+  /**
+   * Per-unit acquisitions of the current or last run, keyed by label.
+   */
+  public get acquisitions(): ReadonlyMap<string, Acquisition> {
+    return this._acquisitions;
+  }
+
+  /**
+   * Clear every unit's counters and poll them all until stopped, aborted or
+   * the duration ends. A unit that disconnects stops on its own; the others
+   * keep running.
+   * @returns Resolves when every unit has stopped
+   * @throws CD48Error if already running
+   * @throws OperationAbortedError if the signal is already aborted
+   */
+  public async start(): Promise<void> {
+    if (this._running) {
+      throw new CD48Error('Synchronized acquisition already running');
+    }
+    if (this.options.signal?.aborted === true) {
+      throw new OperationAbortedError('acquisition');
+    }
+
+    const startTime = this.now();
+    this._acquisitions.clear();
+    for (const device of this.devices) {
+      const acquisition = new Acquisition(device.cd48, {
+        ...this.options,
+        now: this.now,
+        startTime,
+      });
+      const label = device.label;
+      acquisition.on('sample', (data) => this.emit('sample', { label, data }));
+      acquisition.on('gap', (data) => this.emit('gap', { label, data }));
+      acquisition.on('overflow', (data) =>
+        this.emit('overflow', { label, data })
+      );
+      acquisition.on('error', (data) => this.emit('error', { label, data }));
+      acquisition.on('stop', (data) => this.emit('stop', { label, data }));
+      this._acquisitions.set(label, acquisition);
+    }
+
+    this._running = true;
+    try {
+      await Promise.all([...this._acquisitions.values()].map((a) => a.start()));
+    } finally {
+      this._running = false;
+    }
+  }
+
+  /**
+   * Stop every unit. The pending start() promise resolves once all current
+   * reads have finished.
+   */
+  public stop(): void {
+    for (const acquisition of this._acquisitions.values()) {
+      acquisition.stop();
+    }
+  }
+}
+
+/**
+ * Holds one CD48 instance per connected unit
+ */
+export class CD48Manager {
+  private readonly deviceOptions: Omit<CD48Options, 'transport'>;
+  private readonly now: () => number;
+  private readonly units: Map<string, ManagedDevice>;
+  private readonly ports: Set<SerialPort>;
+  private nextNumber: number;
+
+  /**
+   * Create a manager.
+   * @param options - Manager options
+   */
+  constructor(options: CD48ManagerOptions = {}) {
+    this.deviceOptions = options.deviceOptions ?? {};
+    this.now = options.now ?? (() => performance.now());
+    this.units = new Map();
+    this.ports = new Set();
+    this.nextNumber = 1;
+  }
+
+  /**
+   * Units in the order they were added.
+   */
+  public get devices(): ManagedDevice[] {
+    return [...this.units.values()];
+  }
+
+  /**
+   * Number of units held.
+   */
+  public get size(): number {
+    return this.units.size;
+  }
+
+  /**
+   * Connect to every previously granted CD48 port that is not managed yet.
+   * Ports are granted with `CD48.connect()` or
+   * `navigator.serial.requestPort()`.
+   * @returns The newly added units
+   * @throws UnsupportedBrowserError if Web Serial is unavailable
+   * @throws ConnectionError if a unit fails to connect
+   */
+  public async discover(): Promise<ManagedDevice[]> {
+    const transports = await WebSerialTransport.grantedPorts(
+      this.deviceOptions.baudRate === undefined
+        ? {}
+        : { baudRate: this.deviceOptions.baudRate }
+    );
+    const added: ManagedDevice[] = [];
+    for (const transport of transports) {
+      if (this.ports.has(transport.port)) continue;
+      const device = await this.add(transport, {
+        info: transport.port.getInfo(),
+      });
+      this.ports.add(transport.port);
+      added.push(device);
+    }
+    return added;
+  }
+
+  /**
+   * Connect to a unit over a given transport and start managing it.
+   * @param transport - Transport of the unit (not yet opened)
+   * @param options - Label and USB identity
+   * @returns The managed unit
+   * @throws ValidationError if the label is empty or already in use
+   * @throws ConnectionError if the unit fails to connect
+   */
+  public async add(
+    transport: CD48Transport,
+    options: AddDeviceOptions = {}
+  ): Promise<ManagedDevice> {
+    const label = options.label ?? this.defaultLabel();
+    this.validateLabel(label);
+
+    const cd48 = new CD48({ ...this.deviceOptions, transport });
+    await cd48.connect();
+    let firmwareVersion: string;
+    try {
+      firmwareVersion = await cd48.getVersion();
+    } catch (error) {
+      await cd48.disconnect();
+      throw error;
+    }
+
+    // Checked again: another add() may have taken the label meanwhile
+    if (this.units.has(label)) {
+      await cd48.disconnect();
+      throw new ValidationError('label', label, 'must be unique');
+    }
+    const device: ManagedDevice = {
+      label,
+      cd48,
+      transport,
+      info: { ...options.info },
+      firmwareVersion,
+    };
+    this.units.set(label, device);
+    return device;
+  }
+
+  /**
+   * Look up a unit by label.
+   * @param label - Unit label
+   * @returns The unit, or undefined if there is none
+   */
+  public get(label: string): ManagedDevice | undefined {
+    return this.units.get(label);
+  }
+
+  /**
+   * Give a unit a new label. The unit keeps its position in `devices`.
+   * @param label - Current label
+   * @param newLabel - New label
+   * @returns The relabelled unit
+   * @throws CD48Error if no unit has the current label
+   * @throws ValidationError if the new label is empty or already in use
+   */
+  public relabel(label: string, newLabel: string): ManagedDevice {
+    const device = this.require(label);
+    if (newLabel === label) return device;
+    this.validateLabel(newLabel);
+
+    const relabelled: ManagedDevice = { ...device, label: newLabel };
+    const entries = [...this.units.entries()].map(
+      ([key, value]): [string, ManagedDevice] =>
+        key === label ? [newLabel, relabelled] : [key, value]
+    );
+    this.units.clear();
+    for (const [key, value] of entries) this.units.set(key, value);
+    return relabelled;
+  }
+
+  /**
+   * Disconnect a unit and stop managing it.
+   * @param label - Unit label
+   * @throws CD48Error if no unit has the label
+   */
+  public async remove(label: string): Promise<void> {
+    const device = this.require(label);
+    this.units.delete(label);
+    if (device.transport instanceof WebSerialTransport) {
+      this.ports.delete(device.transport.port);
+    }
+    await device.cd48.disconnect();
+  }
+
+  /**
+   * Disconnect every unit and stop managing them.
+   */
+  public async disconnectAll(): Promise<void> {
+    const devices = this.devices;
+    this.units.clear();
+    this.ports.clear();
+    await Promise.allSettled(devices.map((d) => d.cd48.disconnect()));
+  }
+
+  /**
+   * Create an acquisition polling several units on a shared time base.
+   * @param options - Acquisition options applied to every unit
+   * @param labels - Units to include (default: all)
+   * @returns Synchronized acquisition, not yet started
+   * @throws CD48Error if a label is unknown or no units are selected
+   * @throws ValidationError if the interval or duration is not positive
+   */
+  public createAcquisition(
+    options: SynchronizedAcquisitionOptions = {},
+    labels: ReadonlyArray<string> = [...this.units.keys()]
+  ): SynchronizedAcquisition {
+    if (labels.length === 0) {
+      throw new CD48Error('No devices to acquire from');
+    }
+    const devices = labels.map((label) => this.require(label));
+    return new SynchronizedAcquisition(devices, options, this.now);
+  }
+
+  /**
+   * Look up a unit that must exist.
+   */
+  private require(label: string): ManagedDevice {
+    const device = this.units.get(label);
+    if (device === undefined) {
+      throw new CD48Error(`No device labelled '${label}'`);
+    }
+    return device;
+  }
+
+  /**
+   * Check that a label is non-empty and unused.
+   */
+  private validateLabel(label: string): void {
+    if (label.trim() === '') {
+      throw new ValidationError('label', label, 'must not be empty');
+    }
+    if (this.units.has(label)) {
+      throw new ValidationError('label', label, 'must be unique');
+    }
+  }
+
+  /**
+   * Next free `CD48-<n>` label.
+   */
+  private defaultLabel(): string {
+    let label: string;
+    do {
+      label = `CD48-${this.nextNumber++}`;
+    } while (this.units.has(label));
+    return label;
+  }
+}
+
+export default CD48Manager;
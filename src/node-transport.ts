@@ -0,0 +1,190 @@
+/**
+ * @fileoverview Node.js serial transport for headless CD48 acquisition
+ * @module node-transport
+ *
+ * Requires the optional `serialport` package, which is loaded lazily on
+ * open() so browser bundles never pull it in.
+ *
+ * @example
+ * import { CD48, NodeSerialTransport } from 'tscd48';
+ *
+ * const cd48 = new CD48({
+ *   transport: new NodeSerialTransport('/dev/ttyUSB0'),
+ * });
+ * await cd48.connect();
+ * const result = await cd48.measureRate(0, 10);
+ */
+
+import type { SerialPort } from 'serialport';
+import { BAUD_RATE, USB_VENDOR_ID } from './constants.js';
+import { ConnectionError, NotConnectedError } from './errors.js';
+import {
+  type CD48Transport,
+  ChunkQueue,
+  type TransportDisconnectCallback,
+  type TransportReadResult,
+} from './transport.js';
+
+/** Hexadecimal radix used by serialport for USB IDs */
+const HEX_RADIX = 16;
+
+/**
+ * Node serial transport options
+ */
+export interface NodeSerialTransportOptions {
+  /** Baud rate (default: 115200) */
+  baudRate?: number;
+}
+
+/**
+ * Serial port discovered on the host
+ */
+export interface NodeSerialPortInfo {
+  /** Device path, e.g. `/dev/ttyUSB0` or `COM3` */
+  readonly path: string;
+  readonly manufacturer: string | undefined;
+  readonly serialNumber: string | undefined;
+  readonly vendorId: string | undefined;
+  readonly productId: string | undefined;
+}
+
+/**
+ * Transport backed by the Node.js `serialport` package
+ */
+export class NodeSerialTransport implements CD48Transport {
+  public readonly path: string;
+  private readonly baudRate: number;
+  private port: SerialPort | null;
+  private readonly queue: ChunkQueue;
+  private _onDisconnect: TransportDisconnectCallback | null;
+
+  /**
+   * Create a transport for a device path.
+   * @param path - Device path such as `/dev/ttyUSB0`
+   * @param options - Transport options
+   */
+  constructor(path: string, options: NodeSerialTransportOptions = {}) {
+    this.path = path;
+    this.baudRate = options.baudRate ?? BAUD_RATE;
+    this.port = null;
+    this.queue = new ChunkQueue();
+    this._onDisconnect = null;
+  }
+
+  /**
+   * List serial ports that look like CD48 units (Cypress vendor ID).
+   * @returns Matching ports
+   */
+  public static async list(): Promise<NodeSerialPortInfo[]> {
+    const { SerialPort: SerialPortClass } = await import('serialport');
+    const ports = await SerialPortClass.list();
+    return ports
+      .filter(
+        (p) =>
+          p.vendorId !== undefined &&
+          Number.parseInt(p.vendorId, HEX_RADIX) === USB_VENDOR_ID
+      )
+      .map((p) => ({
+        path: p.path,
+        manufacturer: p.manufacturer,
+        serialNumber: p.serialNumber,
+        vendorId: p.vendorId,
+        productId: p.productId,
+      }));
+  }
+
+  public async open(): Promise<void> {
+    if (this.port !== null) {
+      throw new ConnectionError(`Port ${this.path} already open`);
+    }
+
+    let SerialPortClass: typeof SerialPort;
+    try {
+      ({ SerialPort: SerialPortClass } = await import('serialport'));
+    } catch (error) {
+      throw new ConnectionError(
+        "The 'serialport' package is required for NodeSerialTransport",
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    const port = new SerialPortClass({
+      path: this.path,
+      baudRate: this.baudRate,
+      autoOpen: false,
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      port.open((error) => {
+        if (error === null) {
+          resolve();
+        } else {
+          reject(new ConnectionError(error.message, error));
+        }
+      });
+    });
+
+    const decoder = new TextDecoder();
+    this.queue.reset();
+    port.on('data', (chunk: Uint8Array) => {
+      this.queue.push(decoder.decode(chunk, { stream: true }));
+    });
+    port.on('close', (error: (Error & { disconnected?: boolean }) | null) => {
+      this.port = null;
+      this.queue.end();
+      if (error?.disconnected === true && this._onDisconnect !== null) {
+        this._onDisconnect();
+      }
+    });
+    this.port = port;
+  }
+
+  public async close(): Promise<void> {
+    const port = this.port;
+    if (port === null) return;
+    this.port = null;
+    this.queue.end();
+    await new Promise<void>((resolve) => {
+      port.close(() => resolve());
+    });
+  }
+
+  public isOpen(): boolean {
+    return this.port !== null;
+  }
+
+  public async write(data: string): Promise<void> {
+    const port = this.port;
+    if (port === null) {
+      throw new NotConnectedError('write');
+    }
+    await new Promise<void>((resolve, reject) => {
+      port.write(data, (error) => {
+        if (error !== null && error !== undefined) {
+          reject(error);
+          return;
+        }
+        port.drain((drainError) => {
+          if (drainError === null) {
+            resolve();
+          } else {
+            reject(drainError);
+          }
+        });
+      });
+    });
+  }
+
+  public async read(): Promise<TransportReadResult> {
+    if (this.port === null) {
+      return { value: '', done: true };
+    }
+    return this.queue.shift();
+  }
+
+  public onDisconnect(callback: TransportDisconnectCallback | null): void {
+    this._onDisconnect = callback;
+  }
+}
+
+export default NodeSerialTransport;
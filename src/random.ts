@@ -0,0 +1,27 @@
+/**
+ * @fileoverview Seeded pseudo-random numbers
+ * @module random
+ *
+ * A small, fast generator for reproducible simulations. Not part of the
+ * public API.
+ *
+ * @example
+ * const random = mulberry32(42);
+ * random(); // same value on every run
+ */
+
+/**
+ * Mulberry32 pseudo-random generator
+ * @param seed - 32-bit seed
+ * @returns Generator yielding values in [0, 1)
+ */
+export function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
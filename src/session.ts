@@ -0,0 +1,627 @@
+/**
+ * @fileoverview Measurement sessions persisted as they are recorded
+ * @module session
+ *
+ * Every record is written to storage as soon as it is added, so a tab crash
+ * or unplugged device loses at most the write in flight. Storage is
+ * pluggable:
+ * - IndexedDBSessionStorage: browsers (default choice for web apps)
+ * - FileSessionStorage: Node.js, one metadata file and one append-only
+ *   JSON Lines file per session
+ * - MemorySessionStorage: tests and throwaway sessions
+ *
+ * @example
+ * const storage = new IndexedDBSessionStorage();
+ * const session = await MeasurementSession.create(storage, {
+ *   name: 'Overnight background',
+ *   config: deviceConfigFromSettings(await cd48.getDeviceSettings()),
+ * });
+ * acquisition.on('sample', (s) => void session.addCounts(s));
+ *
+ * // After a crash or reconnect
+ * const [latest] = await MeasurementSession.list(storage);
+ * const resumed = await MeasurementSession.resume(storage, latest.id);
+ * DataExport.countsToCSV(await resumed.counts());
+ */
+
+import type {
+  CoincidenceMeasurement,
+  CountData,
+  RateMeasurement,
+} from './cd48.js';
+import { SESSION_DB_NAME, SESSION_DB_VERSION } from './constants.js';
+import type { DeviceConfig } from './device-config.js';
+import { CD48Error, ValidationError } from './errors.js';
+import type { ExportableMeasurement } from './export.js';
+
+/**
+ * Session lifecycle state
+ */
+export type SessionStatus = 'active' | 'closed';
+
+/**
+ * Session description stored alongside its records
+ */
+export interface SessionMetadata {
+  /** Unique session ID */
+  readonly id: string;
+  /** Human-readable name */
+  readonly name: string;
+  /** Creation time (ISO 8601) */
+  readonly createdAt: string;
+  /** Close time (ISO 8601), if closed */
+  readonly closedAt?: string;
+  /** Whether the session is still being recorded */
+  readonly status: SessionStatus;
+  /** Device configuration the session was recorded with */
+  readonly config?: DeviceConfig;
+}
+
+/**
+ * One stored measurement. `timestamp` is an ISO 8601 string so records
+ * can be passed to `DataExport` as `ExportableMeasurement`s.
+ */
+export interface SessionRecord extends ExportableMeasurement {
+  /** Position in the session, starting at 0 */
+  readonly sequence: number;
+}
+
+/**
+ * Storage backend for measurement sessions
+ */
+export interface SessionStorage {
+  /** Create or replace a session's metadata */
+  saveMetadata(metadata: SessionMetadata): Promise<void>;
+  /** Load a session's metadata, or null if there is no such session */
+  loadMetadata(id: string): Promise<SessionMetadata | null>;
+  /** Durably append a record to a session */
+  append(id: string, record: SessionRecord): Promise<void>;
+  /** Load a session's records in sequence order */
+  loadRecords(id: string): Promise<SessionRecord[]>;
+  /** Metadata of every stored session */
+  list(): Promise<SessionMetadata[]>;
+  /** Delete a session and its records */
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Options for creating a session
+ */
+export interface CreateSessionOptions {
+  /** Name (default: creation time) */
+  name?: string;
+  /** Device configuration the session is recorded with */
+  config?: DeviceConfig;
+}
+
+/**
+ * Append-only record of measurements backed by a SessionStorage
+ */
+export class MeasurementSession {
+  public readonly storage: SessionStorage;
+  private _metadata: SessionMetadata;
+  private nextSequence: number;
+  private writes: Promise<void>;
+
+  /**
+   * Wrap stored session state. Use `create()` or `resume()` instead.
+   * @param storage - Storage backend
+   * @param metadata - Session metadata
+   * @param nextSequence - Sequence number of the next record
+   * @internal
+   */
+  constructor(
+    storage: SessionStorage,
+    metadata: SessionMetadata,
+    nextSequence: number
+  ) {
+    this.storage = storage;
+    this._metadata = metadata;
+    this.nextSequence = nextSequence;
+    this.writes = Promise.resolve();
+  }
+
+  /**
+   * Start a new session.
+   * @param storage - Storage backend
+   * @param options - Name and device configuration
+   * @returns The new session
+   */
+  public static async create(
+    storage: SessionStorage,
+    options: CreateSessionOptions = {}
+  ): Promise<MeasurementSession> {
+    const createdAt = new Date().toISOString();
+    const metadata: SessionMetadata = {
+      id: crypto.randomUUID(),
+      name: options.name ?? createdAt,
+      createdAt,
+      status: 'active',
+      ...(options.config !== undefined && { config: options.config }),
+    };
+    await storage.saveMetadata(metadata);
+    return new MeasurementSession(storage, metadata, 0);
+  }
+
+  /**
+   * Continue recording a stored session, e.g. after a reconnect or reload.
+   * A closed session is reopened.
+   * @param storage - Storage backend
+   * @param id - Session ID
+   * @returns The resumed session
+   * @throws CD48Error if the session does not exist
+   */
+  public static async resume(
+    storage: SessionStorage,
+    id: string
+  ): Promise<MeasurementSession> {
+    const stored = await storage.loadMetadata(id);
+    if (stored === null) {
+      throw new CD48Error(`No session with ID '${id}'`);
+    }
+    const records = await storage.loadRecords(id);
+    const last = records[records.length - 1];
+    const { closedAt: _closedAt, ...open } = stored;
+    const metadata: SessionMetadata = { ...open, status: 'active' };
+    if (stored.status !== 'active') {
+      await storage.saveMetadata(metadata);
+    }
+    return new MeasurementSession(
+      storage,
+      metadata,
+      last === undefined ? 0 : last.sequence + 1
+    );
+  }
+
+  /**
+   * Stored sessions, newest first.
+   * @param storage - Storage backend
+   * @returns Session metadata
+   */
+  public static async list(
+    storage: SessionStorage
+  ): Promise<SessionMetadata[]> {
+    const sessions = await storage.list();
+    return sessions.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Session ID.
+   */
+  public get id(): string {
+    return this._metadata.id;
+  }
+
+  /**
+   * Session metadata.
+   */
+  public get metadata(): SessionMetadata {
+    return this._metadata;
+  }
+
+  /**
+   * Number of records added, including those from before a resume.
+   */
+  public get recordCount(): number {
+    return this.nextSequence;
+  }
+
+  /**
+   * Record a counter read.
+   * @param data - Counts, e.g. from `getCounts()` or an acquisition sample
+   * @returns Resolves once the record is stored
+   */
+  public addCounts(data: CountData): Promise<SessionRecord> {
+    return this.add('count', {
+      counts: [...data.counts],
+      overflow: data.overflow,
+    });
+  }
+
+  /**
+   * Record a rate measurement.
+   * @param data - Result of `measureRate()`
+   * @returns Resolves once the record is stored
+   */
+  public addRate(data: RateMeasurement): Promise<SessionRecord> {
+    return this.add('rate', data);
+  }
+
+  /**
+   * Record a coincidence measurement.
+   * @param data - Result of `measureCoincidenceRate()`
+   * @returns Resolves once the record is stored
+   */
+  public addCoincidence(data: CoincidenceMeasurement): Promise<SessionRecord> {
+    return this.add('coincidence', data);
+  }
+
+  /**
+   * Change the device configuration stored with the session.
+   * @param config - New configuration
+   */
+  public async setConfig(config: DeviceConfig): Promise<void> {
+    await this.updateMetadata({ ...this._metadata, config });
+  }
+
+  /**
+   * All stored records, after pending writes have finished.
+   * @returns Records in sequence order
+   */
+  public async records(): Promise<SessionRecord[]> {
+    await this.flush();
+    return await this.storage.loadRecords(this.id);
+  }
+
+  /**
+   * Stored counter reads, ready for `DataExport.countsToCSV()`.
+   * @returns Count data in sequence order
+   */
+  public async counts(): Promise<CountData[]> {
+    return (await this.records())
+      .filter((r) => r.type === 'count')
+      .map((r) => r.data as CountData);
+  }
+
+  /**
+   * Stored rate measurements, ready for `DataExport.ratesToCSV()`.
+   * @returns Rate measurements in sequence order
+   */
+  public async rates(): Promise<RateMeasurement[]> {
+    return (await this.records())
+      .filter((r) => r.type === 'rate')
+      .map((r) => r.data as RateMeasurement);
+  }
+
+  /**
+   * Stored coincidence measurements, ready for
+   * `DataExport.coincidencesToCSV()`.
+   * @returns Coincidence measurements in sequence order
+   */
+  public async coincidences(): Promise<CoincidenceMeasurement[]> {
+    return (await this.records())
+      .filter((r) => r.type === 'coincidence')
+      .map((r) => r.data as CoincidenceMeasurement);
+  }
+
+  /**
+   * Wait for every record added so far to be stored.
+   */
+  public async flush(): Promise<void> {
+    await this.writes;
+  }
+
+  /**
+   * Mark the session closed after pending writes have finished.
+   */
+  public async close(): Promise<void> {
+    await this.flush();
+    await this.updateMetadata({
+      ...this._metadata,
+      status: 'closed',
+      closedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Queue a record for storage. Writes happen one at a time in sequence
+   * order; a failed write rejects its own promise only.
+   */
+  private add(
+    type: SessionRecord['type'],
+    data: SessionRecord['data']
+  ): Promise<SessionRecord> {
+    const record: SessionRecord = {
+      sequence: this.nextSequence++,
+      timestamp: new Date().toISOString(),
+      type,
+      data,
+    };
+    const write = this.writes.then(() => this.storage.append(this.id, record));
+    this.writes = write.catch(() => {});
+    return write.then(() => record);
+  }
+
+  /**
+   * Store new metadata.
+   */
+  private async updateMetadata(metadata: SessionMetadata): Promise<void> {
+    await this.storage.saveMetadata(metadata);
+    this._metadata = metadata;
+  }
+}
+
+/**
+ * Session storage kept in memory
+ */
+export class MemorySessionStorage implements SessionStorage {
+  private readonly sessions: Map<string, SessionMetadata>;
+  private readonly records: Map<string, SessionRecord[]>;
+
+  constructor() {
+    this.sessions = new Map();
+    this.records = new Map();
+  }
+
+  public async saveMetadata(metadata: SessionMetadata): Promise<void> {
+    this.sessions.set(metadata.id, structuredClone(metadata));
+  }
+
+  public async loadMetadata(id: string): Promise<SessionMetadata | null> {
+    const metadata = this.sessions.get(id);
+    return metadata === undefined ? null : structuredClone(metadata);
+  }
+
+  public async append(id: string, record: SessionRecord): Promise<void> {
+    const records = this.records.get(id) ?? [];
+    records.push(structuredClone(record));
+    this.records.set(id, records);
+  }
+
+  public async loadRecords(id: string): Promise<SessionRecord[]> {
+    return structuredClone(this.records.get(id) ?? []);
+  }
+
+  public async list(): Promise<SessionMetadata[]> {
+    return [...this.sessions.values()].map((m) => structuredClone(m));
+  }
+
+  public async delete(id: string): Promise<void> {
+    this.sessions.delete(id);
+    this.records.delete(id);
+  }
+}
+
+/**
+ * Stored record row: a session record tagged with its session ID
+ */
+interface StoredRecord extends SessionRecord {
+  readonly sessionId: string;
+}
+
+/**
+ * Session storage in the browser's IndexedDB. Each append is its own
+ * transaction and resolves only once the transaction has committed.
+ */
+export class IndexedDBSessionStorage implements SessionStorage {
+  private readonly dbName: string;
+  private db: Promise<IDBDatabase> | null;
+
+  /**
+   * @param dbName - Database name (default: 'cd48_sessions')
+   */
+  constructor(dbName = SESSION_DB_NAME) {
+    this.dbName = dbName;
+    this.db = null;
+  }
+
+  public async saveMetadata(metadata: SessionMetadata): Promise<void> {
+    await this.write(['sessions'], (tx) => {
+      tx.objectStore('sessions').put(metadata);
+    });
+  }
+
+  public async loadMetadata(id: string): Promise<SessionMetadata | null> {
+    const db = await this.open();
+    const tx = db.transaction('sessions', 'readonly');
+    const result = await requestToPromise<SessionMetadata | undefined>(
+      tx.objectStore('sessions').get(id)
+    );
+    return result ?? null;
+  }
+
+  public async append(id: string, record: SessionRecord): Promise<void> {
+    const row: StoredRecord = { ...record, sessionId: id };
+    await this.write(['records'], (tx) => {
+      tx.objectStore('records').put(row);
+    });
+  }
+
+  public async loadRecords(id: string): Promise<SessionRecord[]> {
+    const db = await this.open();
+    const tx = db.transaction('records', 'readonly');
+    const rows = await requestToPromise<StoredRecord[]>(
+      tx.objectStore('records').getAll(sessionRange(id))
+    );
+    return rows.map(({ sessionId: _sessionId, ...record }) => record);
+  }
+
+  public async list(): Promise<SessionMetadata[]> {
+    const db = await this.open();
+    const tx = db.transaction('sessions', 'readonly');
+    return await requestToPromise<SessionMetadata[]>(
+      tx.objectStore('sessions').getAll()
+    );
+  }
+
+  public async delete(id: string): Promise<void> {
+    await this.write(['sessions', 'records'], (tx) => {
+      tx.objectStore('sessions').delete(id);
+      tx.objectStore('records').delete(sessionRange(id));
+    });
+  }
+
+  /**
+   * Close the database connection.
+   */
+  public async close(): Promise<void> {
+    const db = this.db;
+    this.db = null;
+    if (db !== null) (await db).close();
+  }
+
+  /**
+   * Open (and on first use create) the database.
+   */
+  private open(): Promise<IDBDatabase> {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.reject(new CD48Error('IndexedDB is not available'));
+    }
+    this.db ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, SESSION_DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore('sessions', { keyPath: 'id' });
+        db.createObjectStore('records', { keyPath: ['sessionId', 'sequence'] });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        this.db = null;
+        reject(request.error ?? new CD48Error('Failed to open IndexedDB'));
+      };
+    });
+    return this.db;
+  }
+
+  /**
+   * Run a read-write transaction and wait for it to commit.
+   */
+  private async write(
+    stores: string[],
+    body: (tx: IDBTransaction) => void
+  ): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(stores, 'readwrite');
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error ?? new CD48Error('Write failed'));
+      tx.onabort = () => reject(tx.error ?? new CD48Error('Write aborted'));
+      body(tx);
+    });
+  }
+}
+
+/**
+ * Key range covering every record of a session.
+ */
+function sessionRange(id: string): IDBKeyRange {
+  return IDBKeyRange.bound([id, 0], [id, Number.MAX_SAFE_INTEGER]);
+}
+
+/**
+ * Resolve with the result of an IndexedDB request.
+ */
+function requestToPromise<T>(request: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () =>
+      reject(request.error ?? new CD48Error('IndexedDB request failed'));
+  });
+}
+
+/** Session IDs usable as file names */
+const SESSION_ID_PATTERN = /^[\w-]+$/;
+
+/**
+ * Session storage in a Node.js directory. Each session has a metadata file
+ * (`<id>.json`, replaced atomically) and an append-only records file
+ * (`<id>.jsonl`). A line cut short by a crash is skipped when loading.
+ */
+export class FileSessionStorage implements SessionStorage {
+  public readonly directory: string;
+
+  /**
+   * @param directory - Directory for session files (created if missing)
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  public async saveMetadata(metadata: SessionMetadata): Promise<void> {
+    const fs = await import('node:fs/promises');
+    const file = await this.path(metadata.id, '.json');
+    const temp = `${file}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(metadata));
+    await fs.rename(temp, file);
+  }
+
+  public async loadMetadata(id: string): Promise<SessionMetadata | null> {
+    const text = await this.readFile(await this.path(id, '.json'));
+    return text === null ? null : (JSON.parse(text) as SessionMetadata);
+  }
+
+  public async append(id: string, record: SessionRecord): Promise<void> {
+    const fs = await import('node:fs/promises');
+    const handle = await fs.open(await this.path(id, '.jsonl'), 'a+');
+    try {
+      // Start a fresh line after one cut short by a crash, so the partial
+      // line is skipped on loading without taking this record with it
+      const { size } = await handle.stat();
+      let separator = '';
+      if (size > 0) {
+        const last = new Uint8Array(1);
+        await handle.read(last, 0, 1, size - 1);
+        if (last[0] !== 0x0a) separator = '\n';
+      }
+      await handle.appendFile(`${separator}${JSON.stringify(record)}\n`);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+  }
+
+  public async loadRecords(id: string): Promise<SessionRecord[]> {
+    const text = await this.readFile(await this.path(id, '.jsonl'));
+    if (text === null) return [];
+    const records: SessionRecord[] = [];
+    for (const line of text.split('\n')) {
+      if (line === '') continue;
+      try {
+        records.push(JSON.parse(line) as SessionRecord);
+      } catch {
+        // Partial line from an interrupted write
+      }
+    }
+    return records;
+  }
+
+  public async list(): Promise<SessionMetadata[]> {
+    const fs = await import('node:fs/promises');
+    await fs.mkdir(this.directory, { recursive: true });
+    const files = await fs.readdir(this.directory);
+    const sessions: SessionMetadata[] = [];
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue;
+      const metadata = await this.loadMetadata(file.slice(0, -'.json'.length));
+      if (metadata !== null) sessions.push(metadata);
+    }
+    return sessions;
+  }
+
+  public async delete(id: string): Promise<void> {
+    const fs = await import('node:fs/promises');
+    await fs.rm(await this.path(id, '.json'), { force: true });
+    await fs.rm(await this.path(id, '.jsonl'), { force: true });
+  }
+
+  /**
+   * File path for a session, creating the directory if needed.
+   * @throws ValidationError if the ID is not usable as a file name
+   */
+  private async path(id: string, extension: string): Promise<string> {
+    if (!SESSION_ID_PATTERN.test(id)) {
+      throw new ValidationError('id', id, 'letters, digits, _ and - only');
+    }
+    const [fs, path] = await Promise.all([
+      import('node:fs/promises'),
+      import('node:path'),
+    ]);
+    await fs.mkdir(this.directory, { recursive: true });
+    return path.join(this.directory, `${id}${extension}`);
+  }
+
+  /**
+   * Read a text file, or null if it does not exist.
+   */
+  private async readFile(file: string): Promise<string | null> {
+    const fs = await import('node:fs/promises');
+    try {
+      return await fs.readFile(file, 'utf8');
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+}
+
+export default MeasurementSession;
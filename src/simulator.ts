@@ -0,0 +1,560 @@
+/**
+ * @fileoverview CD48 firmware simulator speaking the device's serial protocol
+ * @module simulator
+ *
+ * The simulator is a `CD48Transport`, so the real CD48 class can drive it
+ * exactly as it would drive hardware:
+ *
+ * @example
+ * const simulator = new CD48Simulator({
+ *   rates: { A: 1000, B: 800 },
+ *   correlated: [{ inputs: ['A', 'B'], rate: 50 }],
+ * });
+ * const cd48 = new CD48({ transport: simulator });
+ * await cd48.connect();
+ * const result = await cd48.measureCoincidenceRate({ duration: 5 });
+ *
+ * Protocol (every reply ends with `\r\n`):
+ * - `v` firmware version
+ * - `c` counts: `n0 n1 n2 n3 n4 n5 n6 n7 overflow`; clears the counters
+ * - `C` counts, one `ChN: value` line per counter plus `Overflow: N`; clears
+ * - `p` settings: eight `ABCD` input masks, trigger byte, DAC byte,
+ *   impedance (1 = 50 Ohm), repeat enabled (0/1), repeat interval in ms
+ * - `P` settings, human readable, one line per item
+ * - `S<ch><A><B><C><D>` set a counter's input mask, e.g. `S41100`
+ * - `L<byte>` trigger level, `V<byte>` DAC output
+ * - `z` 50 Ohm inputs, `Z` high impedance inputs
+ * - `r<ms>` repeat interval, `R` toggle repeat mode; while repeating the
+ *   `c` line is sent every interval without being asked
+ * - `E` overflow flags (bit N = counter N); clears them
+ * - `T` LED test, `H` help text
+ * Setters reply `OK`; unknown or malformed commands reply `ERR`.
+ */
+
+import {
+  COINCIDENCE_WINDOW_SECONDS,
+  DECIMAL_RADIX,
+  DEFAULT_REPEAT_INTERVAL_MS,
+  DEFAULT_TRIGGER_LEVEL_BYTE,
+  EXPECTED_CHANNEL_COUNT,
+  MILLISECONDS_PER_SECOND,
+  SIMULATOR_COUNTER_BITS,
+  SIMULATOR_FIRMWARE_VERSION,
+  SIMULATOR_SLICE_SECONDS,
+} from './constants.js';
+import { mulberry32 } from './random.js';
+import {
+  type CD48Transport,
+  LoopbackTransport,
+  type TransportDisconnectCallback,
+  type TransportReadResult,
+} from './transport.js';
+import {
+  BYTE_MAX,
+  REPEAT_INTERVAL_MAX,
+  REPEAT_INTERVAL_MIN,
+  VOLTAGE_MAX,
+} from './validation.js';
+
+/**
+ * Name of a physical CD48 input
+ */
+export type SimulatorInput = 'A' | 'B' | 'C' | 'D';
+
+/** Physical inputs in mask bit order */
+const INPUTS: ReadonlyArray<SimulatorInput> = ['A', 'B', 'C', 'D'];
+
+/** Line terminator used by the firmware */
+const EOL = '\r\n';
+
+/**
+ * Source producing simultaneous pulses on several inputs
+ * (e.g. a particle crossing two stacked scintillators)
+ */
+export interface CorrelatedSource {
+  /** Inputs that fire together for each event */
+  readonly inputs: ReadonlyArray<SimulatorInput>;
+  /** Event rate in events per second */
+  readonly rate: number;
+}
+
+/**
+ * Simulator options
+ */
+export interface CD48SimulatorOptions {
+  /** Independent Poisson pulse rate per input in counts/s (default: 0) */
+  rates?: Partial<Record<SimulatorInput, number>>;
+  /** Correlated sources shared between inputs (default: none) */
+  correlated?: ReadonlyArray<CorrelatedSource>;
+  /** Coincidence window in seconds (default: 25e-9) */
+  coincidenceWindow?: number;
+  /** Counter register width in bits (default: 32) */
+  counterBits?: number;
+  /** Version string returned by `v` */
+  firmwareVersion?: string;
+  /** Seed for a reproducible pulse sequence (default: Math.random) */
+  seed?: number;
+  /** Clock in milliseconds (default: performance.now) */
+  now?: () => number;
+}
+
+/**
+ * Snapshot of the simulated device settings
+ */
+export interface SimulatorSettings {
+  /** Input mask per counter, bit 0 = A ... bit 3 = D */
+  readonly channelMasks: ReadonlyArray<number>;
+  readonly triggerLevel: number;
+  readonly dacLevel: number;
+  readonly impedance50Ohm: boolean;
+  readonly repeatEnabled: boolean;
+  readonly repeatInterval: number;
+}
+
+/**
+ * Draw Poisson arrival times in [start, end)
+ * @param rate - Events per second
+ * @param start - Interval start (s)
+ * @param end - Interval end (s)
+ * @param random - Uniform generator
+ * @returns Sorted event times
+ */
+function poissonTimes(
+  rate: number,
+  start: number,
+  end: number,
+  random: () => number
+): number[] {
+  const times: number[] = [];
+  if (rate <= 0) return times;
+  let t = start - Math.log(1 - random()) / rate;
+  while (t < end) {
+    times.push(t);
+    t -= Math.log(1 - random()) / rate;
+  }
+  return times;
+}
+
+/**
+ * Count rising edges of the AND of several inputs whose pulses are each
+ * stretched to the coincidence window.
+ * @param inputs - Input indices selected by the counter
+ * @param pulses - Sorted pulse times per input
+ * @param lastPulse - Last pulse time per input (carried between slices)
+ * @param window - Coincidence window in seconds
+ * @returns Number of coincidences
+ */
+function countCoincidences(
+  inputs: ReadonlyArray<number>,
+  pulses: ReadonlyArray<ReadonlyArray<number>>,
+  lastPulse: number[],
+  window: number
+): number {
+  const cursors = inputs.map(() => 0);
+  const allActive = (t: number): boolean =>
+    inputs.every((input) => t - (lastPulse[input] ?? -Infinity) < window);
+  let count = 0;
+
+  for (;;) {
+    // Pick the earliest unprocessed pulse among the selected inputs
+    let next = -1;
+    let nextTime = Infinity;
+    inputs.forEach((input, k) => {
+      const t = pulses[input]?.[cursors[k] ?? 0];
+      if (t !== undefined && t < nextTime) {
+        nextTime = t;
+        next = k;
+      }
+    });
+    if (next === -1) break;
+
+    const input = inputs[next] ?? 0;
+    const wasHigh = allActive(nextTime);
+    lastPulse[input] = nextTime;
+    if (!wasHigh && allActive(nextTime)) count++;
+    cursors[next] = (cursors[next] ?? 0) + 1;
+  }
+  return count;
+}
+
+/**
+ * Simulated CD48 coincidence counter
+ */
+export class CD48Simulator implements CD48Transport {
+  private readonly loopback: LoopbackTransport;
+  private readonly rates: number[];
+  private correlated: CorrelatedSource[];
+  private readonly coincidenceWindow: number;
+  private readonly counterModulus: number;
+  private readonly firmwareVersion: string;
+  private readonly random: () => number;
+  private readonly now: () => number;
+  private readonly startTime: number;
+  private simulatedTime: number;
+  private readonly counters: number[];
+  private overflow: number;
+  private readonly lastPulse: number[][];
+  private readonly channelMasks: number[];
+  private triggerLevel: number;
+  private dacLevel: number;
+  private impedance50Ohm: boolean;
+  private repeatEnabled: boolean;
+  private repeatInterval: number;
+  private repeatTimer: ReturnType<typeof setInterval> | null;
+
+  /**
+   * Create a simulator.
+   * Counters 0-3 start on inputs A-D and counter 4 on A+B, matching the
+   * library's default coincidence channels; 5-7 start on A+C, B+C and A+B+C.
+   * @param options - Simulator options
+   */
+  constructor(options: CD48SimulatorOptions = {}) {
+    this.loopback = new LoopbackTransport({
+      responder: (command) => this.handleCommand(command),
+    });
+    this.rates = INPUTS.map((input) => options.rates?.[input] ?? 0);
+    this.correlated = [...(options.correlated ?? [])];
+    this.coincidenceWindow =
+      options.coincidenceWindow ?? COINCIDENCE_WINDOW_SECONDS;
+    this.counterModulus = 2 ** (options.counterBits ?? SIMULATOR_COUNTER_BITS);
+    this.firmwareVersion =
+      options.firmwareVersion ?? SIMULATOR_FIRMWARE_VERSION;
+    this.random =
+      options.seed === undefined ? Math.random : mulberry32(options.seed);
+    this.now = options.now ?? (() => performance.now());
+    this.startTime = this.now();
+    this.simulatedTime = 0;
+    this.counters = Array.from({ length: EXPECTED_CHANNEL_COUNT }, () => 0);
+    this.overflow = 0;
+    this.lastPulse = Array.from({ length: EXPECTED_CHANNEL_COUNT }, () =>
+      INPUTS.map(() => -Infinity)
+    );
+    this.channelMasks = [
+      0b0001, 0b0010, 0b0100, 0b1000, 0b0011, 0b0101, 0b0110, 0b0111,
+    ];
+    this.triggerLevel = DEFAULT_TRIGGER_LEVEL_BYTE;
+    this.dacLevel = 0;
+    this.impedance50Ohm = false;
+    this.repeatEnabled = false;
+    this.repeatInterval = DEFAULT_REPEAT_INTERVAL_MS;
+    this.repeatTimer = null;
+  }
+
+  /**
+   * Change the independent pulse rate of an input.
+   * Pulses generated so far keep the previous rate.
+   * @param input - Input name
+   * @param rate - Pulse rate in counts/s
+   */
+  public setRate(input: SimulatorInput, rate: number): void {
+    this.advance();
+    this.rates[INPUTS.indexOf(input)] = Math.max(0, rate);
+  }
+
+  /**
+   * Replace the correlated sources.
+   * @param sources - New correlated sources
+   */
+  public setCorrelatedSources(sources: ReadonlyArray<CorrelatedSource>): void {
+    this.advance();
+    this.correlated = [...sources];
+  }
+
+  /**
+   * Get the current device settings.
+   * @returns Settings snapshot
+   */
+  public getSettings(): SimulatorSettings {
+    return {
+      channelMasks: [...this.channelMasks],
+      triggerLevel: this.triggerLevel,
+      dacLevel: this.dacLevel,
+      impedance50Ohm: this.impedance50Ohm,
+      repeatEnabled: this.repeatEnabled,
+      repeatInterval: this.repeatInterval,
+    };
+  }
+
+  /**
+   * Execute one command line and produce the firmware's reply.
+   * @param command - Command without the trailing carriage return
+   * @returns Reply text including line terminators
+   */
+  public handleCommand(command: string): string {
+    const op = command.charAt(0);
+    const arg = command.slice(1).trim();
+
+    switch (op) {
+      case 'v':
+        return this.reply(this.firmwareVersion);
+      case 'c':
+        return this.reply(this.readCounts());
+      case 'C':
+        return this.readCountsHumanReadable();
+      case 'p':
+        return this.reply(this.formatSettings());
+      case 'P':
+        return this.formatSettingsHumanReadable();
+      case 'S':
+        return this.setChannelMask(arg);
+      case 'L':
+        return this.setByte(arg, (value) => {
+          this.triggerLevel = value;
+        });
+      case 'V':
+        return this.setByte(arg, (value) => {
+          this.dacLevel = value;
+        });
+      case 'z':
+        this.impedance50Ohm = true;
+        return this.reply('OK');
+      case 'Z':
+        this.impedance50Ohm = false;
+        return this.reply('OK');
+      case 'r':
+        return this.setRepeatInterval(arg);
+      case 'R':
+        this.repeatEnabled = !this.repeatEnabled;
+        this.updateRepeatTimer();
+        return this.reply('OK');
+      case 'E': {
+        this.advance();
+        const flags = this.overflow;
+        this.overflow = 0;
+        return this.reply(String(flags));
+      }
+      case 'T':
+        return this.reply('OK');
+      case 'H':
+        return this.helpText();
+      default:
+        return this.reply('ERR');
+    }
+  }
+
+  public async open(): Promise<void> {
+    await this.loopback.open();
+    this.updateRepeatTimer();
+  }
+
+  public async close(): Promise<void> {
+    this.stopRepeatTimer();
+    await this.loopback.close();
+  }
+
+  public isOpen(): boolean {
+    return this.loopback.isOpen();
+  }
+
+  public async write(data: string): Promise<void> {
+    await this.loopback.write(data);
+  }
+
+  public async read(): Promise<TransportReadResult> {
+    return this.loopback.read();
+  }
+
+  public onDisconnect(callback: TransportDisconnectCallback | null): void {
+    this.loopback.onDisconnect(callback);
+  }
+
+  /**
+   * Simulate the device being unplugged.
+   */
+  public simulateDisconnect(): void {
+    this.stopRepeatTimer();
+    this.loopback.simulateDisconnect();
+  }
+
+  /**
+   * Generate pulses up to the current clock time.
+   */
+  private advance(): void {
+    const target = (this.now() - this.startTime) / MILLISECONDS_PER_SECOND;
+    while (this.simulatedTime < target) {
+      const end = Math.min(
+        target,
+        this.simulatedTime + SIMULATOR_SLICE_SECONDS
+      );
+      this.simulateSlice(this.simulatedTime, end);
+      this.simulatedTime = end;
+    }
+  }
+
+  /**
+   * Generate pulses in [start, end) and update the counters.
+   * @param start - Slice start (s)
+   * @param end - Slice end (s)
+   */
+  private simulateSlice(start: number, end: number): void {
+    const pulses = this.rates.map((rate) =>
+      poissonTimes(rate, start, end, this.random)
+    );
+    for (const source of this.correlated) {
+      const times = poissonTimes(source.rate, start, end, this.random);
+      for (const input of new Set(source.inputs)) {
+        const index = INPUTS.indexOf(input);
+        pulses[index] = [...(pulses[index] ?? []), ...times].sort(
+          (a, b) => a - b
+        );
+      }
+    }
+
+    this.channelMasks.forEach((mask, channel) => {
+      const inputs = INPUTS.map((_, i) => i).filter((i) => (mask >> i) & 1);
+      let count = 0;
+      if (inputs.length === 1) {
+        count = pulses[inputs[0] ?? 0]?.length ?? 0;
+      } else if (inputs.length > 1) {
+        count = countCoincidences(
+          inputs,
+          pulses,
+          this.lastPulse[channel] ?? [],
+          this.coincidenceWindow
+        );
+      }
+      this.addCounts(channel, count);
+    });
+  }
+
+  /**
+   * Add counts to a register, wrapping and flagging on overflow.
+   * @param channel - Counter index
+   * @param count - Counts to add
+   */
+  private addCounts(channel: number, count: number): void {
+    const total = (this.counters[channel] ?? 0) + count;
+    if (total >= this.counterModulus) {
+      this.overflow |= 1 << channel;
+    }
+    this.counters[channel] = total % this.counterModulus;
+  }
+
+  /**
+   * Latch and clear the counters.
+   * @returns Machine-readable count line
+   */
+  private readCounts(): string {
+    this.advance();
+    const line = `${this.counters.join(' ')} ${this.overflow}`;
+    this.counters.fill(0);
+    return line;
+  }
+
+  private readCountsHumanReadable(): string {
+    this.advance();
+    const lines = this.counters.map((count, i) => `Ch${i}: ${count}`);
+    lines.push(`Overflow: ${this.overflow}`);
+    this.counters.fill(0);
+    return lines.map((line) => this.reply(line)).join('');
+  }
+
+  private formatSettings(): string {
+    const masks = this.channelMasks.map((mask) =>
+      INPUTS.map((_, i) => (mask >> i) & 1).join('')
+    );
+    return [
+      ...masks,
+      this.triggerLevel,
+      this.dacLevel,
+      this.impedance50Ohm ? 1 : 0,
+      this.repeatEnabled ? 1 : 0,
+      this.repeatInterval,
+    ].join(' ');
+  }
+
+  private formatSettingsHumanReadable(): string {
+    const toVolts = (byte: number): string =>
+      ((byte / BYTE_MAX) * VOLTAGE_MAX).toFixed(2);
+    const lines = this.channelMasks.map(
+      (mask, ch) =>
+        `Counter ${ch}: ${INPUTS.map((name, i) => `${name}=${(mask >> i) & 1}`).join(' ')}`
+    );
+    lines.push(
+      `Trigger level: ${this.triggerLevel} (${toVolts(this.triggerLevel)} V)`,
+      `DAC voltage: ${this.dacLevel} (${toVolts(this.dacLevel)} V)`,
+      `Impedance: ${this.impedance50Ohm ? '50 Ohm' : 'High-Z'}`,
+      `Repeat: ${this.repeatEnabled ? 'on' : 'off'}, interval ${this.repeatInterval} ms`
+    );
+    return lines.map((line) => this.reply(line)).join('');
+  }
+
+  private setChannelMask(arg: string): string {
+    if (!/^[0-7][01]{4}$/.test(arg)) {
+      return this.reply('ERR');
+    }
+    this.advance();
+    const channel = Number.parseInt(arg.charAt(0), DECIMAL_RADIX);
+    const bits = arg.slice(1);
+    this.channelMasks[channel] = INPUTS.reduce(
+      (mask, _, i) => mask | (bits.charAt(i) === '1' ? 1 << i : 0),
+      0
+    );
+    this.lastPulse[channel] = INPUTS.map(() => -Infinity);
+    return this.reply('OK');
+  }
+
+  private setByte(arg: string, apply: (value: number) => void): string {
+    const value = Number.parseInt(arg, DECIMAL_RADIX);
+    if (!/^\d+$/.test(arg) || value > BYTE_MAX) {
+      return this.reply('ERR');
+    }
+    apply(value);
+    return this.reply('OK');
+  }
+
+  private setRepeatInterval(arg: string): string {
+    const value = Number.parseInt(arg, DECIMAL_RADIX);
+    if (
+      !/^\d+$/.test(arg) ||
+      value < REPEAT_INTERVAL_MIN ||
+      value > REPEAT_INTERVAL_MAX
+    ) {
+      return this.reply('ERR');
+    }
+    this.repeatInterval = value;
+    this.updateRepeatTimer();
+    return this.reply('OK');
+  }
+
+  private helpText(): string {
+    return [
+      'CD48 Coincidence Counter commands:',
+      'v  firmware version',
+      'c  counts (machine readable), C  counts (human readable)',
+      'p  settings (machine readable), P  settings (human readable)',
+      'Snabcd  set counter n inputs A-D (0/1 each)',
+      'Lxxx  trigger level byte, Vxxx  DAC byte',
+      'z  50 Ohm inputs, Z  high impedance inputs',
+      'rxxxxx  repeat interval (ms), R  toggle repeat',
+      'E  overflow flags, T  LED test, H  this help',
+    ]
+      .map((line) => this.reply(line))
+      .join('');
+  }
+
+  private reply(text: string): string {
+    return `${text}${EOL}`;
+  }
+
+  /**
+   * Start, restart or stop the repeat timer to match the settings.
+   */
+  private updateRepeatTimer(): void {
+    this.stopRepeatTimer();
+    if (this.repeatEnabled && this.loopback.isOpen()) {
+      this.repeatTimer = setInterval(() => {
+        this.loopback.push(this.reply(this.readCounts()));
+      }, this.repeatInterval);
+    }
+  }
+
+  private stopRepeatTimer(): void {
+    if (this.repeatTimer !== null) {
+      clearInterval(this.repeatTimer);
+      this.repeatTimer = null;
+    }
+  }
+}
+
+export default CD48Simulator;
@@ -0,0 +1,264 @@
+/**
+ * @fileoverview Special functions for the statistical tests
+ * @module special-functions
+ *
+ * Log-gamma, regularized incomplete gamma and beta functions and the
+ * distributions built on them. These back the confidence intervals and
+ * p-values in the analysis module and are not part of the public API.
+ *
+ * @example
+ * chiSquareSf(12.6, 6); // p-value of chi-square 12.6 with 6 dof (~0.05)
+ * normalQuantile(0.975); // ~1.96
+ */
+
+import {
+  SPECIAL_FUNCTION_MAX_ITERATIONS,
+  SPECIAL_FUNCTION_TOLERANCE,
+} from './constants.js';
+
+/** Lanczos coefficients for g = 7, n = 9 */
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028,
+  771.32342877765313, -176.61502916214059, 12.507343278686905,
+  -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+/** Smallest positive double, guards divisions in continued fractions */
+const TINY = 1e-300;
+
+/**
+ * Natural log of the gamma function (Lanczos approximation).
+ * @param x - Argument > 0
+ */
+export function lnGamma(x: number): number {
+  if (x < 0.5) {
+    // Reflection formula
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - lnGamma(1 - x);
+  }
+  const z = x - 1;
+  let sum = LANCZOS[0] ?? 0;
+  for (let i = 1; i < LANCZOS.length; i++) {
+    sum += (LANCZOS[i] ?? 0) / (z + i);
+  }
+  const t = z + 7.5;
+  return (
+    0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum)
+  );
+}
+
+/**
+ * Regularized lower incomplete gamma function P(a, x).
+ * @param a - Shape > 0
+ * @param x - Argument >= 0
+ */
+export function gammaP(a: number, x: number): number {
+  if (x <= 0) return 0;
+  return x < a + 1 ? gammaSeries(a, x) : 1 - gammaContinuedFraction(a, x);
+}
+
+/**
+ * Regularized upper incomplete gamma function Q(a, x) = 1 - P(a, x).
+ * @param a - Shape > 0
+ * @param x - Argument >= 0
+ */
+export function gammaQ(a: number, x: number): number {
+  if (x <= 0) return 1;
+  return x < a + 1 ? 1 - gammaSeries(a, x) : gammaContinuedFraction(a, x);
+}
+
+/**
+ * Series expansion of P(a, x), converging for x < a + 1.
+ */
+function gammaSeries(a: number, x: number): number {
+  let term = 1 / a;
+  let sum = term;
+  for (let n = 1; n < SPECIAL_FUNCTION_MAX_ITERATIONS; n++) {
+    term *= x / (a + n);
+    sum += term;
+    if (Math.abs(term) < Math.abs(sum) * SPECIAL_FUNCTION_TOLERANCE) break;
+  }
+  return sum * Math.exp(-x + a * Math.log(x) - lnGamma(a));
+}
+
+/**
+ * Continued fraction for Q(a, x) (modified Lentz), converging for x >= a + 1.
+ */
+function gammaContinuedFraction(a: number, x: number): number {
+  let b = x + 1 - a;
+  let c = 1 / TINY;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < SPECIAL_FUNCTION_MAX_ITERATIONS; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = b + an / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < SPECIAL_FUNCTION_TOLERANCE) break;
+  }
+  return Math.exp(-x + a * Math.log(x) - lnGamma(a)) * h;
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b).
+ * @param x - Argument in [0, 1]
+ * @param a - Shape > 0
+ * @param b - Shape > 0
+ */
+export function betaI(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(
+    lnGamma(a + b) -
+      lnGamma(a) -
+      lnGamma(b) +
+      a * Math.log(x) +
+      b * Math.log(1 - x)
+  );
+  // The continued fraction converges fastest below the mean
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+/**
+ * Continued fraction for the incomplete beta function (modified Lentz).
+ */
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < TINY) d = TINY;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m < SPECIAL_FUNCTION_MAX_ITERATIONS; m++) {
+    const m2 = 2 * m;
+    // Even step
+    let an = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + an * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + an / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    h *= d * c;
+    // Odd step
+    an = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + an * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + an / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < SPECIAL_FUNCTION_TOLERANCE) break;
+  }
+  return h;
+}
+
+/**
+ * Chi-square cumulative distribution function.
+ * @param x - Statistic
+ * @param dof - Degrees of freedom > 0
+ */
+export function chiSquareCdf(x: number, dof: number): number {
+  return gammaP(dof / 2, x / 2);
+}
+
+/**
+ * Chi-square survival function (upper-tail p-value).
+ * @param x - Statistic
+ * @param dof - Degrees of freedom > 0
+ */
+export function chiSquareSf(x: number, dof: number): number {
+  return gammaQ(dof / 2, x / 2);
+}
+
+/**
+ * Chi-square quantile: the x with chiSquareCdf(x, dof) = p.
+ * @param p - Probability in (0, 1)
+ * @param dof - Degrees of freedom > 0
+ */
+export function chiSquareQuantile(p: number, dof: number): number {
+  let high = Math.max(1, dof);
+  while (chiSquareCdf(high, dof) < p) high *= 2;
+  return bisect((x) => chiSquareCdf(x, dof) - p, 0, high);
+}
+
+/**
+ * Standard normal cumulative distribution function.
+ * @param z - Standard score
+ */
+export function normalCdf(z: number): number {
+  // erfc(|z|/sqrt 2) = Q(1/2, z^2/2)
+  const tail = 0.5 * gammaQ(0.5, (z * z) / 2);
+  return z < 0 ? tail : 1 - tail;
+}
+
+/**
+ * Standard normal quantile.
+ * @param p - Probability in (0, 1)
+ */
+export function normalQuantile(p: number): number {
+  let bound = 1;
+  while (normalCdf(bound) < p || normalCdf(-bound) > p) bound *= 2;
+  return bisect((z) => normalCdf(z) - p, -bound, bound);
+}
+
+/**
+ * Natural log of the Poisson probability of k events with mean mu.
+ * @param k - Count (integer >= 0)
+ * @param mu - Mean >= 0
+ */
+export function logPoissonPmf(k: number, mu: number): number {
+  if (mu === 0) return k === 0 ? 0 : Number.NEGATIVE_INFINITY;
+  return k * Math.log(mu) - mu - lnGamma(k + 1);
+}
+
+/**
+ * Binomial cumulative probability P(X <= k) for X ~ Binomial(n, p).
+ * @param k - Successes
+ * @param n - Trials
+ * @param p - Success probability
+ */
+export function binomialCdf(k: number, n: number, p: number): number {
+  if (k < 0) return 0;
+  if (k >= n) return 1;
+  return betaI(1 - p, n - k, k + 1);
+}
+
+/**
+ * Find a root of an increasing function by bisection.
+ * @param f - Function with f(low) <= 0 <= f(high)
+ * @param low - Lower bracket
+ * @param high - Upper bracket
+ */
+function bisect(f: (x: number) => number, low: number, high: number): number {
+  let lo = low;
+  let hi = high;
+  for (let i = 0; i < SPECIAL_FUNCTION_MAX_ITERATIONS; i++) {
+    const mid = (lo + hi) / 2;
+    if (f(mid) < 0) lo = mid;
+    else hi = mid;
+    if (hi - lo <= SPECIAL_FUNCTION_TOLERANCE * Math.max(1, Math.abs(mid))) {
+      break;
+    }
+  }
+  return (lo + hi) / 2;
+}
+
+export default {
+  lnGamma,
+  gammaP,
+  gammaQ,
+  betaI,
+  chiSquareCdf,
+  chiSquareSf,
+  chiSquareQuantile,
+  normalCdf,
+  normalQuantile,
+  logPoissonPmf,
+  binomialCdf,
+};
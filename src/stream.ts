@@ -0,0 +1,208 @@
+/**
+ * @fileoverview Count streams fed by the firmware's automatic repeat mode
+ * @module stream
+ *
+ * @example
+ * const stream = await cd48.stream({ intervalMs: 500 });
+ * for await (const sample of stream) {
+ *   console.log(sample.timestamp, sample.counts);
+ *   if (done) break; // Turns repeat mode off again
+ * }
+ */
+
+import type { CountData } from './cd48.js';
+import { STREAM_BUFFER_SIZE } from './constants.js';
+
+/**
+ * Options for `cd48.stream()`
+ */
+export interface StreamOptions {
+  /** Repeat interval in milliseconds (100-65535, default: 1000) */
+  intervalMs?: number;
+  /** Stops the stream when aborted */
+  signal?: AbortSignal;
+  /** Samples kept for a slow consumer before the oldest are dropped */
+  bufferSize?: number;
+}
+
+/**
+ * Counts pushed by the device in repeat mode
+ */
+export interface TimestampedCounts extends CountData {
+  /** Time the line was received (ms since epoch) */
+  readonly timestamp: number;
+  /** Position in the stream, starting at 0 */
+  readonly sequence: number;
+  /** Repeat interval the counts were accumulated over (ms) */
+  readonly intervalMs: number;
+}
+
+/**
+ * Async iterable of counts streamed by the device.
+ *
+ * Breaking out of a `for await` loop, calling `stop()` or aborting the
+ * signal turns repeat mode off and returns the device to command/response
+ * mode.
+ */
+export class CountStream implements AsyncIterable<TimestampedCounts> {
+  public readonly intervalMs: number;
+  private readonly bufferSize: number;
+  private readonly buffer: TimestampedCounts[];
+  private readonly stopDevice: () => Promise<void>;
+  private readonly signal: AbortSignal | undefined;
+  private readonly onAbort: () => void;
+  private waiter: ((result: IteratorResult<TimestampedCounts>) => void) | null;
+  private failWaiter: ((error: Error) => void) | null;
+  private error: Error | null;
+  private ended: boolean;
+  private stopping: Promise<void> | null;
+  private sequence: number;
+  private _dropped: number;
+
+  /**
+   * Create a stream. Used by `CD48.stream()`.
+   * @param intervalMs - Repeat interval in milliseconds
+   * @param stopDevice - Turns repeat mode off on the device
+   * @param options - Buffer size and abort signal
+   * @internal
+   */
+  constructor(
+    intervalMs: number,
+    stopDevice: () => Promise<void>,
+    options: StreamOptions = {}
+  ) {
+    this.intervalMs = intervalMs;
+    this.bufferSize = options.bufferSize ?? STREAM_BUFFER_SIZE;
+    this.buffer = [];
+    this.stopDevice = stopDevice;
+    this.waiter = null;
+    this.failWaiter = null;
+    this.error = null;
+    this.ended = false;
+    this.stopping = null;
+    this.sequence = 0;
+    this._dropped = 0;
+
+    this.signal = options.signal;
+    this.onAbort = () => {
+      // Errors turning repeat mode off surface from the next stop() call
+      this.stop().catch(() => {});
+    };
+    this.signal?.addEventListener('abort', this.onAbort, { once: true });
+  }
+
+  /**
+   * Whether the stream is still receiving samples.
+   */
+  public get active(): boolean {
+    return !this.ended;
+  }
+
+  /**
+   * Samples discarded because the consumer fell behind.
+   */
+  public get dropped(): number {
+    return this._dropped;
+  }
+
+  /**
+   * Turn repeat mode off and end the stream.
+   * Safe to call more than once.
+   */
+  public async stop(): Promise<void> {
+    this.stopping ??= this.stopDevice().finally(() => this.end());
+    await this.stopping;
+  }
+
+  /**
+   * Deliver counts received from the device.
+   * @param data - Parsed count line
+   * @internal
+   */
+  public push(data: CountData): void {
+    if (this.ended) return;
+    const sample: TimestampedCounts = {
+      ...data,
+      timestamp: Date.now(),
+      sequence: this.sequence++,
+      intervalMs: this.intervalMs,
+    };
+    if (this.waiter !== null) {
+      const resolve = this.waiter;
+      this.waiter = null;
+      this.failWaiter = null;
+      resolve({ value: sample, done: false });
+      return;
+    }
+    this.buffer.push(sample);
+    if (this.buffer.length > this.bufferSize) {
+      this.buffer.shift();
+      this._dropped++;
+    }
+  }
+
+  /**
+   * End the stream with an error once buffered samples are consumed.
+   * @param error - Cause
+   * @internal
+   */
+  public fail(error: Error): void {
+    if (this.ended) return;
+    this.error = error;
+    this.ended = true;
+    this.signal?.removeEventListener('abort', this.onAbort);
+    if (this.failWaiter !== null) {
+      const reject = this.failWaiter;
+      this.waiter = null;
+      this.failWaiter = null;
+      reject(error);
+    }
+  }
+
+  /**
+   * End the stream normally.
+   * @internal
+   */
+  public end(): void {
+    if (this.ended) return;
+    this.ended = true;
+    this.signal?.removeEventListener('abort', this.onAbort);
+    if (this.waiter !== null) {
+      const resolve = this.waiter;
+      this.waiter = null;
+      this.failWaiter = null;
+      resolve({ value: undefined, done: true });
+    }
+  }
+
+  public [Symbol.asyncIterator](): AsyncIterator<TimestampedCounts> {
+    return {
+      next: () => this.next(),
+      return: async () => {
+        await this.stop();
+        return { value: undefined, done: true };
+      },
+    };
+  }
+
+  private async next(): Promise<IteratorResult<TimestampedCounts>> {
+    const sample = this.buffer.shift();
+    if (sample !== undefined) {
+      return { value: sample, done: false };
+    }
+    if (this.error !== null) {
+      const error = this.error;
+      this.error = null;
+      throw error;
+    }
+    if (this.ended) {
+      return { value: undefined, done: true };
+    }
+    return new Promise((resolve, reject) => {
+      this.waiter = resolve;
+      this.failWaiter = reject;
+    });
+  }
+}
+
+export default CountStream;
@@ -0,0 +1,433 @@
+/**
+ * @fileoverview Parameter sweeps such as plateau and delay curves
+ * @module sweep
+ *
+ * A sweep steps through a list of parameter values. At each point a setup
+ * hook applies the value (a trigger level, a DAC voltage, or anything else
+ * such as moving a detector), the sweep waits for the setup to settle, and
+ * then measures a count rate or a coincidence rate.
+ *
+ * @example
+ * const sweep = Sweep.triggerLevel(cd48, [0.1, 0.2, 0.3, 0.4], {
+ *   measure: { type: 'rate', channel: 0, duration: 10 },
+ * });
+ * sweep.on('progress', (p) => console.log(`${p.completed}/${p.total}`));
+ * const result = await sweep.run();
+ * DataExport.download(DataExport.tableToCSV(result), 'plateau.csv', 'csv');
+ */
+
+import type CD48 from './cd48.js';
+import type {
+  CoincidenceMeasurement,
+  CoincidenceMeasurementOptions,
+  RateMeasurement,
+} from './cd48.js';
+import {
+  DEFAULT_MEASUREMENT_DURATION,
+  DEFAULT_SETTLING_TIME_MS,
+} from './constants.js';
+import { CD48Error, OperationAbortedError, ValidationError } from './errors.js';
+import { TypedEventEmitter } from './events.js';
+import type { DataTable, TableValue } from './export.js';
+
+/**
+ * Sweep parameter value
+ */
+export type SweepParameter = number | string;
+
+/**
+ * Measurement taken at each sweep point
+ */
+export type SweepMeasure =
+  | {
+      type: 'rate';
+      /** Channel number (default: 0) */
+      channel?: number;
+      /** Measurement duration in seconds (default: 1) */
+      duration?: number;
+    }
+  | ({ type: 'coincidence' } & Omit<CoincidenceMeasurementOptions, 'signal'>);
+
+/**
+ * Sweep options
+ */
+export interface SweepOptions<P extends SweepParameter> {
+  /** Parameter values, measured in order */
+  points: ReadonlyArray<P>;
+  /** Applies a parameter value before it is measured */
+  setup: (parameter: P, index: number) => Promise<void> | void;
+  /** What to measure (default: rate on channel 0) */
+  measure?: SweepMeasure;
+  /** Wait after setup before measuring, in ms (default: 100) */
+  settlingMs?: number;
+  /** Name of the parameter column (default: 'parameter') */
+  parameterName?: string;
+  /** Stops the sweep when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for the built-in trigger level and DAC voltage sweeps
+ */
+export type VoltageSweepOptions = Omit<
+  SweepOptions<number>,
+  'points' | 'setup' | 'parameterName'
+>;
+
+/**
+ * Measurement at one sweep point
+ */
+export interface SweepPoint<P extends SweepParameter> {
+  /** Point number, starting at 0 */
+  readonly index: number;
+  /** Parameter value */
+  readonly parameter: P;
+  /** Wall-clock time the measurement finished (ms since epoch) */
+  readonly timestamp: number;
+  /** Rate or coincidence measurement */
+  readonly measurement: RateMeasurement | CoincidenceMeasurement;
+}
+
+/**
+ * Progress after each measured point
+ */
+export interface SweepProgress {
+  /** Points measured */
+  readonly completed: number;
+  /** Points in the sweep */
+  readonly total: number;
+  /** completed / total */
+  readonly fraction: number;
+}
+
+/**
+ * Sweep result, one row per measured point. Pass it straight to
+ * `DataExport.tableToCSV()`, `tableToJSON()` or `tableToMAT()`.
+ */
+export interface SweepResult<P extends SweepParameter> extends DataTable {
+  /** Measurement type */
+  readonly type: SweepMeasure['type'];
+  /** Measured points */
+  readonly points: ReadonlyArray<SweepPoint<P>>;
+  /** False if the sweep was stopped before the last point */
+  readonly complete: boolean;
+}
+
+/**
+ * Events emitted by Sweep
+ */
+export interface SweepEvents<P extends SweepParameter> {
+  point: SweepPoint<P>;
+  progress: SweepProgress;
+  pause: { readonly index: number };
+  resume: { readonly index: number };
+}
+
+/**
+ * Table columns for each measurement type
+ */
+const RATE_COLUMNS = [
+  'counts',
+  'duration',
+  'rate',
+  'uncertainty_rate',
+  'overflowed',
+] as const;
+
+const COINCIDENCE_COLUMNS = [
+  'singlesA',
+  'singlesB',
+  'coincidences',
+  'duration',
+  'rateA',
+  'rateB',
+  'coincidenceRate',
+  'accidentalRate',
+  'trueCoincidenceRate',
+  'unc_trueCoincidenceRate',
+  'overflowed',
+] as const;
+
+/**
+ * Runs a measurement at each value of a parameter
+ */
+export class Sweep<P extends SweepParameter = number> extends TypedEventEmitter<
+  SweepEvents<P>
+> {
+  private readonly cd48: CD48;
+  private readonly points: ReadonlyArray<P>;
+  private readonly setup: SweepOptions<P>['setup'];
+  private readonly measure: SweepMeasure;
+  private readonly settlingMs: number;
+  private readonly parameterName: string;
+  private readonly signal: AbortSignal | undefined;
+  private controller: AbortController | null;
+  private _paused: boolean;
+  private resumeWaiter: (() => void) | null;
+
+  /**
+   * Create a sweep.
+   * @param cd48 - Connected device
+   * @param options - Sweep options
+   * @throws ValidationError if there are no points or settlingMs is negative
+   */
+  constructor(cd48: CD48, options: SweepOptions<P>) {
+    super();
+    if (options.points.length === 0) {
+      throw new ValidationError('points', '[]', 'must not be empty');
+    }
+    const settlingMs = options.settlingMs ?? DEFAULT_SETTLING_TIME_MS;
+    if (!(settlingMs >= 0)) {
+      throw new ValidationError('settlingMs', settlingMs, 'must be >= 0');
+    }
+    this.cd48 = cd48;
+    this.points = [...options.points];
+    this.setup = options.setup;
+    this.measure = options.measure ?? { type: 'rate' };
+    this.settlingMs = settlingMs;
+    this.parameterName = options.parameterName ?? 'parameter';
+    this.signal = options.signal;
+    this.controller = null;
+    this._paused = false;
+    this.resumeWaiter = null;
+  }
+
+  /**
+   * Sweep the trigger level.
+   * @param cd48 - Connected device
+   * @param levels - Trigger levels in volts
+   * @param options - Measurement, settling and abort options
+   * @returns Sweep with a `triggerLevel` parameter column
+   */
+  public static triggerLevel(
+    cd48: CD48,
+    levels: ReadonlyArray<number>,
+    options: VoltageSweepOptions = {}
+  ): Sweep<number> {
+    return new Sweep(cd48, {
+      ...options,
+      points: levels,
+      setup: async (level) => {
+        await cd48.setTriggerLevel(level);
+      },
+      parameterName: 'triggerLevel',
+    });
+  }
+
+  /**
+   * Sweep the DAC output voltage.
+   * @param cd48 - Connected device
+   * @param voltages - DAC voltages in volts
+   * @param options - Measurement, settling and abort options
+   * @returns Sweep with a `dacVoltage` parameter column
+   */
+  public static dacVoltage(
+    cd48: CD48,
+    voltages: ReadonlyArray<number>,
+    options: VoltageSweepOptions = {}
+  ): Sweep<number> {
+    return new Sweep(cd48, {
+      ...options,
+      points: voltages,
+      setup: async (voltage) => {
+        await cd48.setDacVoltage(voltage);
+      },
+      parameterName: 'dacVoltage',
+    });
+  }
+
+  /**
+   * Whether the sweep is running.
+   */
+  public get running(): boolean {
+    return this.controller !== null;
+  }
+
+  /**
+   * Whether the sweep is paused.
+   */
+  public get paused(): boolean {
+    return this._paused;
+  }
+
+  /**
+   * Measure every point in order.
+   * Stopping or aborting ends the sweep early; the points measured so far
+   * are still returned, with `complete` set to false.
+   * @returns Sweep result
+   * @throws CD48Error if already running
+   * @throws OperationAbortedError if the signal is already aborted
+   */
+  public async run(): Promise<SweepResult<P>> {
+    if (this.controller !== null) {
+      throw new CD48Error('Sweep already running');
+    }
+    if (this.signal?.aborted === true) {
+      throw new OperationAbortedError('sweep');
+    }
+
+    const controller = new AbortController();
+    this.controller = controller;
+    const onAbort = (): void => controller.abort();
+    this.signal?.addEventListener('abort', onAbort, { once: true });
+
+    const measured: SweepPoint<P>[] = [];
+    try {
+      for (const [index, parameter] of this.points.entries()) {
+        await this.waitWhilePaused(index, controller.signal);
+        if (controller.signal.aborted) break;
+
+        await this.setup(parameter, index);
+        const measurement = await this.settleAndMeasure(controller.signal);
+        if (measurement === null) break;
+
+        const point: SweepPoint<P> = {
+          index,
+          parameter,
+          timestamp: Date.now(),
+          measurement,
+        };
+        measured.push(point);
+        this.emit('point', point);
+        this.emit('progress', {
+          completed: measured.length,
+          total: this.points.length,
+          fraction: measured.length / this.points.length,
+        });
+      }
+    } finally {
+      this.signal?.removeEventListener('abort', onAbort);
+      this.controller = null;
+      this._paused = false;
+      this.resumeWaiter = null;
+    }
+
+    return this.toResult(measured);
+  }
+
+  /**
+   * Pause after the current point. Has no effect unless running.
+   */
+  public pause(): void {
+    if (this.controller === null) return;
+    this._paused = true;
+  }
+
+  /**
+   * Continue a paused sweep.
+   */
+  public resume(): void {
+    this._paused = false;
+    const waiter = this.resumeWaiter;
+    this.resumeWaiter = null;
+    waiter?.();
+  }
+
+  /**
+   * Stop the sweep. The pending run() promise resolves with the points
+   * measured so far.
+   */
+  public stop(): void {
+    this.controller?.abort();
+  }
+
+  /**
+   * Block while paused, emitting pause/resume around the wait.
+   * @param index - Next point
+   * @param signal - Internal stop signal
+   */
+  private async waitWhilePaused(
+    index: number,
+    signal: AbortSignal
+  ): Promise<void> {
+    if (!this._paused || signal.aborted) return;
+    this.emit('pause', { index });
+    let onAbort = (): void => {};
+    await new Promise<void>((resolve) => {
+      this.resumeWaiter = resolve;
+      onAbort = resolve;
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+    // Resumed waits would otherwise leave one listener per pause
+    signal.removeEventListener('abort', onAbort);
+    if (!signal.aborted) {
+      this.emit('resume', { index });
+    }
+  }
+
+  /**
+   * Wait for the setup to settle and take the measurement.
+   * @param signal - Internal stop signal
+   * @returns Measurement, or null if stopped
+   */
+  private async settleAndMeasure(
+    signal: AbortSignal
+  ): Promise<RateMeasurement | CoincidenceMeasurement | null> {
+    try {
+      await this.cd48.sleepWithAbort(this.settlingMs, signal);
+      if (this.measure.type === 'rate') {
+        return await this.cd48.measureRate(
+          this.measure.channel ?? 0,
+          this.measure.duration ?? DEFAULT_MEASUREMENT_DURATION,
+          { signal }
+        );
+      }
+      const { type: _type, ...options } = this.measure;
+      return await this.cd48.measureCoincidenceRate({ ...options, signal });
+    } catch (error) {
+      if (error instanceof OperationAbortedError && signal.aborted) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Build the result table.
+   * @param measured - Measured points
+   */
+  private toResult(measured: SweepPoint<P>[]): SweepResult<P> {
+    const type = this.measure.type;
+    const columns =
+      type === 'rate'
+        ? [this.parameterName, ...RATE_COLUMNS]
+        : [this.parameterName, ...COINCIDENCE_COLUMNS];
+    const rows = measured.map((point): TableValue[] => {
+      const m = point.measurement;
+      if ('channel' in m) {
+        return [
+          point.parameter,
+          m.counts,
+          m.duration,
+          m.rate,
+          m.uncertainty.rate,
+          m.overflowed,
+        ];
+      }
+      return [
+        point.parameter,
+        m.singlesA,
+        m.singlesB,
+        m.coincidences,
+        m.duration,
+        m.rateA,
+        m.rateB,
+        m.coincidenceRate,
+        m.accidentalRate,
+        m.trueCoincidenceRate,
+        m.uncertainty.trueCoincidenceRate,
+        m.overflowed,
+      ];
+    });
+
+    return {
+      type,
+      columns,
+      rows,
+      points: measured,
+      complete: measured.length === this.points.length,
+    };
+  }
+}
+
+export default Sweep;
@@ -0,0 +1,435 @@
+/**
+ * @fileoverview Protocol trace recording and replay
+ * @module trace
+ *
+ * A ProtocolTrace records everything that crosses the transport: each
+ * command written, each chunk read, and each failed attempt, with
+ * high-resolution timestamps. Traces export to JSONL so they can be
+ * attached to bug reports, and a ReplayTransport feeds a recorded trace
+ * back into CD48 to reproduce the session in a unit test.
+ *
+ * @example
+ * const trace = new ProtocolTrace();
+ * const cd48 = new CD48({ trace });
+ * await cd48.connect();
+ * await cd48.getCounts();
+ * DataExport.download(trace.toJSONL(), 'cd48-trace.jsonl', 'json');
+ *
+ * // Later, in a test
+ * const replay = new ReplayTransport(ProtocolTrace.fromJSONL(text));
+ * const device = new CD48({ transport: replay });
+ */
+
+import {
+  ConnectionError,
+  NotConnectedError,
+  ReplayMismatchError,
+  ValidationError,
+} from './errors.js';
+import {
+  type CD48Transport,
+  ChunkQueue,
+  type TransportDisconnectCallback,
+  type TransportReadResult,
+} from './transport.js';
+
+/**
+ * What a trace entry records
+ */
+export type TraceDirection = 'write' | 'read' | 'error';
+
+/**
+ * Error captured in a trace
+ */
+export interface TraceError {
+  /** Error class name */
+  readonly name: string;
+  /** Error message */
+  readonly message: string;
+}
+
+/**
+ * Command a trace entry belongs to
+ */
+export interface TraceContext {
+  /** Command in flight, without the trailing carriage return */
+  readonly command: string;
+  /** Attempt number, starting at 1 */
+  readonly attempt: number;
+}
+
+/**
+ * One recorded event
+ */
+export interface TraceEntry {
+  /** Milliseconds since the trace started */
+  readonly time: number;
+  /** Write, read or failed attempt */
+  readonly direction: TraceDirection;
+  /** Raw text written or read (empty for errors) */
+  readonly data: string;
+  /** Command in flight, if any */
+  readonly command?: string;
+  /** Attempt number of the command in flight */
+  readonly attempt?: number;
+  /** Error details for 'error' entries */
+  readonly error?: TraceError;
+}
+
+/**
+ * Protocol trace options
+ */
+export interface ProtocolTraceOptions {
+  /** Keep only the most recent entries (default: unlimited) */
+  maxEntries?: number;
+  /** Clock in ms (default: performance.now) */
+  now?: () => number;
+}
+
+/**
+ * Replay transport options
+ */
+export interface ReplayTransportOptions {
+  /**
+   * 'recorded' delivers each read after the delay recorded since the write
+   * before it; 'immediate' delivers replies as soon as the command is
+   * written (default: 'recorded')
+   */
+  timing?: 'recorded' | 'immediate';
+}
+
+const DIRECTIONS: ReadonlyArray<string> = ['write', 'read', 'error'];
+
+/**
+ * Records the traffic between CD48 and its transport.
+ * Pass it as the `trace` option of CD48; recording is off otherwise.
+ */
+export class ProtocolTrace {
+  /** Set to false to pause recording */
+  public enabled: boolean;
+  private readonly maxEntries: number;
+  private readonly now: () => number;
+  private _entries: TraceEntry[];
+  private origin: number;
+  private _startedAt: number;
+
+  /**
+   * Create an empty trace.
+   * @param options - Trace options
+   * @throws ValidationError if maxEntries is not a positive integer
+   */
+  constructor(options: ProtocolTraceOptions = {}) {
+    const maxEntries = options.maxEntries ?? Number.POSITIVE_INFINITY;
+    if (
+      maxEntries !== Number.POSITIVE_INFINITY &&
+      !(Number.isInteger(maxEntries) && maxEntries > 0)
+    ) {
+      throw new ValidationError(
+        'maxEntries',
+        maxEntries,
+        'must be a positive integer'
+      );
+    }
+    this.enabled = true;
+    this.maxEntries = maxEntries;
+    this.now = options.now ?? (() => performance.now());
+    this._entries = [];
+    this.origin = this.now();
+    this._startedAt = Date.now();
+  }
+
+  /**
+   * Rebuild a trace from its JSONL export.
+   * @param text - One JSON entry per line
+   * @returns Trace holding the parsed entries
+   * @throws ValidationError if a line is not a trace entry
+   */
+  public static fromJSONL(text: string): ProtocolTrace {
+    const trace = new ProtocolTrace();
+    for (const [index, line] of text.split('\n').entries()) {
+      if (line.trim() === '') continue;
+      let entry: unknown;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        entry = null;
+      }
+      if (!isTraceEntry(entry)) {
+        throw new ValidationError(
+          `line ${index + 1}`,
+          line,
+          'must be a JSON trace entry'
+        );
+      }
+      trace._entries.push(entry);
+    }
+    return trace;
+  }
+
+  /**
+   * Recorded entries, oldest first.
+   */
+  public get entries(): ReadonlyArray<TraceEntry> {
+    return this._entries;
+  }
+
+  /**
+   * Wall-clock time the trace started (ms since epoch).
+   */
+  public get startedAt(): number {
+    return this._startedAt;
+  }
+
+  /**
+   * Record written or read text.
+   * @param direction - 'write' or 'read'
+   * @param data - Raw text
+   * @param context - Command in flight, if any
+   */
+  public record(
+    direction: 'write' | 'read',
+    data: string,
+    context: TraceContext | null = null
+  ): void {
+    this.push({ time: this.elapsed(), direction, data, ...context });
+  }
+
+  /**
+   * Record a failed command attempt.
+   * @param error - Error that ended the attempt
+   * @param context - Command in flight, if any
+   */
+  public recordError(
+    error: unknown,
+    context: TraceContext | null = null
+  ): void {
+    const details: TraceError =
+      error instanceof Error
+        ? { name: error.name, message: error.message }
+        : { name: 'Error', message: String(error) };
+    this.push({
+      time: this.elapsed(),
+      direction: 'error',
+      data: '',
+      ...context,
+      error: details,
+    });
+  }
+
+  /**
+   * Drop every entry and restart the clock.
+   */
+  public clear(): void {
+    this._entries = [];
+    this.origin = this.now();
+    this._startedAt = Date.now();
+  }
+
+  /**
+   * Export the trace as JSON Lines, one entry per line.
+   * @returns JSONL text
+   */
+  public toJSONL(): string {
+    return this._entries.map((entry) => JSON.stringify(entry)).join('\n');
+  }
+
+  /**
+   * Milliseconds since the trace started.
+   */
+  private elapsed(): number {
+    return this.now() - this.origin;
+  }
+
+  /**
+   * Append an entry, dropping the oldest beyond maxEntries.
+   * @param entry - Entry to add
+   */
+  private push(entry: TraceEntry): void {
+    if (!this.enabled) return;
+    this._entries.push(entry);
+    if (this._entries.length > this.maxEntries) {
+      this._entries.shift();
+    }
+  }
+}
+
+/**
+ * Transport that answers with the reads from a recorded trace.
+ * Each write must match the next recorded write; the reads recorded after
+ * it are then delivered in order. A write the trace does not expect fails
+ * with ReplayMismatchError.
+ *
+ * @example
+ * const transport = new ReplayTransport(trace, { timing: 'immediate' });
+ * const cd48 = new CD48({ transport, commandDelay: 0 });
+ * await cd48.connect();
+ * expect(await cd48.getVersion()).toBe('CD48 v1.0.0');
+ * expect(transport.finished).toBe(true);
+ */
+export class ReplayTransport implements CD48Transport {
+  /** Every string passed to write(), in order */
+  public readonly written: string[];
+  private readonly entries: ReadonlyArray<TraceEntry>;
+  private readonly timing: 'recorded' | 'immediate';
+  private readonly queue: ChunkQueue;
+  private readonly timers: Set<ReturnType<typeof setTimeout>>;
+  private position: number;
+  private lastDue: number;
+  private opened: boolean;
+  private _onDisconnect: TransportDisconnectCallback | null;
+
+  /**
+   * Create a replay transport.
+   * @param trace - Recorded trace or its entries
+   * @param options - Replay options
+   */
+  constructor(
+    trace: ProtocolTrace | ReadonlyArray<TraceEntry>,
+    options: ReplayTransportOptions = {}
+  ) {
+    this.written = [];
+    this.entries = [
+      ...(trace instanceof ProtocolTrace ? trace.entries : trace),
+    ];
+    this.timing = options.timing ?? 'recorded';
+    this.queue = new ChunkQueue();
+    this.timers = new Set();
+    this.position = 0;
+    this.lastDue = 0;
+    this.opened = false;
+    this._onDisconnect = null;
+  }
+
+  /**
+   * Whether every recorded write has been replayed.
+   */
+  public get finished(): boolean {
+    return this.nextWrite() === -1;
+  }
+
+  /**
+   * Simulate the device being unplugged.
+   */
+  public simulateDisconnect(): void {
+    this.stop();
+    if (this._onDisconnect !== null) {
+      this._onDisconnect();
+    }
+  }
+
+  public async open(): Promise<void> {
+    if (this.opened) {
+      throw new ConnectionError('Replay transport already open');
+    }
+    this.queue.reset();
+    this.opened = true;
+    // Data the device sent before the first command
+    if (this.position === 0) {
+      this.deliverReads(null);
+    }
+  }
+
+  public async close(): Promise<void> {
+    this.stop();
+  }
+
+  public isOpen(): boolean {
+    return this.opened;
+  }
+
+  public async write(data: string): Promise<void> {
+    if (!this.opened) {
+      throw new NotConnectedError('write');
+    }
+    this.written.push(data);
+    const index = this.nextWrite();
+    const expected = index === -1 ? null : (this.entries[index] ?? null);
+    if (expected === null || expected.data !== data) {
+      throw new ReplayMismatchError(expected?.data ?? null, data);
+    }
+    this.position = index + 1;
+    this.deliverReads(expected.time);
+  }
+
+  public async read(): Promise<TransportReadResult> {
+    if (!this.opened) {
+      return { value: '', done: true };
+    }
+    return this.queue.shift();
+  }
+
+  public onDisconnect(callback: TransportDisconnectCallback | null): void {
+    this._onDisconnect = callback;
+  }
+
+  /**
+   * Index of the next recorded write, or -1 if there is none.
+   */
+  private nextWrite(): number {
+    for (let i = this.position; i < this.entries.length; i++) {
+      if (this.entries[i]?.direction === 'write') return i;
+    }
+    return -1;
+  }
+
+  /**
+   * Deliver the reads recorded before the next write.
+   * @param since - Time of the write they follow, or null to send at once
+   */
+  private deliverReads(since: number | null): void {
+    while (this.position < this.entries.length) {
+      const entry = this.entries[this.position];
+      if (entry === undefined || entry.direction === 'write') break;
+      this.position++;
+      if (entry.direction !== 'read') continue;
+
+      // Never overtake reads still waiting from an earlier write
+      const now = Date.now();
+      const offset =
+        this.timing === 'recorded' && since !== null ? entry.time - since : 0;
+      const due = Math.max(now + offset, this.lastDue);
+      this.lastDue = due;
+      if (due <= now && this.timers.size === 0) {
+        this.queue.push(entry.data);
+        continue;
+      }
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        this.queue.push(entry.data);
+      }, due - now);
+      this.timers.add(timer);
+    }
+  }
+
+  /**
+   * Close the channel and cancel pending deliveries.
+   */
+  private stop(): void {
+    this.opened = false;
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    this.queue.end();
+  }
+}
+
+/**
+ * Check that a parsed JSONL line has the shape of a trace entry.
+ * @param value - Parsed value
+ */
+function isTraceEntry(value: unknown): value is TraceEntry {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry['time'] === 'number' &&
+    typeof entry['direction'] === 'string' &&
+    DIRECTIONS.includes(entry['direction']) &&
+    typeof entry['data'] === 'string'
+  );
+}
+
+export default {
+  ProtocolTrace,
+  ReplayTransport,
+};
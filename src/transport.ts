@@ -0,0 +1,444 @@
+/**
+ * @fileoverview Transport layer abstractions for CD48 serial communication
+ * @module transport
+ *
+ * A transport moves raw text between the CD48 class and the device. The
+ * library ships three implementations:
+ * - WebSerialTransport: browsers with the Web Serial API (default)
+ * - NodeSerialTransport: Node.js via the `serialport` package
+ * - LoopbackTransport: in-memory transport for tests and simulations
+ */
+
+import { BAUD_RATE, USB_VENDOR_ID } from './constants.js';
+import {
+  ConnectionError,
+  NotConnectedError,
+  UnsupportedBrowserError,
+} from './errors.js';
+
+/**
+ * Result of a single transport read
+ */
+export interface TransportReadResult {
+  /** Decoded text chunk (may be empty) */
+  readonly value: string;
+  /** True when the transport has been closed and no more data will arrive */
+  readonly done: boolean;
+}
+
+/**
+ * Callback invoked when a transport loses its device unexpectedly
+ */
+export type TransportDisconnectCallback = () => void;
+
+/**
+ * Byte-level channel between the CD48 class and a device
+ */
+export interface CD48Transport {
+  /** Open the underlying channel */
+  open(): Promise<void>;
+  /** Close the underlying channel and release its resources */
+  close(): Promise<void>;
+  /** Whether the channel is currently open */
+  isOpen(): boolean;
+  /** Write text to the device */
+  write(data: string): Promise<void>;
+  /** Read the next available text chunk, waiting until one arrives */
+  read(): Promise<TransportReadResult>;
+  /** Register (or clear with null) the unexpected disconnect callback */
+  onDisconnect(callback: TransportDisconnectCallback | null): void;
+}
+
+/**
+ * FIFO of decoded text chunks with a single pending-reader slot.
+ * Shared by transports that receive data through push-style callbacks.
+ * @internal
+ */
+export class ChunkQueue {
+  private readonly chunks: string[];
+  private waiter: ((result: TransportReadResult) => void) | null;
+  private ended: boolean;
+
+  constructor() {
+    this.chunks = [];
+    this.waiter = null;
+    this.ended = false;
+  }
+
+  /**
+   * Append a chunk, handing it straight to a waiting reader if there is one.
+   * @param chunk - Decoded text
+   */
+  public push(chunk: string): void {
+    if (this.ended || chunk === '') return;
+    if (this.waiter !== null) {
+      const resolve = this.waiter;
+      this.waiter = null;
+      resolve({ value: chunk, done: false });
+      return;
+    }
+    this.chunks.push(chunk);
+  }
+
+  /**
+   * Take the next chunk, waiting if the queue is empty.
+   * @returns Read result
+   */
+  public async shift(): Promise<TransportReadResult> {
+    const chunk = this.chunks.shift();
+    if (chunk !== undefined) {
+      return { value: chunk, done: false };
+    }
+    if (this.ended) {
+      return { value: '', done: true };
+    }
+    return new Promise((resolve) => {
+      this.waiter = resolve;
+    });
+  }
+
+  /**
+   * Mark the queue as finished and release any waiting reader.
+   */
+  public end(): void {
+    this.ended = true;
+    this.chunks.length = 0;
+    if (this.waiter !== null) {
+      const resolve = this.waiter;
+      this.waiter = null;
+      resolve({ value: '', done: true });
+    }
+  }
+
+  /**
+   * Re-arm a finished queue so it can be used again.
+   */
+  public reset(): void {
+    this.ended = false;
+    this.chunks.length = 0;
+  }
+}
+
+/**
+ * Web Serial transport options
+ */
+export interface WebSerialTransportOptions {
+  /** Baud rate (default: 115200) */
+  baudRate?: number;
+}
+
+/**
+ * Transport backed by a Web Serial API `SerialPort`
+ */
+export class WebSerialTransport implements CD48Transport {
+  public readonly port: SerialPort;
+  private readonly baudRate: number;
+  private reader: ReadableStreamDefaultReader<string> | null;
+  private writer: WritableStreamDefaultWriter<string> | null;
+  private readableStreamClosed: Promise<void> | null;
+  private writableStreamClosed: Promise<void> | null;
+  private _onDisconnect: TransportDisconnectCallback | null;
+  private readonly _boundHandleDisconnect: () => void;
+
+  /**
+   * Wrap an already-selected serial port.
+   * @param port - Serial port from `navigator.serial`
+   * @param options - Transport options
+   */
+  constructor(port: SerialPort, options: WebSerialTransportOptions = {}) {
+    this.port = port;
+    this.baudRate = options.baudRate ?? BAUD_RATE;
+    this.reader = null;
+    this.writer = null;
+    this.readableStreamClosed = null;
+    this.writableStreamClosed = null;
+    this._onDisconnect = null;
+    this._boundHandleDisconnect = () => {
+      if (this._onDisconnect !== null) {
+        this._onDisconnect();
+      }
+    };
+  }
+
+  /**
+   * Check if Web Serial API is supported.
+   * @returns True if supported
+   */
+  public static isSupported(): boolean {
+    return typeof navigator !== 'undefined' && 'serial' in navigator;
+  }
+
+  /**
+   * Show the browser port picker filtered to CD48 devices.
+   * @param options - Transport options
+   * @returns Transport for the selected port (not yet opened)
+   * @throws UnsupportedBrowserError if Web Serial is unavailable
+   */
+  public static async request(
+    options: WebSerialTransportOptions = {}
+  ): Promise<WebSerialTransport> {
+    if (!WebSerialTransport.isSupported()) {
+      throw new UnsupportedBrowserError();
+    }
+    const port = await navigator.serial.requestPort({
+      filters: [{ usbVendorId: USB_VENDOR_ID }], // Cypress Semiconductor
+    });
+    return new WebSerialTransport(port, options);
+  }
+
+  /**
+   * List every previously granted CD48 port without prompting the user.
+   * @param options - Transport options
+   * @returns Transports for all matching ports (not yet opened)
+   * @throws UnsupportedBrowserError if Web Serial is unavailable
+   */
+  public static async grantedPorts(
+    options: WebSerialTransportOptions = {}
+  ): Promise<WebSerialTransport[]> {
+    if (!WebSerialTransport.isSupported()) {
+      throw new UnsupportedBrowserError();
+    }
+    const ports = await navigator.serial.getPorts();
+    return ports
+      .filter((p) => p.getInfo().usbVendorId === USB_VENDOR_ID)
+      .map((p) => new WebSerialTransport(p, options));
+  }
+
+  /**
+   * Find a previously granted CD48 port without prompting the user.
+   * @param options - Transport options
+   * @returns Transport for the first matching port, or null if none
+   */
+  public static async fromGrantedPorts(
+    options: WebSerialTransportOptions = {}
+  ): Promise<WebSerialTransport | null> {
+    const [first] = await WebSerialTransport.grantedPorts(options);
+    return first ?? null;
+  }
+
+  public async open(): Promise<void> {
+    await this.port.open({ baudRate: this.baudRate });
+
+    // Set up reader and writer
+    const textDecoder = new TextDecoderStream();
+    const readable = this.port.readable;
+    if (readable === null) {
+      throw new ConnectionError('Port readable stream not available');
+    }
+    /**
+     * Type assertions needed here because Web Serial API uses BufferSource
+     * but TextDecoderStream expects Uint8Array. They're compatible at runtime
+     * since BufferSource = ArrayBuffer | ArrayBufferView (which includes Uint8Array)
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unnecessary-type-assertion
+    this.readableStreamClosed = (readable as ReadableStream<Uint8Array>).pipeTo(
+      textDecoder.writable as WritableStream<Uint8Array>
+    );
+    this.reader = textDecoder.readable.getReader();
+
+    const textEncoder = new TextEncoderStream();
+    const writable = this.port.writable;
+    if (writable === null) {
+      throw new ConnectionError('Port writable stream not available');
+    }
+    this.writableStreamClosed = textEncoder.readable.pipeTo(
+      writable as WritableStream<Uint8Array> // eslint-disable-line @typescript-eslint/no-unnecessary-type-assertion
+    );
+    this.writer = textEncoder.writable.getWriter();
+
+    this.port.addEventListener('disconnect', this._boundHandleDisconnect);
+  }
+
+  public async close(): Promise<void> {
+    if (this.reader !== null) {
+      try {
+        await this.reader.cancel();
+        if (this.readableStreamClosed !== null) {
+          await this.readableStreamClosed.catch(() => {});
+        }
+      } catch {
+        // Ignore cleanup errors
+      }
+      this.reader = null;
+    }
+    if (this.writer !== null) {
+      try {
+        await this.writer.close();
+        if (this.writableStreamClosed !== null) {
+          await this.writableStreamClosed;
+        }
+      } catch {
+        // Ignore cleanup errors
+      }
+      this.writer = null;
+    }
+    // Remove disconnect listener before closing
+    this.port.removeEventListener('disconnect', this._boundHandleDisconnect);
+    try {
+      await this.port.close();
+    } catch {
+      // Ignore cleanup errors
+    }
+  }
+
+  public isOpen(): boolean {
+    return this.reader !== null && this.writer !== null;
+  }
+
+  public async write(data: string): Promise<void> {
+    if (this.writer === null) {
+      throw new NotConnectedError('write');
+    }
+    await this.writer.write(data);
+  }
+
+  public async read(): Promise<TransportReadResult> {
+    if (this.reader === null) {
+      throw new NotConnectedError('read');
+    }
+    const result = await this.reader.read();
+    return { value: result.value ?? '', done: result.done };
+  }
+
+  public onDisconnect(callback: TransportDisconnectCallback | null): void {
+    this._onDisconnect = callback;
+  }
+}
+
+/**
+ * Responder for the loopback transport.
+ * Receives each complete command line (without the trailing `\r`) and returns
+ * the text the device would send back, or undefined for no reply.
+ */
+export type LoopbackResponder = (
+  command: string
+) => string | undefined | Promise<string | undefined>;
+
+/**
+ * Loopback transport options
+ */
+export interface LoopbackTransportOptions {
+  /** Function producing replies to written commands */
+  responder?: LoopbackResponder;
+}
+
+/**
+ * In-memory transport that never touches hardware.
+ *
+ * Everything written is recorded in `written`; complete `\r`-terminated
+ * commands are passed to the responder and its reply is queued for reading.
+ * Unsolicited data can be injected with `push()`.
+ *
+ * @example
+ * const transport = new LoopbackTransport({
+ *   responder: (cmd) => (cmd === 'v' ? 'CD48 v1.0.0\r\n' : 'OK\r\n'),
+ * });
+ * const cd48 = new CD48({ transport });
+ * await cd48.connect();
+ */
+export class LoopbackTransport implements CD48Transport {
+  /** Every string passed to write(), in order */
+  public readonly written: string[];
+  private responder: LoopbackResponder | null;
+  private readonly queue: ChunkQueue;
+  private lineBuffer: string;
+  private opened: boolean;
+  private _onDisconnect: TransportDisconnectCallback | null;
+
+  /**
+   * Create a loopback transport.
+   * @param options - Transport options
+   */
+  constructor(options: LoopbackTransportOptions = {}) {
+    this.written = [];
+    this.responder = options.responder ?? null;
+    this.queue = new ChunkQueue();
+    this.lineBuffer = '';
+    this.opened = false;
+    this._onDisconnect = null;
+  }
+
+  /**
+   * Replace the responder.
+   * @param responder - New responder, or null to stop replying
+   */
+  public setResponder(responder: LoopbackResponder | null): void {
+    this.responder = responder;
+  }
+
+  /**
+   * Inject data as if the device had sent it.
+   * @param data - Text to deliver to readers
+   */
+  public push(data: string): void {
+    if (this.opened) {
+      this.queue.push(data);
+    }
+  }
+
+  /**
+   * Simulate the device being unplugged.
+   */
+  public simulateDisconnect(): void {
+    this.opened = false;
+    this.queue.end();
+    if (this._onDisconnect !== null) {
+      this._onDisconnect();
+    }
+  }
+
+  public async open(): Promise<void> {
+    if (this.opened) {
+      throw new ConnectionError('Loopback transport already open');
+    }
+    this.queue.reset();
+    this.lineBuffer = '';
+    this.opened = true;
+  }
+
+  public async close(): Promise<void> {
+    this.opened = false;
+    this.queue.end();
+  }
+
+  public isOpen(): boolean {
+    return this.opened;
+  }
+
+  public async write(data: string): Promise<void> {
+    if (!this.opened) {
+      throw new NotConnectedError('write');
+    }
+    this.written.push(data);
+    this.lineBuffer += data;
+
+    let end = this.lineBuffer.indexOf('\r');
+    while (end !== -1) {
+      const command = this.lineBuffer.slice(0, end);
+      this.lineBuffer = this.lineBuffer.slice(end + 1);
+      if (this.responder !== null) {
+        const reply = await this.responder(command);
+        if (reply !== undefined) {
+          this.queue.push(reply);
+        }
+      }
+      end = this.lineBuffer.indexOf('\r');
+    }
+  }
+
+  public async read(): Promise<TransportReadResult> {
+    if (!this.opened) {
+      return { value: '', done: true };
+    }
+    return this.queue.shift();
+  }
+
+  public onDisconnect(callback: TransportDisconnectCallback | null): void {
+    this._onDisconnect = callback;
+  }
+}
+
+export default {
+  WebSerialTransport,
+  LoopbackTransport,
+};
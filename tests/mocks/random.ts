@@ -0,0 +1,23 @@
+/**
+ * Seeded random numbers for reproducible test data
+ */
+
+export { mulberry32 } from '../../src/random.js';
+
+/**
+ * Poisson sample as a sum of small-mean Knuth samples
+ * @param mean - Expected count
+ * @param random - Uniform generator on [0, 1)
+ */
+export function poisson(mean: number, random: () => number): number {
+  let count = 0;
+  for (let left = mean; left > 0; left -= 20) {
+    const limit = Math.exp(-Math.min(left, 20));
+    let product = random();
+    while (product > limit) {
+      count++;
+      product *= random();
+    }
+  }
+  return count;
+}
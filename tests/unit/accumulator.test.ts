@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { CountAccumulator } from '../../src/accumulator.js';
+import CD48 from '../../src/cd48.js';
+import { InvalidChannelError, ValidationError } from '../../src/errors.js';
+import { CD48Simulator } from '../../src/simulator.js';
+
+const read = (counts: number[], overflow = 0) => ({
+  counts: [...counts, 0, 0, 0, 0, 0, 0, 0, 0].slice(0, 8),
+  overflow,
+});
+
+describe('CountAccumulator', () => {
+  it('should sum reads into bigint totals', () => {
+    const accumulator = new CountAccumulator();
+    accumulator.add(read([10, 20]));
+    const sample = accumulator.add(read([5, 1]));
+
+    expect(sample).toEqual({
+      index: 1,
+      counts: [5, 1, 0, 0, 0, 0, 0, 0],
+      overflowedChannels: [],
+      corrected: false,
+      valid: true,
+    });
+    expect(accumulator.total(0)).toBe(15n);
+    expect(accumulator.getTotals()[1]).toBe(21n);
+    expect(accumulator.samples).toBe(2);
+    expect(accumulator.overflowed).toBe(false);
+  });
+
+  it('should stay exact beyond Number.MAX_SAFE_INTEGER', () => {
+    const accumulator = new CountAccumulator();
+    const big = 2 ** 52;
+    for (let i = 0; i < 4; i++) accumulator.add(read([big + 1]));
+    expect(accumulator.total(0)).toBe(4n * (2n ** 52n + 1n));
+  });
+
+  it('should correct overflowed channels when the counter width is known', () => {
+    const accumulator = new CountAccumulator({ counterBits: 8 });
+    const sample = accumulator.add(read([10, 10, 10], 0b101));
+
+    expect(sample.counts.slice(0, 3)).toEqual([266, 10, 266]);
+    expect(sample.overflowedChannels).toEqual([0, 2]);
+    expect(sample.corrected).toBe(true);
+    expect(sample.valid).toBe(true);
+    expect(accumulator.total(2)).toBe(266n);
+    expect(accumulator.overflowCount(0)).toBe(1);
+    expect(accumulator.isValid(0)).toBe(true);
+  });
+
+  it('should mark samples invalid when the counter width is unknown', () => {
+    const accumulator = new CountAccumulator();
+    const sample = accumulator.add(read([10, 10], 0b10));
+
+    expect(sample.valid).toBe(false);
+    expect(sample.corrected).toBe(false);
+    expect(sample.counts[1]).toBe(10);
+    expect(accumulator.invalidSamples).toBe(1);
+    expect(accumulator.isValid(0)).toBe(true);
+    expect(accumulator.isValid(1)).toBe(false);
+  });
+
+  it('should reset totals and flags', () => {
+    const accumulator = new CountAccumulator();
+    accumulator.add(read([3], 1));
+    accumulator.reset();
+
+    expect(accumulator.total(0)).toBe(0n);
+    expect(accumulator.samples).toBe(0);
+    expect(accumulator.invalidSamples).toBe(0);
+    expect(accumulator.isValid(0)).toBe(true);
+  });
+
+  it('should validate options and channels', () => {
+    expect(() => new CountAccumulator({ counterBits: 0 })).toThrow(
+      ValidationError
+    );
+    expect(() => new CountAccumulator({ counterBits: 8.5 })).toThrow(
+      ValidationError
+    );
+    expect(() => new CountAccumulator().total(8)).toThrow(InvalidChannelError);
+  });
+
+  it('should recover the true count from a wrapped simulator counter', () => {
+    let clock = 0;
+    const simulator = new CD48Simulator({
+      rates: { A: 1500 },
+      counterBits: 10,
+      seed: 3,
+      now: () => clock,
+    });
+    const accumulator = new CountAccumulator({ counterBits: 10 });
+    clock = 1000;
+
+    const fields = simulator.handleCommand('c').trim().split(' ').map(Number);
+    const sample = accumulator.add({
+      counts: fields.slice(0, 8),
+      overflow: fields[8] ?? 0,
+    });
+
+    expect(sample.overflowedChannels).toEqual([0]);
+    expect(Number(accumulator.total(0))).toBeGreaterThan(1300);
+    expect(Number(accumulator.total(0))).toBeLessThan(1700);
+  });
+});
+
+describe('RateMeasurement overflow flag', () => {
+  it('should flag measurements whose counter wrapped', async () => {
+    const simulator = new CD48Simulator({
+      rates: { A: 200_000 },
+      counterBits: 8,
+      seed: 9,
+    });
+    const cd48 = new CD48({ transport: simulator, commandDelay: 0 });
+    await cd48.connect();
+
+    const wrapped = await cd48.measureRate(0, 0.02);
+    const quiet = await cd48.measureRate(1, 0.02);
+    expect(wrapped.overflowed).toBe(true);
+    expect(quiet.overflowed).toBe(false);
+
+    await cd48.disconnect();
+  });
+});
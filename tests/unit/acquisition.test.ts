@@ -0,0 +1,214 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  Acquisition,
+  type AcquisitionGap,
+  type AcquisitionSample,
+  type AcquisitionStop,
+} from '../../src/acquisition.js';
+import type CD48 from '../../src/cd48.js';
+import {
+  CommunicationError,
+  NotConnectedError,
+  OperationAbortedError,
+  ValidationError,
+} from '../../src/errors.js';
+
+/**
+ * Device stub driven by a virtual clock: sleeping and reading advance time
+ * instead of waiting.
+ */
+function createDevice(latencies: number[] = []) {
+  let clock = 0;
+  let reads = 0;
+  const device = {
+    now: () => clock,
+    connected: true,
+    failOn: new Set<number>(),
+    overflowOn: new Map<number, number>(),
+    getCounts: vi.fn(async () => {
+      const read = reads++;
+      clock += latencies[read] ?? 10;
+      if (device.failOn.has(read)) {
+        throw new CommunicationError('glitch');
+      }
+      if (!device.connected) {
+        throw new NotConnectedError('sendCommand');
+      }
+      return {
+        counts: [100, 0, 0, 0, 0, 0, 0, 0],
+        overflow: device.overflowOn.get(read) ?? 0,
+      };
+    }),
+    sleepWithAbort: vi.fn(async (ms: number, signal?: AbortSignal) => {
+      if (signal?.aborted === true) throw new OperationAbortedError('sleep');
+      clock += ms;
+      await Promise.resolve();
+    }),
+    isConnected: () => device.connected,
+  };
+  return device;
+}
+
+function collect(acquisition: Acquisition) {
+  const samples: AcquisitionSample[] = [];
+  const gaps: AcquisitionGap[] = [];
+  const stops: AcquisitionStop[] = [];
+  const errors: Error[] = [];
+  acquisition.on('sample', (s) => samples.push(s));
+  acquisition.on('gap', (g) => gaps.push(g));
+  acquisition.on('stop', (s) => stops.push(s));
+  acquisition.on('error', (e) => errors.push(e));
+  return { samples, gaps, stops, errors };
+}
+
+describe('Acquisition', () => {
+  it('should read on a fixed grid without drifting', async () => {
+    const device = createDevice();
+    const acquisition = new Acquisition(device as unknown as CD48, {
+      intervalMs: 100,
+      durationMs: 500,
+      now: device.now,
+    });
+    const { samples, stops } = collect(acquisition);
+
+    await acquisition.start();
+
+    expect(samples).toHaveLength(5);
+    // Reads are issued on the grid and stamped at their round-trip midpoint,
+    // so the 10 ms command latency shifts every sample equally
+    expect(samples.map((s) => s.time)).toEqual([105, 205, 305, 405, 505]);
+    expect(samples[0]?.elapsed).toBeCloseTo(0.1);
+    expect(samples[0]?.rates[0]).toBeCloseTo(1000);
+    expect(stops[0]).toEqual({ samples: 5, missed: 0, reason: 'duration' });
+  });
+
+  it('should measure the real interval and report gaps after a slow read', async () => {
+    // Initial clear, then a read that takes 250 ms
+    const device = createDevice([10, 10, 250]);
+    const acquisition = new Acquisition(device as unknown as CD48, {
+      intervalMs: 100,
+      durationMs: 600,
+      now: device.now,
+    });
+    const { samples, gaps } = collect(acquisition);
+
+    await acquisition.start();
+
+    expect(gaps).toEqual([
+      { index: 2, missed: 1, elapsed: expect.closeTo(0.13, 5) },
+    ]);
+    // The slow read is stamped at its midpoint, so it still gets its share
+    expect(samples[1]?.elapsed).toBeCloseTo(0.22);
+    expect(samples.map((s) => s.index)).toEqual([0, 1, 2, 3, 4]);
+    expect(acquisition.missed).toBe(1);
+  });
+
+  it('should emit overflow with the affected channels', async () => {
+    const device = createDevice();
+    device.overflowOn.set(2, 0b00010001);
+    const acquisition = new Acquisition(device as unknown as CD48, {
+      intervalMs: 100,
+      durationMs: 300,
+      now: device.now,
+    });
+    const overflow = vi.fn();
+    acquisition.on('overflow', overflow);
+
+    await acquisition.start();
+
+    expect(overflow).toHaveBeenCalledWith({
+      index: 1,
+      overflow: 17,
+      channels: [0, 4],
+    });
+  });
+
+  it('should keep polling after a transient error', async () => {
+    const device = createDevice();
+    device.failOn.add(2);
+    const acquisition = new Acquisition(device as unknown as CD48, {
+      intervalMs: 100,
+      durationMs: 400,
+      now: device.now,
+    });
+    const { samples, errors } = collect(acquisition);
+
+    await acquisition.start();
+
+    expect(errors[0]).toBeInstanceOf(CommunicationError);
+    expect(samples).toHaveLength(3);
+    // The sample after the failure covers both intervals
+    expect(samples[1]?.elapsed).toBeCloseTo(0.2);
+  });
+
+  it('should stop when the connection is lost', async () => {
+    const device = createDevice();
+    const acquisition = new Acquisition(device as unknown as CD48, {
+      intervalMs: 100,
+      now: device.now,
+    });
+    const { stops } = collect(acquisition);
+    acquisition.on('sample', (s) => {
+      if (s.index === 1) device.connected = false;
+    });
+
+    await acquisition.start();
+
+    expect(stops[0]?.reason).toBe('disconnected');
+    expect(stops[0]?.samples).toBe(2);
+  });
+
+  it('should stop when the signal aborts', async () => {
+    const device = createDevice();
+    const controller = new AbortController();
+    const acquisition = new Acquisition(device as unknown as CD48, {
+      intervalMs: 100,
+      signal: controller.signal,
+      now: device.now,
+    });
+    const { stops } = collect(acquisition);
+    acquisition.on('sample', (s) => {
+      if (s.index === 2) controller.abort();
+    });
+
+    await acquisition.start();
+
+    expect(stops[0]).toMatchObject({ samples: 3, reason: 'aborted' });
+    expect(acquisition.running).toBe(false);
+  });
+
+  it('should stop via stop()', async () => {
+    const device = createDevice();
+    const acquisition = new Acquisition(device as unknown as CD48, {
+      intervalMs: 100,
+      now: device.now,
+    });
+    const { stops } = collect(acquisition);
+    acquisition.on('sample', () => acquisition.stop());
+
+    await acquisition.start();
+
+    expect(stops[0]).toMatchObject({ samples: 1, reason: 'stopped' });
+  });
+
+  it('should validate options and state', async () => {
+    const device = createDevice();
+    expect(
+      () => new Acquisition(device as unknown as CD48, { intervalMs: 0 })
+    ).toThrow(ValidationError);
+    await expect(
+      new Acquisition(device as unknown as CD48, {
+        signal: AbortSignal.abort(),
+      }).start()
+    ).rejects.toThrow(OperationAbortedError);
+
+    const acquisition = new Acquisition(device as unknown as CD48, {
+      intervalMs: 100,
+      durationMs: 200,
+      now: device.now,
+    });
+    const running = acquisition.start();
+    await expect(acquisition.start()).rejects.toThrow('already running');
+    await running;
+  });
+});
@@ -0,0 +1,800 @@
+import { describe, expect, it } from 'vitest';
+import {
+  Coincidence,
+  DeadTime,
+  type DeadTimeModel,
+  Histogram,
+  type PoissonIntervalMethod,
+  type PolarizationMeasurement,
+  QuantumOptics,
+  type RatePoint,
+  Statistics,
+  TimeSeries,
+} from '../../src/analysis.js';
+import { ValidationError } from '../../src/errors.js';
+import { mulberry32, poisson } from '../mocks/random.js';
+
+describe('Analysis', () => {
+  describe('Statistics', () => {
+    it('should give exact Garwood intervals, including at zero counts', () => {
+      const zero = Statistics.poissonInterval(0);
+      expect(zero.lower).toBe(0);
+      expect(zero.upper).toBeCloseTo(1.8410216450092636, 8);
+      expect(zero.method).toBe('garwood');
+
+      const ninety = Statistics.poissonInterval(10, { confidence: 0.9 });
+      expect(ninety.lower).toBeCloseTo(5.425405697091295, 8);
+      expect(ninety.upper).toBeCloseTo(16.962219235721907, 8);
+
+      const rate = Statistics.rateInterval(10, 2, { confidence: 0.9 });
+      expect(rate.upper).toBeCloseTo(ninety.upper / 2, 10);
+    });
+
+    it('should reproduce Feldman-Cousins intervals', () => {
+      const fc = (n: number, confidence: number, background = 0) =>
+        Statistics.poissonInterval(n, {
+          method: 'feldman-cousins',
+          confidence,
+          background,
+        });
+
+      expect(fc(0, 0.9).lower).toBe(0);
+      expect(fc(0, 0.9).upper).toBeCloseTo(2.44, 2);
+      expect(fc(0, 0.95).upper).toBeCloseTo(3.09, 2);
+      expect(fc(3, 0.9).lower).toBeCloseTo(1.1, 2);
+      expect(fc(3, 0.9).upper).toBeCloseTo(7.42, 2);
+      expect(fc(0, 0.9, 1).upper).toBeCloseTo(1.61, 2);
+    });
+
+    it('should reject invalid interval arguments', () => {
+      expect(() => Statistics.poissonInterval(1.5)).toThrow(ValidationError);
+      expect(() => Statistics.poissonInterval(3, { confidence: 1 })).toThrow(
+        ValidationError
+      );
+      expect(() => Statistics.poissonInterval(3, { background: 1 })).toThrow(
+        "method 'feldman-cousins'"
+      );
+      expect(() =>
+        Statistics.poissonInterval(3, {
+          method: 'wald' as PoissonIntervalMethod,
+        })
+      ).toThrow(ValidationError);
+      expect(() => Statistics.rateInterval(3, 0)).toThrow(ValidationError);
+    });
+
+    it('should test count histograms against Poisson', () => {
+      // Counts laid out in exact Poisson(4) proportions
+      const samples: number[] = [];
+      let p = Math.exp(-4);
+      for (let k = 0; k <= 12; k++) {
+        for (let i = 0; i < Math.round(2000 * p); i++) samples.push(k);
+        p *= 4 / (k + 1);
+      }
+
+      const poisson = Statistics.poissonChiSquareTest(samples);
+      expect(poisson.mean).toBeCloseTo(4, 1);
+      expect(poisson.pValue).toBeGreaterThan(0.9);
+      expect(poisson.bins.every((b) => b.expected >= 5)).toBe(true);
+      expect(poisson.bins.at(-1)?.to).toBe(Number.POSITIVE_INFINITY);
+      expect(poisson.dof).toBe(poisson.bins.length - 2);
+
+      // Overdispersed: half the runs at 1, half at 9
+      const bimodal = [...Array(200).fill(1), ...Array(200).fill(9)];
+      expect(Statistics.poissonChiSquareTest(bimodal).pValue).toBeLessThan(
+        1e-6
+      );
+      expect(() => Statistics.poissonChiSquareTest([0, 0])).toThrow(
+        ValidationError
+      );
+      expect(() => Statistics.poissonChiSquareTest([1, 2, 1])).toThrow(
+        'at least 3 bins'
+      );
+    });
+
+    it('should compare Poisson and Gaussian descriptions', () => {
+      const poissonLike = [3, 5, 4, 6, 2, 4, 5, 3, 4, 7, 1, 4, 5, 3, 4, 6];
+      const result = Statistics.poissonVsGaussian(poissonLike);
+      expect(result.mean).toBe(66 / 16);
+      expect(result.dispersion.dof).toBe(15);
+      expect(result.dispersion.pValue).toBeGreaterThan(0.05);
+      expect(result.poisson.aic).toBe(2 - 2 * result.poisson.logLikelihood);
+
+      // Much wider than Poisson: Gaussian wins and dispersion fails
+      const wide = [10, 40, 25, 5, 35, 15, 30, 20, 45, 0, 50, 25];
+      const overdispersed = Statistics.poissonVsGaussian(wide);
+      expect(overdispersed.preferred).toBe('gaussian');
+      expect(overdispersed.dispersion.pValue).toBeLessThan(1e-6);
+    });
+
+    it('should compare two rates exactly', () => {
+      const same = Statistics.compareRates(100, 10, 200, 20);
+      expect(same.ratio).toBe(1);
+      expect(same.z).toBe(0);
+      expect(same.pValue).toBeGreaterThan(0.9);
+
+      const different = Statistics.compareRates(30, 1, 10, 1);
+      expect(different.difference).toBe(20);
+      expect(different.differenceUncertainty).toBeCloseTo(Math.sqrt(40), 10);
+      // Exact binomial: 2 * P(X >= 30 | n = 40, p = 0.5)
+      expect(different.pValue).toBeCloseTo(0.0022214337732293643, 12);
+
+      const empty = Statistics.compareRates(0, 10, 0, 30);
+      expect(empty).toMatchObject({ rate1: 0, rate2: 0, z: 0, pValue: 1 });
+      expect(empty.ratio).toBeNaN();
+      expect(Statistics.compareRates(4, 1, 0, 1).ratio).toBe(Infinity);
+      expect(() => Statistics.compareRates(-1, 1, 0, 1)).toThrow(
+        ValidationError
+      );
+      expect(() => Statistics.compareRates(1, 1, 0, 0)).toThrow(
+        ValidationError
+      );
+    });
+
+    it('should fit lines with per-point y errors', () => {
+      const x = [1, 2, 3, 4, 5, 6];
+      const y = [2.9, 5.2, 6.8, 9.1, 11.2, 12.8];
+      const sigmaY = [0.1, 0.2, 0.1, 0.3, 0.2, 0.1];
+      const fit = Statistics.weightedLinearRegression(x, y, { sigmaY });
+
+      // Closed-form weighted least squares
+      const w = sigmaY.map((s) => 1 / s ** 2);
+      const sum = (f: (i: number) => number) =>
+        x.reduce((total, _, i) => total + f(i), 0);
+      const s = sum((i) => w[i] ?? 0);
+      const sx = sum((i) => (w[i] ?? 0) * (x[i] ?? 0));
+      const sy = sum((i) => (w[i] ?? 0) * (y[i] ?? 0));
+      const sxx = sum((i) => (w[i] ?? 0) * (x[i] ?? 0) ** 2);
+      const sxy = sum((i) => (w[i] ?? 0) * (x[i] ?? 0) * (y[i] ?? 0));
+      const delta = s * sxx - sx * sx;
+      expect(fit.method).toBe('weighted');
+      expect(fit.slope).toBeCloseTo((s * sxy - sx * sy) / delta, 10);
+      expect(fit.intercept).toBeCloseTo((sxx * sy - sx * sxy) / delta, 10);
+      expect(fit.slopeUncertainty).toBeCloseTo(Math.sqrt(s / delta), 10);
+      expect(fit.interceptUncertainty).toBeCloseTo(Math.sqrt(sxx / delta), 10);
+      expect(fit.covariance[0][1]).toBeCloseTo(-sx / delta, 10);
+      expect(fit.dof).toBe(4);
+      expect(fit.chiSquare).toBeCloseTo(
+        fit.normalizedResiduals.reduce((t, r) => t + r * r, 0),
+        10
+      );
+      expect(fit.residuals[0]).toBeCloseTo(
+        2.9 - (fit.slope + fit.intercept),
+        12
+      );
+      expect(fit.pValue).toBeGreaterThan(0);
+      expect(fit.pValue).toBeLessThan(1);
+    });
+
+    it('should reproduce York regression of the Pearson-York data', () => {
+      const x = [0, 0.9, 1.8, 2.6, 3.3, 4.4, 5.2, 6.1, 6.5, 7.4];
+      const y = [5.9, 5.4, 4.4, 4.6, 3.5, 3.7, 2.8, 2.8, 2.4, 1.5];
+      const weightX = [1000, 1000, 500, 800, 200, 80, 60, 20, 1.8, 1];
+      const weightY = [1, 1.8, 4, 8, 20, 20, 70, 70, 100, 500];
+      const fit = Statistics.weightedLinearRegression(x, y, {
+        sigmaX: weightX.map((w) => 1 / Math.sqrt(w)),
+        sigmaY: weightY.map((w) => 1 / Math.sqrt(w)),
+      });
+
+      expect(fit.method).toBe('york');
+      expect(fit.slope).toBeCloseTo(-0.4805, 4);
+      expect(fit.intercept).toBeCloseTo(5.4799, 4);
+      expect(fit.slopeUncertainty).toBeCloseTo(0.058, 4);
+      expect(fit.interceptUncertainty).toBeCloseTo(0.295, 4);
+      expect(fit.chiSquare).toBeCloseTo(11.866, 3);
+      // The often-quoted 0.0706 and 0.3592 are scaled by the fit quality
+      const scale = Math.sqrt(fit.reducedChiSquare);
+      expect(fit.slopeUncertainty * scale).toBeCloseTo(0.0706, 4);
+      expect(fit.interceptUncertainty * scale).toBeCloseTo(0.3592, 4);
+    });
+
+    it('should give confidence and prediction bands', () => {
+      const x = [0, 1, 2, 3, 4];
+      const y = [1.1, 2.9, 5.2, 6.8, 9.1];
+      const sigmaY = [0.2, 0.2, 0.2, 0.2, 0.2];
+      const fit = Statistics.weightedLinearRegression(x, y, { sigmaY });
+      const [atZero, atFar] = Statistics.regressionBand(fit, [0, 10], {
+        confidence: 0.95,
+        sigma: 0.2,
+      });
+
+      expect(atZero?.y).toBeCloseTo(fit.intercept, 12);
+      expect(atZero?.lineUncertainty).toBeCloseTo(fit.interceptUncertainty, 12);
+      expect((atZero?.upper ?? 0) - (atZero?.y ?? 0)).toBeCloseTo(
+        1.959964 * fit.interceptUncertainty,
+        5
+      );
+      expect((atZero?.predictionUpper ?? 0) - (atZero?.y ?? 0)).toBeCloseTo(
+        1.959964 * Math.sqrt(fit.interceptUncertainty ** 2 + 0.04),
+        5
+      );
+      // Bands widen away from the data
+      expect(atFar?.lineUncertainty).toBeGreaterThan(
+        atZero?.lineUncertainty ?? 0
+      );
+
+      expect(() =>
+        Statistics.regressionBand(fit, [0], { confidence: 1 })
+      ).toThrow(ValidationError);
+    });
+
+    it('should reject invalid regression inputs', () => {
+      expect(() =>
+        Statistics.weightedLinearRegression([1, 2], [1, 2], {
+          sigmaY: [1, 1],
+        })
+      ).toThrow(ValidationError);
+      expect(() =>
+        Statistics.weightedLinearRegression([1, 2, 3], [1, 2, 3], {
+          sigmaY: [1, 0, 1],
+        })
+      ).toThrow(ValidationError);
+      expect(() =>
+        Statistics.weightedLinearRegression([1, 2, 3], [1, 2, 3], {
+          sigmaY: [1, 1, 1],
+          sigmaX: [1, 1],
+        })
+      ).toThrow(ValidationError);
+    });
+  });
+
+  describe('Histogram', () => {
+    it('should carry sqrt(N) errors and support weights', () => {
+      const data = [0.5, 1.5, 1.6, 2.5, 2.6, 2.7, 3.5];
+      const hist = Histogram.create(data, { bins: 4, min: 0, max: 4 });
+      expect(hist.counts).toEqual([1, 2, 3, 1]);
+      expect(hist.errors).toEqual([1, Math.SQRT2, Math.sqrt(3), 1]);
+
+      const weighted = Histogram.create(data, {
+        bins: 4,
+        min: 0,
+        max: 4,
+        weights: [2, 1, 1, 0.5, 0.5, 0.5, 3],
+      });
+      expect(weighted.counts).toEqual([2, 2, 1.5, 3]);
+      expect(weighted.errors[2]).toBeCloseTo(Math.sqrt(0.75), 12);
+
+      const cumulative = Histogram.cumulative(data, {
+        bins: 4,
+        min: 0,
+        max: 4,
+      });
+      expect(cumulative.counts).toEqual([1, 3, 6, 7]);
+      expect(cumulative.errors[3]).toBeCloseTo(Math.sqrt(7), 12);
+
+      expect(() => Histogram.create(data, { weights: [1] })).toThrow(
+        ValidationError
+      );
+    });
+
+    it('should bin counts per interval on integers with Poisson overlays', () => {
+      const values = [3, 5, 4, 4, 6, 2, 4, 5, 3, 4];
+      const hist = Histogram.integer(values, { min: 0, max: 10 });
+
+      expect(hist.bins).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+      expect(hist.edges[0]).toBe(-0.5);
+      expect(hist.binWidth).toBe(1);
+      expect(hist.counts.slice(2, 7)).toEqual([1, 2, 4, 2, 1]);
+      expect(hist.mean).toBe(4);
+      // 10 intervals * P(4; 4)
+      expect(hist.poisson[4]).toBeCloseTo(
+        (10 * 4 ** 4 * Math.exp(-4)) / 24,
+        10
+      );
+      const poissonTotal = hist.poisson.reduce((a, b) => a + b, 0);
+      expect(poissonTotal).toBeGreaterThan(9.9);
+      expect(poissonTotal).toBeLessThanOrEqual(10);
+      // Gaussian with mean 4 and sigma 2, integrated over the bin
+      expect(hist.gaussian[4]).toBeCloseTo(10 * 0.1974126, 5);
+
+      const zeros = Histogram.integer([0, 0, 0]);
+      expect(zeros.counts).toEqual([3]);
+      expect(zeros.gaussian).toEqual([3]);
+
+      expect(() => Histogram.integer([1, 2.5])).toThrow(ValidationError);
+      expect(() => Histogram.integer([1, -1])).toThrow(ValidationError);
+    });
+
+    it('should create 2D histograms', () => {
+      const x = [0.1, 0.2, 0.9, 0.9, 1.0, 5];
+      const y = [0.1, 0.8, 0.1, 0.2, 1.0, 0.5];
+      const hist = Histogram.create2D(x, y, {
+        binsX: 2,
+        binsY: 2,
+        xMin: 0,
+        xMax: 1,
+        yMin: 0,
+        yMax: 1,
+      });
+
+      expect(hist.xEdges).toEqual([0, 0.5, 1]);
+      expect(hist.yBins).toEqual([0.25, 0.75]);
+      // x = 5 is outside the range
+      expect(hist.counts).toEqual([
+        [1, 1],
+        [2, 1],
+      ]);
+      expect(hist.errors[1]?.[0]).toBeCloseTo(Math.SQRT2, 12);
+
+      const weighted = Histogram.create2D(x, y, {
+        binsX: 1,
+        binsY: 1,
+        weights: [1, 2, 3, 4, 5, 6],
+      });
+      expect(weighted.counts).toEqual([[21]]);
+      expect(weighted.errors[0]?.[0]).toBeCloseTo(Math.sqrt(91), 12);
+
+      expect(() => Histogram.create2D([1, 2], [1])).toThrow(ValidationError);
+    });
+
+    it('should merge and rebin histograms', () => {
+      const options = { bins: 4, min: 0, max: 4 };
+      const a = Histogram.create([0.5, 1.5, 1.5, 3.5], options);
+      const b = Histogram.create([1.5, 2.5, 3.5, 3.5], options);
+
+      const merged = Histogram.merge(a, b);
+      expect(merged.counts).toEqual([1, 3, 1, 3]);
+      merged.errors.forEach((error, i) => {
+        expect(error).toBeCloseTo(Math.sqrt(merged.counts[i] ?? 0), 12);
+      });
+
+      const rebinned = Histogram.rebin(merged, 2);
+      expect(rebinned.counts).toEqual([4, 4]);
+      expect(rebinned.edges).toEqual([0, 2, 4]);
+      expect(rebinned.bins).toEqual([1, 3]);
+      expect(rebinned.binWidth).toBe(2);
+      expect(rebinned.errors[0]).toBeCloseTo(2, 12);
+
+      expect(() =>
+        Histogram.merge(a, Histogram.create([1], { bins: 4, min: 0, max: 8 }))
+      ).toThrow(ValidationError);
+      expect(() => Histogram.rebin(merged, 3)).toThrow(ValidationError);
+    });
+  });
+
+  describe('TimeSeries', () => {
+    /** One-second intervals ending at t = 1, 2, ... s */
+    const series = (counts: number[]): RatePoint[] =>
+      counts.map((c, i) => ({ time: (i + 1) * 1000, duration: 1, counts: c }));
+
+    it('should find a rate step with Bayesian blocks', () => {
+      const low = [98, 103, 101, 97, 100, 102, 99, 100, 101, 99];
+      const high = [151, 148, 152, 149, 150, 147, 153, 150, 149, 151];
+
+      const segments = TimeSeries.changePoints(series([...low, ...high]));
+      expect(segments).toHaveLength(2);
+      expect(segments[0]).toMatchObject({
+        start: 0,
+        end: 10000,
+        startIndex: 0,
+        endIndex: 9,
+        counts: 1000,
+        exposure: 10,
+        rate: 100,
+      });
+      expect(segments[0]?.uncertainty).toBeCloseTo(Math.sqrt(1000) / 10, 10);
+      expect(segments[1]).toMatchObject({ start: 10000, rate: 150 });
+    });
+
+    it('should keep a steady rate in one block', () => {
+      const steady = [98, 103, 101, 97, 100, 102, 99, 100, 101, 99, 100, 98];
+      expect(TimeSeries.changePoints(series(steady))).toHaveLength(1);
+      expect(TimeSeries.changePoints([])).toEqual([]);
+    });
+
+    it('should weight intervals by their duration', () => {
+      // Same rate, different interval lengths: no change point
+      const points: RatePoint[] = [
+        { time: 2000, duration: 2, counts: 200 },
+        { time: 2500, duration: 0.5, counts: 51 },
+        { time: 4500, duration: 2, counts: 199 },
+        { time: 5000, duration: 0.5, counts: 50 },
+      ];
+      const segments = TimeSeries.changePoints(points);
+      expect(segments).toHaveLength(1);
+      expect(segments[0]?.rate).toBe(500 / 5);
+    });
+
+    it('should detect bursts with their significance', () => {
+      const counts = [10, 12, 9, 11, 10, 40, 45, 10, 9, 11, 10, 8];
+      const bursts = TimeSeries.detectBursts(series(counts));
+
+      expect(bursts).toHaveLength(1);
+      const burst = bursts[0];
+      expect(burst).toMatchObject({
+        startIndex: 5,
+        endIndex: 6,
+        start: 5000,
+        end: 7000,
+        counts: 85,
+        baselineRate: 10,
+      });
+      expect(burst?.pValue).toBeLessThan(1e-20);
+      expect(burst?.significance).toBeGreaterThan(9);
+
+      // Against a higher baseline it is not a burst
+      expect(
+        TimeSeries.detectBursts(series(counts), { baselineRate: 40 })
+      ).toEqual([]);
+    });
+
+    it('should build a series from acquisition samples', () => {
+      const points = TimeSeries.fromSamples(
+        [
+          { timestamp: 1000, elapsed: 1, counts: [5, 7] },
+          { timestamp: 2000, elapsed: 1, counts: [6, 8] },
+        ],
+        1
+      );
+      expect(points).toEqual([
+        { time: 1000, duration: 1, counts: 7 },
+        { time: 2000, duration: 1, counts: 8 },
+      ]);
+    });
+
+    it('should compute Allan-type deviations of the rate', () => {
+      const points = series([10, 12, 11, 15]);
+
+      const allan = TimeSeries.allanDeviation(points);
+      expect(allan.map((p) => p.factor)).toEqual([1, 2]);
+      // Differences 2, -1, 4
+      expect(allan[0]?.deviation).toBeCloseTo(Math.sqrt(21 / 6), 12);
+      expect(allan[0]?.tau).toBe(1);
+      expect(allan[1]?.tau).toBe(2);
+      expect(allan[1]?.deviation).toBeCloseTo(Math.sqrt(2), 12);
+      expect(allan[0]?.poisson).toBeCloseTo(Math.sqrt(12), 12);
+      expect(allan[1]?.poisson).toBeCloseTo(Math.sqrt(6), 12);
+
+      // At m = 1 the modified deviation equals the Allan deviation
+      const modified = TimeSeries.modifiedAllanDeviation(points);
+      expect(modified.map((p) => p.factor)).toEqual([1]);
+      expect(modified[0]?.deviation).toBeCloseTo(allan[0]?.deviation ?? 0, 12);
+
+      // Second differences -3, 5
+      const hadamard = TimeSeries.hadamardDeviation(points);
+      expect(hadamard.map((p) => p.factor)).toEqual([1]);
+      expect(hadamard[0]?.deviation).toBeCloseTo(Math.sqrt(34 / 12), 12);
+
+      for (const point of [...allan, ...modified, ...hadamard]) {
+        expect(point.lower).toBeLessThan(point.deviation);
+        expect(point.upper).toBeGreaterThan(point.deviation);
+        expect(point.edf).toBeGreaterThanOrEqual(1);
+      }
+    });
+
+    it('should follow the Poisson line for pure counting noise', () => {
+      const random = mulberry32(11);
+      const points = series(
+        Array.from({ length: 2048 }, () => poisson(100, random))
+      );
+      const options = { factors: [1, 4, 16, 64], confidence: 0.997 };
+
+      for (const deviations of [
+        TimeSeries.allanDeviation(points, options),
+        TimeSeries.modifiedAllanDeviation(points, options),
+        TimeSeries.hadamardDeviation(points, options),
+      ]) {
+        expect(deviations.map((p) => p.tau)).toEqual([1, 4, 16, 64]);
+        for (const point of deviations) {
+          expect(point.lower).toBeLessThan(point.poisson);
+          expect(point.upper).toBeGreaterThan(point.poisson);
+        }
+      }
+
+      // Modified Allan variance tends to half the Allan variance
+      const modified = TimeSeries.modifiedAllanDeviation(points, options);
+      const allan = TimeSeries.allanDeviation(points, options);
+      expect(modified[1]?.poisson).toBeCloseTo(
+        (allan[1]?.poisson ?? 0) * Math.sqrt(17 / 32),
+        12
+      );
+    });
+
+    it('should show drift as a departure from the Poisson line', () => {
+      const random = mulberry32(5);
+      const points = series(
+        Array.from({ length: 2048 }, (_, i) => poisson(100 + 0.05 * i, random))
+      );
+      const options = { factors: [256], confidence: 0.997 };
+
+      const [allan] = TimeSeries.allanDeviation(points, options);
+      expect(allan?.lower).toBeGreaterThan(3 * (allan?.poisson ?? 0));
+
+      // Second differences cancel the linear drift
+      const [hadamard] = TimeSeries.hadamardDeviation(points, options);
+      expect(hadamard?.lower).toBeLessThan(hadamard?.poisson ?? 0);
+      expect(hadamard?.upper).toBeGreaterThan(hadamard?.poisson ?? 0);
+    });
+
+    it('should reject invalid stability options', () => {
+      const points = series([10, 12, 11, 15]);
+      expect(() => TimeSeries.allanDeviation(series([10]))).toThrow(
+        ValidationError
+      );
+      expect(() =>
+        TimeSeries.hadamardDeviation(points, { factors: [2] })
+      ).toThrow(ValidationError);
+      expect(() =>
+        TimeSeries.allanDeviation(points, { factors: [1.5] })
+      ).toThrow(ValidationError);
+      expect(() =>
+        TimeSeries.modifiedAllanDeviation(points, { confidence: 1 })
+      ).toThrow(ValidationError);
+    });
+
+    it('should reject invalid series', () => {
+      const bad: RatePoint[][] = [
+        [{ time: 1, duration: 0, counts: 1 }],
+        [{ time: 1, duration: 1, counts: -1 }],
+        [
+          { time: 2, duration: 1, counts: 1 },
+          { time: 1, duration: 1, counts: 1 },
+        ],
+      ];
+      for (const points of bad) {
+        expect(() => TimeSeries.changePoints(points)).toThrow(ValidationError);
+        expect(() => TimeSeries.detectBursts(points)).toThrow(ValidationError);
+      }
+      expect(() =>
+        TimeSeries.changePoints(series([1]), { falseAlarmProbability: 1 })
+      ).toThrow(ValidationError);
+      expect(() =>
+        TimeSeries.detectBursts(series([1]), { threshold: 0 })
+      ).toThrow(ValidationError);
+    });
+  });
+
+  describe('Coincidence', () => {
+    it('should compute n-fold accidental rates', () => {
+      expect(Coincidence.accidentalRateNFold([1000, 2000], 25e-9)).toBe(
+        Coincidence.accidentalRate(1000, 2000, 25e-9)
+      );
+      expect(
+        Coincidence.accidentalRateNFold([1e4, 2e4, 3e4], 1e-7)
+      ).toBeCloseTo(3 * 1e-14 * 6e12, 10);
+      expect(() => Coincidence.accidentalRateNFold([5], 1e-8)).toThrow(
+        ValidationError
+      );
+    });
+
+    it('should propagate singles and window uncertainties', () => {
+      const rates = [1e4, 2e4, 3e4];
+      const sigmas = [100, 0, 0];
+      const tau = 1e-7;
+
+      const singles = Coincidence.accidentalRateWithUncertainty(
+        rates,
+        sigmas,
+        tau
+      );
+      // dA/dR_A = 3 * tau^2 * R_B * R_C
+      expect(singles.uncertainty).toBeCloseTo(3 * tau ** 2 * 6e8 * 100, 10);
+
+      const window = Coincidence.accidentalRateWithUncertainty(
+        rates,
+        [0, 0, 0],
+        tau,
+        1e-8
+      );
+      // dA/dtau = 2 * A / tau
+      expect(window.uncertainty).toBeCloseTo(
+        ((2 * window.rate) / tau) * 1e-8,
+        10
+      );
+
+      // A zero rate still lets the others' uncertainty through
+      expect(
+        Coincidence.accidentalRateWithUncertainty([0, 10], [1, 1], 1e-3)
+          .uncertainty
+      ).toBeCloseTo(2 * 1e-3 * 10, 10);
+    });
+
+    it('should analyze counts with a channel map', () => {
+      const counts = [1000, 2000, 4000, 0, 50, 0, 0, 3];
+      const result = Coincidence.analyzeChannelMap(
+        counts,
+        10,
+        { singles: { A: 0, B: 1, C: 2 }, coincidences: { AB: 4, cab: 7 } },
+        1e-6
+      );
+
+      expect(result.singles.C?.rate).toBe(400);
+      const ab = result.coincidences['AB'];
+      expect(ab?.accidentalRate).toBeCloseTo(2 * 1e-6 * 100 * 200);
+      expect(ab?.trueCoincidenceRate).toBeCloseTo(5 - 0.04);
+      const abc = result.coincidences['cab'];
+      expect(abc?.inputs).toEqual(['A', 'B', 'C']);
+      expect(abc?.fold).toBe(3);
+      expect(abc?.accidentalRate).toBeCloseTo(3 * 1e-12 * 100 * 200 * 400);
+      expect(abc?.uncertainty.trueCoincidenceRate).toBeGreaterThan(
+        abc?.uncertainty.rate ?? 0
+      );
+    });
+
+    it('should reject invalid channel maps', () => {
+      const bad = [
+        { singles: { A: 0 }, coincidences: { A: 4 } },
+        { singles: { A: 0 }, coincidences: { AB: 4 } },
+        { singles: { A: 0, B: 1 }, coincidences: { AAB: 4 } },
+        { singles: { A: 0, B: 1 }, coincidences: { ABX: 4 } },
+        { singles: { A: 0, B: 0 }, coincidences: {} },
+        { singles: { A: 0, B: 1 }, coincidences: { AB: 8 } },
+      ];
+      for (const map of bad) {
+        expect(() => Coincidence.parseChannelMap(map)).toThrow(ValidationError);
+      }
+    });
+  });
+
+  describe('QuantumOptics', () => {
+    it('should compute heralded g2(0) with uncertainty', () => {
+      const result = QuantumOptics.heraldedG2({
+        singlesA: 100000,
+        coincidencesAB: 4000,
+        coincidencesAC: 5000,
+        coincidencesABC: 20,
+      });
+
+      expect(result.value).toBeCloseTo(0.1, 10);
+      const relative = Math.sqrt(1 / 20 + 1 / 100000 + 1 / 4000 + 1 / 5000);
+      expect(result.uncertainty).toBeCloseTo(0.1 * relative, 10);
+
+      const noTriples = QuantumOptics.heraldedG2({
+        singlesA: 100000,
+        coincidencesAB: 4000,
+        coincidencesAC: 5000,
+        coincidencesABC: 0,
+      });
+      expect(noTriples.value).toBe(0);
+      expect(noTriples.uncertainty).toBe(0);
+      expect(() =>
+        QuantumOptics.heraldedG2({
+          singlesA: 10,
+          coincidencesAB: 0,
+          coincidencesAC: 5,
+          coincidencesABC: 0,
+        })
+      ).toThrow(ValidationError);
+    });
+
+    it('should compute heralding and Klyshko efficiencies', () => {
+      const counts = {
+        singlesA: 10000,
+        singlesB: 20000,
+        coincidences: 2100,
+        accidentals: 100,
+        backgroundB: 0,
+      };
+
+      const heralding = QuantumOptics.heraldingEfficiency(counts);
+      expect(heralding.value).toBeCloseTo(0.2, 10);
+      expect(heralding.uncertainty).toBeCloseTo(Math.sqrt(0.16 / 10000), 10);
+
+      const klyshko = QuantumOptics.klyshkoEfficiency({
+        ...counts,
+        backgroundA: 2000,
+      });
+      expect(klyshko.a.value).toBeCloseTo(0.1, 10);
+      expect(klyshko.b.value).toBeCloseTo(0.25, 10);
+      expect(() =>
+        QuantumOptics.heraldingEfficiency({ ...counts, backgroundA: 10000 })
+      ).toThrow(ValidationError);
+      expect(() =>
+        QuantumOptics.heraldingEfficiency({ ...counts, coincidences: -1 })
+      ).toThrow(ValidationError);
+    });
+
+    it('should compute CHSH S from polarizer angle measurements', () => {
+      // Ideal |phi+> state: N(alpha, beta) proportional to cos^2(alpha - beta)
+      const measurements: PolarizationMeasurement[] = [];
+      for (const alpha of [0, 45, 90, 135]) {
+        for (const beta of [22.5, 67.5, 112.5, 157.5]) {
+          const angle = ((alpha - beta) * Math.PI) / 180;
+          measurements.push({
+            alpha,
+            beta,
+            coincidences: 1000 * Math.cos(angle) ** 2,
+          });
+        }
+      }
+
+      const result = QuantumOptics.chsh(measurements);
+      expect(result.s).toBeCloseTo(2 * Math.SQRT2, 10);
+      expect(result.correlations.abPrime.value).toBeCloseTo(-Math.SQRT1_2, 10);
+      expect(result.uncertainty).toBeGreaterThan(0);
+      expect(result.violation).toBeCloseTo(
+        (2 * Math.SQRT2 - 2) / result.uncertainty,
+        10
+      );
+
+      // Angles match modulo 180 degrees
+      expect(
+        QuantumOptics.correlation(
+          measurements.map((m) => ({ ...m, alpha: m.alpha - 180 })),
+          -180,
+          22.5
+        ).value
+      ).toBeCloseTo(Math.SQRT1_2, 10);
+      expect(() => QuantumOptics.chsh(measurements.slice(1))).toThrow(
+        'alpha=0, beta=22.5'
+      );
+    });
+
+    it('should propagate Poisson errors into the correlation', () => {
+      const measurements: PolarizationMeasurement[] = [
+        { alpha: 0, beta: 0, coincidences: 90 },
+        { alpha: 90, beta: 90, coincidences: 90 },
+        { alpha: 0, beta: 90, coincidences: 10 },
+        { alpha: 90, beta: 0, coincidences: 10 },
+      ];
+
+      const e = QuantumOptics.correlation(measurements, 0, 0);
+      expect(e.value).toBeCloseTo(0.8, 10);
+      // Binomial limit: sqrt((1 - E^2) / N)
+      expect(e.uncertainty).toBeCloseTo(Math.sqrt(0.36 / 200), 10);
+    });
+  });
+
+  describe('DeadTime', () => {
+    it('should correct a non-paralyzable counter', () => {
+      expect(DeadTime.nonParalyzable(1e5, 1e-6)).toBeCloseTo(1e5 / 0.9, 6);
+      expect(DeadTime.nonParalyzable(1e6, 1e-6)).toBe(Infinity);
+    });
+
+    it('should invert the paralyzable model', () => {
+      const trueRate = 2e5;
+      const measured = trueRate * Math.exp(-trueRate * 1e-6);
+
+      expect(DeadTime.paralyzable(measured, 1e-6)).toBeCloseTo(trueRate, 6);
+      expect(DeadTime.paralyzable(0, 1e-6)).toBe(0);
+      expect(DeadTime.paralyzable(500, 0)).toBe(500);
+      expect(DeadTime.paralyzable(4e5, 1e-6)).toBe(Infinity);
+    });
+
+    it('should propagate rate and tau uncertainties', () => {
+      const rateOnly = DeadTime.correct(1e5, 100, { tau: 1e-6 });
+      expect(rateOnly.model).toBe('non-paralyzable');
+      expect(rateOnly.uncertainty).toBeCloseTo(100 / 0.81, 6);
+
+      const both = DeadTime.correct(1e5, 100, {
+        tau: 1e-6,
+        tauUncertainty: 1e-8,
+      });
+      expect(both.uncertainty).toBeCloseTo(Math.hypot(100, 100) / 0.81, 6);
+    });
+
+    it('should match a numerical derivative for the paralyzable model', () => {
+      const options = { tau: 2e-6, model: 'paralyzable' } as const;
+      const m = 1e5;
+      const h = 1;
+      const slope =
+        (DeadTime.paralyzable(m + h, options.tau) -
+          DeadTime.paralyzable(m - h, options.tau)) /
+        (2 * h);
+
+      const result = DeadTime.correct(m, 50, options);
+      expect(result.uncertainty).toBeCloseTo(slope * 50, 4);
+      expect(result.saturated).toBe(false);
+    });
+
+    it('should flag saturated rates and reject invalid dead times', () => {
+      expect(DeadTime.correct(2e6, 1e3, { tau: 1e-6 })).toEqual({
+        rate: Infinity,
+        uncertainty: Infinity,
+        model: 'non-paralyzable',
+        saturated: true,
+      });
+      expect(() => DeadTime.correct(1, 1, { tau: -1 })).toThrow(
+        ValidationError
+      );
+      expect(() =>
+        DeadTime.correct(1, 1, { tau: 1e-6, tauUncertainty: -1 })
+      ).toThrow(ValidationError);
+      expect(() =>
+        DeadTime.correct(1, 1, {
+          tau: 1e-6,
+          model: 'extended' as DeadTimeModel,
+        })
+      ).toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  CALIBRATION_PROFILE_VERSION,
+  CalibrationProfile,
+  CalibrationStorage,
+  CalibrationWizard,
+} from '../../src/calibration.js';
+import CD48 from '../../src/cd48.js';
+import { CD48Simulator } from '../../src/simulator.js';
+
+describe('Calibration', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('CalibrationProfile backgrounds', () => {
+    it('should store backgrounds and report their age', () => {
+      const profile = new CalibrationProfile();
+      const measuredAt = '2026-01-01T00:00:00.000Z';
+      profile.setBackground(2, {
+        rate: 1.5,
+        uncertainty: 0.1,
+        duration: 60,
+        measuredAt,
+      });
+
+      expect(profile.getBackground(2)?.rate).toBe(1.5);
+      expect(profile.getBackground(3)).toBeNull();
+      expect(profile.getBackgroundAge(2, Date.parse(measuredAt) + 90_000)).toBe(
+        90
+      );
+      expect(profile.getBackgroundAge(3)).toBeNull();
+      expect(() =>
+        profile.setBackground(8, {
+          rate: 0,
+          uncertainty: 0,
+          duration: 0,
+          measuredAt,
+        })
+      ).toThrow('Channel must be between 0 and 7');
+    });
+
+    it('should round-trip backgrounds through storage', () => {
+      const storage = new CalibrationStorage();
+      const profile = new CalibrationProfile({ name: 'lab' });
+      profile.setBackground(0, {
+        rate: 3,
+        uncertainty: 0.5,
+        duration: 12,
+        measuredAt: '2026-02-03T04:05:06.000Z',
+      });
+      storage.save(profile);
+
+      const loaded = storage.load('lab');
+      expect(loaded?.backgrounds).toEqual(profile.backgrounds);
+      expect(storage.loadAll()['lab']?.version).toBe(
+        CALIBRATION_PROFILE_VERSION
+      );
+    });
+
+    it('should migrate version 1 background metadata', () => {
+      localStorage.setItem(
+        'cd48_calibration_profiles',
+        JSON.stringify({
+          old: {
+            version: 1,
+            name: 'old',
+            description: '',
+            date: '2025-06-01T00:00:00.000Z',
+            voltages: {},
+            thresholds: {},
+            gains: {},
+            offsets: {},
+            metadata: { background_ch1: 4.2, voltage_calibrated_ch1: true },
+          },
+        })
+      );
+
+      const profile = new CalibrationStorage().load('old');
+      expect(profile?.getBackground(1)).toEqual({
+        rate: 4.2,
+        uncertainty: 0,
+        duration: 0,
+        measuredAt: '2025-06-01T00:00:00.000Z',
+      });
+      expect(profile?.metadata).toEqual({ voltage_calibrated_ch1: true });
+    });
+
+    it('should subtract a migrated background without its uncertainty', async () => {
+      localStorage.setItem(
+        'cd48_calibration_profiles',
+        JSON.stringify({
+          old: {
+            name: 'old',
+            description: '',
+            date: '2025-06-01T00:00:00.000Z',
+            voltages: {},
+            thresholds: {},
+            gains: {},
+            offsets: {},
+            metadata: { background_ch0: 10 },
+          },
+        })
+      );
+      const profile = new CalibrationStorage().load('old');
+      expect(profile?.getBackground(0)?.uncertainty).toBe(0);
+
+      const cd48 = new CD48({
+        transport: new CD48Simulator({ rates: { A: 200 }, seed: 5 }),
+        commandDelay: 0,
+      });
+      await cd48.connect();
+      const rate = await cd48.measureRate(0, 0.5, {
+        subtractBackground: profile ?? new CalibrationProfile(),
+      });
+      await cd48.disconnect();
+
+      // Only the measurement's own Poisson error remains
+      expect(rate.backgroundSubtracted?.rate).toBeCloseTo(rate.rate - 10);
+      expect(rate.backgroundSubtracted?.uncertainty).toBeCloseTo(
+        rate.uncertainty.rate
+      );
+    });
+  });
+
+  describe('CalibrationWizard.measureBackground', () => {
+    let cd48: CD48;
+
+    beforeEach(async () => {
+      cd48 = new CD48({
+        transport: new CD48Simulator({ rates: { A: 200 }, seed: 5 }),
+        commandDelay: 0,
+      });
+      await cd48.connect();
+    });
+
+    afterEach(async () => {
+      await cd48.disconnect();
+    });
+
+    it('should store rates with uncertainty and timestamp', async () => {
+      const wizard = new CalibrationWizard(cd48);
+      const before = Date.now();
+
+      const rates = await wizard.measureBackground([0], 0.5);
+
+      const background = wizard.profile.getBackground(0);
+      expect(background?.rate).toBe(rates[0]);
+      expect(background?.duration).toBe(0.5);
+      expect(background?.uncertainty).toBeCloseTo(
+        Math.sqrt((background?.rate ?? 0) * 0.5) / 0.5
+      );
+      expect(Date.parse(background?.measuredAt ?? '')).toBeGreaterThanOrEqual(
+        before
+      );
+      expect(wizard.profile.metadata).toEqual({});
+    });
+  });
+});
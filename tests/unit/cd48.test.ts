@@ -1,16 +1,21 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PoissonIntervalMethod } from '../../src/analysis.js';
+import { CalibrationProfile } from '../../src/calibration.js';
 // Import CD48
 import CD48 from '../../src/cd48.js';
 
 // Import error classes
 import {
+  CommandTimeoutError,
   ConnectionError,
   FirmwareIncompatibleError,
   InvalidChannelError,
   InvalidResponseError,
   NotConnectedError,
   OperationAbortedError,
+  ValidationError,
 } from '../../src/errors.js';
+import { LoopbackTransport } from '../../src/transport.js';
 import {
   cleanupWebSerialMock,
   setupWebSerialMock,
@@ -34,7 +39,7 @@ describe('CD48', () => {
       expect((cd48 as unknown as { commandDelay: number }).commandDelay).toBe(
         50
       );
-      expect((cd48 as unknown as { port: unknown }).port).toBeNull();
+      expect((cd48 as unknown as { transport: unknown }).transport).toBeNull();
     });
 
     it('should create instance with custom options', () => {
@@ -397,6 +402,54 @@ describe('CD48', () => {
     });
   });
 
+  describe('Device Settings Parsing', () => {
+    const response = '1000 0100 0010 0001 1100 1010 0110 1111 128 0 1 0 1000';
+
+    it('should parse channel input masks', () => {
+      const settings = CD48.parseDeviceSettings(response);
+      expect(settings.channels).toHaveLength(8);
+      expect(settings.channels[0]).toEqual({ A: 1, B: 0, C: 0, D: 0 });
+      expect(settings.channels[4]).toEqual({ A: 1, B: 1, C: 0, D: 0 });
+      expect(settings.channels[7]).toEqual({ A: 1, B: 1, C: 1, D: 1 });
+    });
+
+    it('should parse voltages, impedance and repeat state', () => {
+      const settings = CD48.parseDeviceSettings(response);
+      expect(settings.triggerLevel).toBeCloseTo(2.048, 3);
+      expect(settings.dacVoltage).toBe(0);
+      expect(settings.impedance).toBe('50ohm');
+      expect(settings.repeatEnabled).toBe(false);
+      expect(settings.repeatInterval).toBe(1000);
+    });
+
+    it('should throw InvalidResponseError for the human-readable format', () => {
+      expect(() => CD48.parseDeviceSettings('Trigger level: 128')).toThrow(
+        InvalidResponseError
+      );
+    });
+
+    it('should describe the expected format', () => {
+      try {
+        CD48.parseDeviceSettings(response.replace('1000 0100', '1000 0102'));
+        expect.fail('should have thrown');
+      } catch (error) {
+        expect(error).toBeInstanceOf(InvalidResponseError);
+        expect((error as InvalidResponseError).expected).toContain(
+          'input masks'
+        );
+      }
+    });
+
+    it('should reject out-of-range bytes and intervals', () => {
+      expect(() =>
+        CD48.parseDeviceSettings(response.replace(' 128 ', ' 300 '))
+      ).toThrow(InvalidResponseError);
+      expect(() =>
+        CD48.parseDeviceSettings(response.replace(/1000$/, '50'))
+      ).toThrow(InvalidResponseError);
+    });
+  });
+
   describe('Firmware Version Comparison', () => {
     it('should return 0 for equal versions', () => {
       const result = CD48.compareFirmwareVersions(
@@ -666,6 +719,33 @@ describe('CD48', () => {
       expect(mocks.mockWriter.write).toHaveBeenCalledWith('C\r');
     });
 
+    it('should return a single-line human readable reply without waiting for the timeout', async () => {
+      const start = Date.now();
+      const result = await cd48.getCounts(true);
+      expect(result).toBe(
+        'Ch0: 0, Ch1: 0, Ch2: 0, Ch3: 0, Ch4: 0, Ch5: 0, Ch6: 0, Ch7: 0'
+      );
+      expect(Date.now() - start).toBeLessThan(1000);
+    });
+
+    it('should return every line of a multi-line human readable reply', async () => {
+      mocks.mockPort._setResponse(
+        'C\r',
+        'Ch0: 5\r\nCh1: 7\r\nCh2: 0\r\nOverflow: 0\r\n'
+      );
+      mocks.mockPort._setResponse(
+        'P\r',
+        'Trigger level: 128\r\nDAC voltage: 0\r\nImpedance: High-Z\r\n'
+      );
+
+      expect(await cd48.getCounts(true)).toBe(
+        'Ch0: 5\nCh1: 7\nCh2: 0\nOverflow: 0'
+      );
+      expect(await cd48.getSettings(true)).toBe(
+        'Trigger level: 128\nDAC voltage: 0\nImpedance: High-Z'
+      );
+    });
+
     it('should clear counts', async () => {
       await cd48.clearCounts();
       expect(mocks.mockWriter.write).toHaveBeenCalledWith('c\r');
@@ -774,6 +854,24 @@ describe('CD48', () => {
       await cd48.setChannel(0);
       expect(mocks.mockWriter.write).toHaveBeenCalledWith('S00000\r');
     });
+
+    it('should set input masks from a coincidence channel map', async () => {
+      await cd48.configureCoincidences({
+        singles: { A: 0, B: 1, C: 2 },
+        coincidences: { AB: 4, BC: 5, ABC: 7 },
+      });
+      const written = mocks.mockWriter.write.mock.calls.map((c) => c[0]);
+      expect(written).toEqual(
+        expect.arrayContaining([
+          'S01000\r',
+          'S10100\r',
+          'S20010\r',
+          'S41100\r',
+          'S50110\r',
+          'S71110\r',
+        ])
+      );
+    });
   });
 
   describe('Measurement Methods', () => {
@@ -821,6 +919,206 @@ describe('CD48', () => {
       ).rejects.toThrow(OperationAbortedError);
     });
 
+    it('should report dead-time corrected rates next to raw ones', async () => {
+      mocks.mockPort._setResponse('c\r', '9000 8000 0 0 50 0 0 0 0\r\n');
+
+      const rate = await cd48.measureRate(0, 0.1, { deadTime: { tau: 1e-6 } });
+      expect(rate.rate).toBeCloseTo(90000);
+      expect(rate.deadTimeCorrected?.rate).toBeCloseTo(90000 / 0.91);
+      expect(rate.deadTimeCorrected?.uncertainty).toBeGreaterThan(
+        rate.uncertainty.rate
+      );
+
+      const coincidence = await cd48.measureCoincidenceRate({
+        duration: 0.1,
+        deadTime: { tau: 1e-6, model: 'paralyzable' },
+      });
+      const corrected = coincidence.deadTimeCorrected;
+      expect(corrected?.model).toBe('paralyzable');
+      expect(corrected?.rateB).toBeGreaterThan(coincidence.rateB);
+      expect(corrected?.accidentalRate).toBeCloseTo(
+        2 * 25e-9 * (corrected?.rateA ?? 0) * (corrected?.rateB ?? 0)
+      );
+      expect(corrected?.saturated).toBe(false);
+      expect(
+        (await cd48.measureRate(0, 0.1)).deadTimeCorrected
+      ).toBeUndefined();
+    });
+
+    it('should reject invalid dead-time options before measuring', async () => {
+      mocks.mockWriter.write.mockClear();
+      await expect(
+        cd48.measureRate(0, 5, { deadTime: { tau: -1 } })
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        cd48.measureCoincidenceRate({
+          duration: 5,
+          deadTime: { tau: 1e-6, tauUncertainty: -1 },
+        })
+      ).rejects.toThrow(ValidationError);
+      expect(mocks.mockWriter.write).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid interval options before measuring', async () => {
+      mocks.mockWriter.write.mockClear();
+      for (const confidenceInterval of [
+        { confidence: 1 },
+        { method: 'wald' as PoissonIntervalMethod },
+        { method: 'garwood', background: 2 } as const,
+      ]) {
+        await expect(
+          cd48.measureRate(0, 5, { confidenceInterval })
+        ).rejects.toThrow(ValidationError);
+      }
+      expect(mocks.mockWriter.write).not.toHaveBeenCalled();
+    });
+
+    it('should subtract background rates from a profile', async () => {
+      mocks.mockPort._setResponse('c\r', '9000 8000 0 0 50 0 0 0 0\r\n');
+      const profile = new CalibrationProfile();
+      const measuredAt = new Date().toISOString();
+      profile.setBackground(0, {
+        rate: 1000,
+        uncertainty: 30,
+        duration: 10,
+        measuredAt,
+      });
+      profile.setBackground(1, {
+        rate: 2000,
+        uncertainty: 40,
+        duration: 10,
+        measuredAt,
+      });
+      profile.setBackground(4, {
+        rate: 100,
+        uncertainty: 10,
+        duration: 10,
+        measuredAt,
+      });
+
+      const rate = await cd48.measureRate(0, 0.1, {
+        subtractBackground: profile,
+      });
+      expect(rate.backgroundSubtracted?.rate).toBeCloseTo(89000);
+      expect(rate.backgroundSubtracted?.uncertainty).toBeCloseTo(
+        Math.hypot(Math.sqrt(9000) / 0.1, 30)
+      );
+      expect(rate.backgroundSubtracted?.background.rate).toBe(1000);
+      expect(rate.backgroundSubtracted?.stale).toBe(false);
+
+      const coincidence = await cd48.measureCoincidenceRate({
+        duration: 0.1,
+        subtractBackground: profile,
+      });
+      const net = coincidence.backgroundSubtracted;
+      expect(net?.rateB).toBeCloseTo(78000);
+      expect(net?.coincidenceRate).toBeCloseTo(400);
+      // Background true rate: 100 - 2 * 25e-9 * 1000 * 2000
+      expect(net?.trueCoincidenceRate).toBeCloseTo(
+        coincidence.trueCoincidenceRate - (100 - 0.1)
+      );
+      expect(net?.uncertainty.coincidenceRate).toBeCloseTo(
+        Math.hypot(coincidence.uncertainty.coincidenceRate, 10)
+      );
+    });
+
+    it('should subtract the background from an unclamped true coincidence rate', async () => {
+      // Accidentals 2 * 25e-9 * 20000 * 10000 = 10/s with no coincidences
+      mocks.mockPort._setResponse('c\r', '2000 1000 0 0 0 0 0 0 0\r\n');
+      const profile = new CalibrationProfile();
+      const measuredAt = new Date().toISOString();
+      for (const [channel, rate] of [
+        [0, 1000],
+        [1, 2000],
+        [4, 100],
+      ] as const) {
+        profile.setBackground(channel, {
+          rate,
+          uncertainty: 10,
+          duration: 10,
+          measuredAt,
+        });
+      }
+
+      const coincidence = await cd48.measureCoincidenceRate({
+        duration: 0.1,
+        subtractBackground: profile,
+      });
+      expect(coincidence.trueCoincidenceRate).toBe(0);
+      // (0 - 10) - (100 - 2 * 25e-9 * 1000 * 2000)
+      expect(coincidence.backgroundSubtracted?.trueCoincidenceRate).toBeCloseTo(
+        -109.9
+      );
+    });
+
+    it('should warn about stale backgrounds and reject missing ones', async () => {
+      const profile = new CalibrationProfile();
+      profile.setBackground(0, {
+        rate: 1,
+        uncertainty: 0.1,
+        duration: 100,
+        measuredAt: new Date(Date.now() - 7200_000).toISOString(),
+      });
+      const stale = vi.fn();
+      cd48.on('staleBackground', stale);
+
+      const rate = await cd48.measureRate(0, 0.1, {
+        subtractBackground: profile,
+        maxBackgroundAge: 3600,
+      });
+      expect(rate.backgroundSubtracted?.stale).toBe(true);
+      expect(stale).toHaveBeenCalledWith(
+        expect.objectContaining({ channel: 0, maxAge: 3600 })
+      );
+      expect(stale.mock.calls[0]?.[0].age).toBeGreaterThan(7199);
+
+      await cd48.measureRate(0, 0.1, { subtractBackground: profile });
+      expect(stale).toHaveBeenCalledTimes(1);
+
+      await expect(
+        cd48.measureRate(1, 0.1, { subtractBackground: profile })
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        cd48.measureCoincidenceRate({ subtractBackground: profile })
+      ).rejects.toThrow('channel 1');
+    });
+
+    it('should measure coincidences described by a channel map', async () => {
+      mocks.mockPort._setResponse('c\r', '9000 8000 7000 0 50 0 0 2 0\r\n');
+      const map = {
+        singles: { A: 0, B: 1, C: 2 },
+        coincidences: { AB: 4, ABC: 7 },
+      };
+
+      const result = await cd48.measureCoincidences(map, {
+        duration: 0.1,
+        coincidenceWindow: 1e-7,
+      });
+      expect(result.singles.B?.rate).toBeCloseTo(80000);
+      expect(result.coincidences['ABC']?.rate).toBeCloseTo(20);
+      expect(result.coincidences['ABC']?.accidentalRate).toBeCloseTo(
+        3 * 1e-14 * 90000 * 80000 * 70000
+      );
+      expect(result.overflowed).toBe(false);
+      await expect(
+        cd48.measureCoincidences({ singles: {}, coincidences: { AB: 4 } })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should report an asymmetric interval when asked', async () => {
+      mocks.mockPort._setResponse('c\r', '0 0 0 0 0 0 0 0 0\r\n');
+
+      const rate = await cd48.measureRate(0, 0.5, {
+        confidenceInterval: { confidence: 0.9, method: 'feldman-cousins' },
+      });
+      expect(rate.uncertainty.rate).toBe(0);
+      expect(rate.confidenceInterval?.lower).toBe(0);
+      expect(rate.confidenceInterval?.upper).toBeCloseTo(2.44 / 0.5, 1);
+      expect(
+        (await cd48.measureRate(0, 0.1)).confidenceInterval
+      ).toBeUndefined();
+    });
+
     it('should measure coincidence rate with default options', async () => {
       const result = await cd48.measureCoincidenceRate({
         duration: 0.1,
@@ -1176,9 +1474,7 @@ describe('CD48', () => {
       await cd48.connect();
 
       // Manually simulate disconnect
-      (cd48 as unknown as { port: unknown }).port = null;
-      (cd48 as unknown as { reader: unknown }).reader = null;
-      (cd48 as unknown as { writer: unknown }).writer = null;
+      (cd48 as unknown as { transport: unknown }).transport = null;
 
       // This should trigger auto-reconnect and succeed
       const version = await cd48.sendCommand('v');
@@ -1222,9 +1518,7 @@ describe('CD48', () => {
       cd48.onReconnectFailed(reconnectFailedCallback);
 
       // Set internal state to trigger auto-reconnect
-      (cd48 as unknown as { port: unknown }).port = null;
-      (cd48 as unknown as { reader: unknown }).reader = null;
-      (cd48 as unknown as { writer: unknown }).writer = null;
+      (cd48 as unknown as { transport: unknown }).transport = null;
       (cd48 as unknown as { _connectionState: string })._connectionState =
         'connected';
 
@@ -1348,46 +1642,262 @@ describe('CD48', () => {
   });
 
   describe('Callback Registration', () => {
-    it('should register onDisconnect callback', () => {
+    it('should keep every onDisconnect callback', () => {
       const cd48 = new CD48();
-      const callback = vi.fn();
-      cd48.onDisconnect(callback);
+      const first = vi.fn();
+      const second = vi.fn();
+      cd48.onDisconnect(first);
+      const off = cd48.onDisconnect(second);
 
-      expect(
-        (cd48 as unknown as { _onDisconnect: typeof callback })._onDisconnect
-      ).toBe(callback);
+      expect(cd48.listenerCount('disconnect')).toBe(2);
+      off();
+      expect(cd48.listenerCount('disconnect')).toBe(1);
     });
 
     it('should register onReconnect callback', () => {
       const cd48 = new CD48();
-      const callback = vi.fn();
-      cd48.onReconnect(callback);
-
-      expect(
-        (cd48 as unknown as { _onReconnect: typeof callback })._onReconnect
-      ).toBe(callback);
+      cd48.onReconnect(vi.fn());
+      expect(cd48.listenerCount('reconnect')).toBe(1);
     });
 
     it('should register onReconnectFailed callback', () => {
       const cd48 = new CD48();
-      const callback = vi.fn();
-      cd48.onReconnectFailed(callback);
-
-      expect(
-        (cd48 as unknown as { _onReconnectFailed: typeof callback })
-          ._onReconnectFailed
-      ).toBe(callback);
+      cd48.onReconnectFailed(vi.fn());
+      expect(cd48.listenerCount('reconnectFailed')).toBe(1);
     });
 
     it('should register onConnectionStateChange callback', () => {
       const cd48 = new CD48();
-      const callback = vi.fn();
-      cd48.onConnectionStateChange(callback);
+      cd48.onConnectionStateChange(vi.fn());
+      expect(cd48.listenerCount('connectionStateChange')).toBe(1);
+    });
+  });
 
-      expect(
-        (cd48 as unknown as { _onConnectionStateChange: typeof callback })
-          ._onConnectionStateChange
-      ).toBe(callback);
+  describe('Events', () => {
+    const connectLoopback = async (
+      responder: (command: string) => string | undefined,
+      options: { commandRetries?: number } = {}
+    ): Promise<CD48> => {
+      const cd48 = new CD48({
+        transport: new LoopbackTransport({ responder }),
+        commandDelay: 0,
+        retryDelay: 0,
+        ...options,
+      });
+      await cd48.connect();
+      return cd48;
+    };
+
+    it('should emit command and response events', async () => {
+      const cd48 = await connectLoopback(() => 'CD48 v1.2.3\r\n');
+      const commands = vi.fn();
+      const responses = vi.fn();
+      cd48.on('command', commands);
+      cd48.on('response', responses);
+
+      await cd48.getVersion();
+
+      expect(commands).toHaveBeenCalledWith({ command: 'v', attempt: 1 });
+      expect(responses).toHaveBeenCalledWith(
+        expect.objectContaining({ command: 'v', response: 'CD48 v1.2.3' })
+      );
+      await cd48.disconnect();
+    });
+
+    it('should emit timeout and retry events', async () => {
+      const cd48 = await connectLoopback(() => undefined, {
+        commandRetries: 1,
+      });
+      const timeouts = vi.fn();
+      const retries = vi.fn();
+      cd48.on('timeout', timeouts);
+      cd48.on('retry', retries);
+
+      await expect(cd48.getVersion()).rejects.toThrow();
+
+      expect(timeouts).toHaveBeenCalledTimes(2);
+      expect(timeouts).toHaveBeenLastCalledWith({
+        command: 'v',
+        timeoutMs: 1000,
+        attempt: 2,
+      });
+      expect(retries).toHaveBeenCalledWith(
+        expect.objectContaining({ command: 'v', attempt: 2 })
+      );
+      await cd48.disconnect();
+    });
+
+    it('should emit overflow events with the affected channels', async () => {
+      const cd48 = await connectLoopback((command) =>
+        command === 'c' ? '1 2 3 4 5 6 7 8 5\r\n' : '0\r\n'
+      );
+      const overflow = vi.fn();
+      cd48.on('overflow', overflow);
+
+      await cd48.getCounts();
+      await cd48.getOverflow();
+
+      expect(overflow).toHaveBeenCalledTimes(1);
+      expect(overflow).toHaveBeenCalledWith({ overflow: 5, channels: [0, 2] });
+      await cd48.disconnect();
+    });
+
+    it('should emit firmware info', async () => {
+      const cd48 = await connectLoopback(() => 'CD48 v1.2.3\r\n');
+      const firmware = vi.fn();
+      cd48.once('firmware', firmware);
+
+      await cd48.getFirmwareInfo();
+      await cd48.getFirmwareInfo();
+
+      expect(firmware).toHaveBeenCalledTimes(1);
+      expect(firmware).toHaveBeenCalledWith(
+        expect.objectContaining({ major: 1, minor: 2, patch: 3 })
+      );
+      await cd48.disconnect();
+    });
+
+    it('should notify every listener until unsubscribed', async () => {
+      const cd48 = await connectLoopback(() => 'OK\r\n');
+      const controller = new AbortController();
+      const widget = vi.fn();
+      const logger = vi.fn();
+      cd48.on('disconnect', widget, { signal: controller.signal });
+      cd48.on('disconnect', logger);
+      controller.abort();
+
+      await cd48.disconnect();
+
+      expect(widget).not.toHaveBeenCalled();
+      expect(logger).toHaveBeenCalledWith({ reason: 'requested' });
+    });
+  });
+
+  describe('Command Queue', () => {
+    let transport: LoopbackTransport;
+    let cd48: CD48;
+    let release: () => void;
+
+    beforeEach(async () => {
+      // The first command 'hold' stays on the wire until release() is called
+      transport = new LoopbackTransport({
+        responder: async (command) => {
+          if (command === 'hold') {
+            await new Promise<void>((resolve) => {
+              release = resolve;
+            });
+          }
+          return `${command}-ok\r\n`;
+        },
+      });
+      cd48 = new CD48({ transport, commandDelay: 0 });
+      await cd48.connect();
+    });
+
+    afterEach(async () => {
+      await cd48.disconnect();
+    });
+
+    /** Wait until 'hold' is on the wire */
+    const holding = async (): Promise<void> => {
+      await vi.waitFor(() => expect(transport.written).toContain('hold\r'));
+    };
+
+    it('should run queued commands by priority, then in call order', async () => {
+      const held = cd48.sendCommand('hold');
+      await holding();
+      const results = [
+        cd48.sendCommand('low', { priority: 'low' }),
+        cd48.sendCommand('first'),
+        cd48.sendCommand('urgent', { priority: 'high' }),
+        cd48.sendCommand('second'),
+      ];
+
+      expect(cd48.queueDepth).toBe(4);
+      expect(cd48.queuedCommands.map((c) => c.command)).toEqual([
+        'urgent',
+        'first',
+        'second',
+        'low',
+      ]);
+      release();
+
+      expect(await held).toBe('hold-ok');
+      expect(await Promise.all(results)).toEqual([
+        'low-ok',
+        'first-ok',
+        'urgent-ok',
+        'second-ok',
+      ]);
+      expect(transport.written).toEqual([
+        'hold\r',
+        'urgent\r',
+        'first\r',
+        'second\r',
+        'low\r',
+      ]);
+      expect(cd48.queueDepth).toBe(0);
+    });
+
+    it('should drop a queued command when its signal aborts', async () => {
+      const controller = new AbortController();
+      const held = cd48.sendCommand('hold');
+      await holding();
+      const cancelled = cd48.sendCommand('cancel', {
+        signal: controller.signal,
+      });
+
+      controller.abort();
+      await expect(cancelled).rejects.toThrow(OperationAbortedError);
+      expect(cd48.queueDepth).toBe(0);
+      await expect(
+        cd48.sendCommand('late', { signal: controller.signal })
+      ).rejects.toThrow(OperationAbortedError);
+
+      release();
+      await held;
+      expect(transport.written).toEqual(['hold\r']);
+    });
+
+    it('should keep the reply of an aborted command off the next one', async () => {
+      const controller = new AbortController();
+      const held = cd48.sendCommand('hold', { signal: controller.signal });
+      await holding();
+      const next = cd48.sendCommand('next');
+
+      controller.abort();
+      await expect(held).rejects.toThrow(OperationAbortedError);
+      release();
+
+      expect(await next).toBe('next-ok');
+    });
+
+    it('should apply a per-command timeout', async () => {
+      transport.setResponder(() => undefined);
+      const start = Date.now();
+
+      await expect(cd48.sendCommand('v', { timeoutMs: 150 })).rejects.toThrow(
+        CommandTimeoutError
+      );
+      expect(Date.now() - start).toBeLessThan(900);
+      await expect(cd48.sendCommand('v', { timeoutMs: 0 })).rejects.toThrow(
+        ValidationError
+      );
+    });
+
+    it('should reject pending commands on flush and on disconnect', async () => {
+      const held = cd48.sendCommand('hold');
+      await holding();
+      const flushed = cd48.sendCommand('a');
+      expect(cd48.flush()).toBe(1);
+      await expect(flushed).rejects.toThrow(OperationAbortedError);
+
+      const dropped = cd48.getCounts();
+      transport.simulateDisconnect();
+      await expect(dropped).rejects.toThrow(OperationAbortedError);
+
+      release();
+      await held;
     });
   });
 
@@ -1620,7 +2130,8 @@ describe('CD48', () => {
       await cd48.connect();
 
       // Set writer to null to simulate connection loss
-      (cd48 as unknown as { writer: null }).writer = null;
+      (cd48 as unknown as { transport: { writer: null } }).transport.writer =
+        null;
 
       await expect(cd48.sendCommand('v')).rejects.toThrow(NotConnectedError);
     });
@@ -1633,7 +2144,8 @@ describe('CD48', () => {
       await cd48.connect();
 
       // Set reader to null to simulate connection loss
-      (cd48 as unknown as { reader: null }).reader = null;
+      (cd48 as unknown as { transport: { reader: null } }).transport.reader =
+        null;
 
       await expect(cd48.sendCommand('v')).rejects.toThrow(NotConnectedError);
     });
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import CD48 from '../../src/cd48.js';
+import {
+  COMMAND_DESCRIPTORS,
+  frameResponse,
+  getCommandDescriptor,
+} from '../../src/commands.js';
+import { CommandTimeoutError } from '../../src/errors.js';
+import { CD48Simulator } from '../../src/simulator.js';
+import { LoopbackTransport } from '../../src/transport.js';
+
+describe('Command descriptors', () => {
+  describe('getCommandDescriptor', () => {
+    it('should look commands up by their first character', () => {
+      expect(getCommandDescriptor('L128')).toBe(COMMAND_DESCRIPTORS['L']);
+      expect(getCommandDescriptor('C').framing).toEqual({
+        type: 'idle',
+        gapMs: 250,
+      });
+      expect(getCommandDescriptor('H').framing.type).toBe('idle');
+    });
+
+    it('should treat unknown commands as single-line', () => {
+      const descriptor = getCommandDescriptor('?');
+      expect(descriptor.framing).toEqual({ type: 'line' });
+      expect(descriptor.timeoutMs).toBe(1000);
+    });
+  });
+
+  describe('frameResponse', () => {
+    it('should end a single-line response at the first terminator', () => {
+      expect(frameResponse('CD48 v1', { type: 'line' }).complete).toBe(false);
+      expect(frameResponse(' CD48 v1\r\n', { type: 'line' })).toEqual({
+        complete: true,
+        text: 'CD48 v1',
+      });
+    });
+
+    it('should count only terminated, non-empty lines', () => {
+      const framing = { type: 'lines', count: 2 } as const;
+      expect(frameResponse('a\r\n\r\nb', framing).complete).toBe(false);
+      expect(frameResponse('a\r\n\r\nb\r\n', framing)).toEqual({
+        complete: true,
+        text: 'a\nb',
+      });
+    });
+
+    it('should end at a prompt and strip it', () => {
+      const framing = { type: 'prompt', prompt: '>' } as const;
+      expect(frameResponse('one\r\ntwo\r\n', framing).complete).toBe(false);
+      expect(frameResponse('one\r\ntwo\r\n> ', framing)).toEqual({
+        complete: true,
+        text: 'one\ntwo',
+      });
+    });
+
+    it('should never complete an idle-framed response by content', () => {
+      expect(frameResponse('a\r\nb\r\n', { type: 'idle', gapMs: 100 })).toEqual(
+        { complete: false, text: 'a\nb' }
+      );
+    });
+  });
+
+  describe('CD48 responses', () => {
+    let simulator: CD48Simulator;
+    let cd48: CD48;
+
+    beforeEach(async () => {
+      simulator = new CD48Simulator({ rates: { A: 1000 }, seed: 3 });
+      cd48 = new CD48({ transport: simulator, commandDelay: 0 });
+      await cd48.connect();
+    });
+
+    afterEach(async () => {
+      await cd48.disconnect();
+    });
+
+    it('should return the complete multi-line outputs', async () => {
+      const help = await cd48.getHelp();
+      expect(help.split('\n')).toHaveLength(9);
+      expect(help).toContain('toggle repeat');
+
+      const counts = await cd48.getCounts(true);
+      expect(counts.split('\n')).toHaveLength(9);
+      expect(counts).toMatch(/^Ch0: \d+\nCh1/);
+
+      const settings = await cd48.getSettings(true);
+      expect(settings.split('\n')).toHaveLength(12);
+      expect(settings).toContain('Impedance: High-Z');
+
+      // The next command gets its own reply, not leftover lines
+      expect(await cd48.getVersion()).toBe('CD48 Simulator v1.0.0');
+    });
+
+    it('should frame multi-line replies while streaming', async () => {
+      const stream = await cd48.stream({ intervalMs: 100 });
+      await cd48.sleep(150);
+
+      const settings = await cd48.getSettings(true);
+      expect(settings.split('\n')).toHaveLength(12);
+      expect(await cd48.getHelp()).toContain('this help');
+
+      await stream.stop();
+    });
+  });
+
+  describe('custom descriptors', () => {
+    it('should use descriptors passed to CD48', async () => {
+      const transport = new LoopbackTransport({
+        responder: (command) =>
+          command === 'X' ? 'first\r\nsecond\r\n> ' : undefined,
+      });
+      const cd48 = new CD48({
+        transport,
+        commandDelay: 0,
+        commands: {
+          X: {
+            description: 'Multi-line with prompt',
+            framing: { type: 'prompt', prompt: '>' },
+            timeoutMs: 500,
+          },
+        },
+      });
+      await cd48.connect();
+
+      expect(await cd48.sendCommand('X')).toBe('first\nsecond');
+      const start = Date.now();
+      await expect(cd48.sendCommand('Y', { timeoutMs: 200 })).rejects.toThrow(
+        CommandTimeoutError
+      );
+      expect(Date.now() - start).toBeLessThan(800);
+      await cd48.disconnect();
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import CD48 from '../../src/cd48.js';
+import {
+  type DeviceConfig,
+  deviceConfigFromSettings,
+  diffDeviceConfig,
+  parseDeviceConfig,
+  stringifyDeviceConfig,
+  validateDeviceConfig,
+} from '../../src/device-config.js';
+import {
+  ConfigVerificationError,
+  InvalidChannelError,
+  ValidationError,
+} from '../../src/errors.js';
+import { CD48Simulator } from '../../src/simulator.js';
+import { LoopbackTransport } from '../../src/transport.js';
+
+const DEFAULT_SETTINGS =
+  '1000 0100 0010 0001 1100 1010 0110 1110 128 0 0 0 1000';
+
+describe('Device configuration', () => {
+  describe('diffDeviceConfig', () => {
+    const settings = CD48.parseDeviceSettings(DEFAULT_SETTINGS);
+
+    it('should report nothing when the device already matches', () => {
+      const config: DeviceConfig = {
+        channels: { 0: { A: 1 }, 4: { A: 1, B: 1 } },
+        triggerLevel: 2.048,
+        impedance: 'highz',
+        repeatEnabled: false,
+      };
+      expect(diffDeviceConfig(config, settings)).toEqual([]);
+    });
+
+    it('should list differing settings with repeat mode last', () => {
+      const config: DeviceConfig = {
+        repeatEnabled: true,
+        channels: { 7: { C: 1, D: 1 } },
+        impedance: '50ohm',
+      };
+      const diff = diffDeviceConfig(config, settings);
+      expect(diff.map((d) => d.setting)).toEqual([
+        'channels[7]',
+        'impedance',
+        'repeatEnabled',
+      ]);
+      expect(diff[0]?.expected).toEqual({ A: 0, B: 0, C: 1, D: 1 });
+    });
+
+    it('should compare voltages at DAC resolution', () => {
+      expect(diffDeviceConfig({ triggerLevel: 2.05 }, settings)).toEqual([]);
+      expect(diffDeviceConfig({ triggerLevel: 2.1 }, settings)).toHaveLength(1);
+    });
+  });
+
+  describe('validation and JSON', () => {
+    it('should reject invalid settings', () => {
+      expect(() => validateDeviceConfig({ channels: { 8: { A: 1 } } })).toThrow(
+        InvalidChannelError
+      );
+      expect(() => validateDeviceConfig({ triggerLevel: 5 })).toThrow(
+        ValidationError
+      );
+      expect(() => validateDeviceConfig({ repeatInterval: 10 })).toThrow(
+        ValidationError
+      );
+    });
+
+    it('should round-trip through JSON', () => {
+      const config = deviceConfigFromSettings(
+        CD48.parseDeviceSettings(DEFAULT_SETTINGS),
+        { name: 'Bench setup' }
+      );
+      const restored = parseDeviceConfig(stringifyDeviceConfig(config));
+      expect(restored).toEqual(config);
+      expect(restored.version).toBe(1);
+    });
+
+    it('should reject malformed JSON configs', () => {
+      expect(() => parseDeviceConfig('[]')).toThrow(ValidationError);
+      expect(() => parseDeviceConfig('{"channels": {"0": {"E": 1}}}')).toThrow(
+        ValidationError
+      );
+      expect(() => parseDeviceConfig('{"version": 99}')).toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe('CD48.applyConfig', () => {
+    let simulator: CD48Simulator;
+    let cd48: CD48;
+
+    beforeEach(async () => {
+      simulator = new CD48Simulator();
+      cd48 = new CD48({ transport: simulator, commandDelay: 0 });
+      await cd48.connect();
+    });
+
+    afterEach(async () => {
+      await cd48.disconnect();
+    });
+
+    it('should send only the commands needed', async () => {
+      const result = await cd48.applyConfig({
+        channels: { 0: { A: 1 }, 6: { B: 1, D: 1 } },
+        dacVoltage: 1.0,
+        impedance: '50ohm',
+      });
+
+      expect(result.changes.map((c) => c.setting)).toEqual([
+        'channels[6]',
+        'dacVoltage',
+        'impedance',
+      ]);
+      expect(result.after.channels[6]).toEqual({ A: 0, B: 1, C: 0, D: 1 });
+      expect(result.after.impedance).toBe('50ohm');
+      expect(simulator.getSettings().channelMasks[6]).toBe(0b1010);
+    });
+
+    it('should be a no-op when reapplied', async () => {
+      const config: DeviceConfig = { triggerLevel: 0.5, repeatInterval: 250 };
+      await cd48.applyConfig(config);
+      const again = await cd48.applyConfig(config);
+      expect(again.changes).toEqual([]);
+    });
+
+    it('should throw when the device does not take the settings', async () => {
+      await cd48.disconnect();
+      const stubborn = new CD48({
+        transport: new LoopbackTransport({
+          responder: (command) =>
+            command === 'p' ? `${DEFAULT_SETTINGS}\r\n` : 'OK\r\n',
+        }),
+        commandDelay: 0,
+      });
+      await stubborn.connect();
+
+      const attempt = stubborn.applyConfig({ impedance: '50ohm' });
+      await expect(attempt).rejects.toThrow(ConfigVerificationError);
+      await expect(attempt).rejects.toMatchObject({
+        differences: [{ setting: 'impedance', actual: 'highz' }],
+      });
+      await stubborn.disconnect();
+    });
+  });
+});
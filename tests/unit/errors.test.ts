@@ -11,6 +11,7 @@ import {
   InvalidVoltageError,
   NotConnectedError,
   OperationAbortedError,
+  ReplayMismatchError,
   UnsupportedBrowserError,
   ValidationError,
 } from '../../src/errors.js';
@@ -174,6 +175,17 @@ describe('CD48 Error Classes', () => {
     });
   });
 
+  describe('ReplayMismatchError', () => {
+    it('should create error with expected and actual writes', () => {
+      const error = new ReplayMismatchError('v\r', 'c\r');
+      expect(error.message).toContain('"c\\r"');
+      expect(error.name).toBe('ReplayMismatchError');
+      expect(error.expected).toBe('v\r');
+      expect(error.actual).toBe('c\r');
+      expect(error instanceof CD48Error).toBe(true);
+    });
+  });
+
   describe('ConnectionError without cause', () => {
     it('should create error without cause', () => {
       const error = new ConnectionError('port not found');
@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from 'vitest';
+import { TypedEventEmitter } from '../../src/events.js';
+
+interface TestEvents {
+  value: number;
+  name: string;
+}
+
+class Emitter extends TypedEventEmitter<TestEvents> {
+  public fire<K extends keyof TestEvents>(event: K, payload: TestEvents[K]) {
+    this.emit(event, payload);
+  }
+}
+
+describe('TypedEventEmitter', () => {
+  it('should call listeners with the payload until unsubscribed', () => {
+    const emitter = new Emitter();
+    const listener = vi.fn();
+    const off = emitter.on('value', listener);
+
+    emitter.fire('value', 1);
+    off();
+    emitter.fire('value', 2);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(1);
+    expect(emitter.listenerCount('value')).toBe(0);
+  });
+
+  it('should call once listeners a single time', () => {
+    const emitter = new Emitter();
+    const listener = vi.fn();
+    emitter.once('name', listener);
+
+    emitter.fire('name', 'a');
+    emitter.fire('name', 'b');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith('a');
+  });
+
+  it('should remove listeners when the signal aborts', () => {
+    const emitter = new Emitter();
+    const controller = new AbortController();
+    const listener = vi.fn();
+    emitter.on('value', listener, { signal: controller.signal });
+
+    controller.abort();
+    emitter.fire('value', 1);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should keep notifying after a listener throws', async () => {
+    const emitter = new Emitter();
+    const after = vi.fn();
+    const errors: unknown[] = [];
+    const originalQueue = globalThis.queueMicrotask;
+    globalThis.queueMicrotask = (callback) => {
+      try {
+        callback();
+      } catch (error) {
+        errors.push(error);
+      }
+    };
+
+    try {
+      emitter.on('value', () => {
+        throw new Error('listener failed');
+      });
+      emitter.on('value', after);
+      emitter.fire('value', 1);
+    } finally {
+      globalThis.queueMicrotask = originalQueue;
+    }
+
+    expect(after).toHaveBeenCalledWith(1);
+    expect(errors).toHaveLength(1);
+  });
+});
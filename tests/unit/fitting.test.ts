@@ -0,0 +1,372 @@
+import { describe, expect, it } from 'vitest';
+import type { RatePoint } from '../../src/analysis.js';
+import type { RateMeasurement } from '../../src/cd48.js';
+import { ValidationError } from '../../src/errors.js';
+import {
+  type CurveModel,
+  CurveModels,
+  Fitting,
+  type TimestampedRate,
+} from '../../src/fitting.js';
+import { chiSquareSf } from '../../src/special-functions.js';
+import { mulberry32, poisson } from '../mocks/random.js';
+
+const START = Date.parse('2026-03-01T12:00:00Z');
+
+/**
+ * Decay series of back-to-back intervals. Counts are the exact expected
+ * values unless a generator is given.
+ */
+function decaySeries(
+  components: ReadonlyArray<{ amplitude: number; halfLife: number }>,
+  background: number,
+  intervals: number,
+  duration: number,
+  random?: () => number
+): RatePoint[] {
+  return Array.from({ length: intervals }, (_, i) => {
+    const start = i * duration;
+    let expected = background * duration;
+    for (const { amplitude, halfLife } of components) {
+      const k = Math.LN2 / halfLife;
+      expected +=
+        (amplitude / k) *
+        (Math.exp(-k * start) - Math.exp(-k * (start + duration)));
+    }
+    return {
+      time: START + (start + duration) * 1000,
+      duration,
+      counts: random === undefined ? expected : poisson(expected, random),
+    };
+  });
+}
+
+/** Wrap a rate series as timestamped measurements */
+function measurements(points: ReadonlyArray<RatePoint>): TimestampedRate[] {
+  return points.map((p) => {
+    const data: RateMeasurement = {
+      counts: p.counts,
+      duration: p.duration,
+      rate: p.counts / p.duration,
+      channel: 0,
+      uncertainty: {
+        counts: Math.sqrt(p.counts),
+        rate: Math.sqrt(p.counts) / p.duration,
+        relative: 1 / Math.sqrt(p.counts),
+      },
+      overflowed: false,
+    };
+    return { timestamp: new Date(p.time).toISOString(), data };
+  });
+}
+
+describe('Fitting', () => {
+  describe('fitDecay', () => {
+    it('should recover exact decay curves with both methods', () => {
+      const points = decaySeries([{ amplitude: 500, halfLife: 30 }], 5, 40, 5);
+
+      for (const method of ['poisson', 'least-squares'] as const) {
+        const fit = Fitting.fitDecay(points, { method });
+        expect(fit.method).toBe(method);
+        expect(fit.converged).toBe(true);
+        expect(fit.parameters.amplitude).toBeCloseTo(500, 3);
+        expect(fit.parameters.decayConstant).toBeCloseTo(Math.LN2 / 30, 8);
+        expect(fit.parameters.background).toBeCloseTo(5, 4);
+        expect(fit.halfLife.value).toBeCloseTo(30, 4);
+        expect(fit.chiSquare).toBeCloseTo(0, 6);
+        expect(fit.dof).toBe(37);
+      }
+    });
+
+    it('should give uncertainties consistent with Poisson scatter', () => {
+      const points = decaySeries(
+        [{ amplitude: 200, halfLife: 30 }],
+        4,
+        60,
+        5,
+        mulberry32(7)
+      );
+      const fit = Fitting.fitDecay(points);
+
+      expect(fit.parameterNames).toEqual([
+        'amplitude',
+        'decayConstant',
+        'background',
+      ]);
+      expect(Math.abs(fit.halfLife.value - 30)).toBeLessThan(
+        3 * fit.halfLife.uncertainty
+      );
+      expect(fit.halfLife.uncertainty).toBeGreaterThan(0.2);
+      expect(fit.halfLife.uncertainty).toBeLessThan(1);
+      expect(fit.reducedChiSquare).toBeGreaterThan(0.6);
+      expect(fit.reducedChiSquare).toBeLessThan(1.6);
+
+      // Covariance is symmetric with the variances on its diagonal
+      const { covariance } = fit;
+      expect(covariance[0]?.[1]).toBeCloseTo(covariance[1]?.[0] ?? 0, 10);
+      expect(Math.sqrt(covariance[1]?.[1] ?? 0)).toBeCloseTo(
+        fit.uncertainties.decayConstant,
+        12
+      );
+      expect(fit.halfLife.uncertainty).toBeCloseTo(
+        (fit.halfLife.value * fit.uncertainties.decayConstant) /
+          fit.parameters.decayConstant,
+        10
+      );
+    });
+
+    it('should accept timestamped rate measurements', () => {
+      const points = decaySeries(
+        [{ amplitude: 100, halfLife: 20 }],
+        2,
+        30,
+        4,
+        mulberry32(3)
+      );
+      const series = measurements(points);
+
+      expect(Fitting.fromMeasurements(series)).toEqual(points);
+      const fromSeries = Fitting.fitDecay(series);
+      const fromPoints = Fitting.fitDecay(points);
+      expect(fromSeries.parameters).toEqual(fromPoints.parameters);
+    });
+
+    it('should reject unusable data and options', () => {
+      const points = decaySeries([{ amplitude: 100, halfLife: 20 }], 2, 10, 4);
+      const [first] = measurements(points);
+      if (first === undefined) throw new Error('no measurement');
+
+      expect(() => Fitting.fitDecay(points.slice(0, 3))).toThrow(
+        ValidationError
+      );
+      expect(() =>
+        Fitting.fromMeasurements([
+          { ...first, data: { ...first.data, overflowed: true } },
+        ])
+      ).toThrow('overflowed');
+      expect(() =>
+        Fitting.fromMeasurements([{ ...first, timestamp: 'yesterday' }])
+      ).toThrow(ValidationError);
+      expect(() => Fitting.fitDecay(points, { maxIterations: 0 })).toThrow(
+        ValidationError
+      );
+      expect(() =>
+        Fitting.fitDecay(points, { initial: { decayConstant: Number.NaN } })
+      ).toThrow(ValidationError);
+      // A flat series says nothing about the decay constant
+      expect(() =>
+        Fitting.fitDecay(decaySeries([], 10, 10, 4), {
+          initial: { amplitude: 0 },
+        })
+      ).toThrow(ValidationError);
+    });
+  });
+
+  describe('fitDoubleDecay', () => {
+    it('should separate two components, shorter-lived first', () => {
+      const components = [
+        { amplitude: 300, halfLife: 8 },
+        { amplitude: 50, halfLife: 120 },
+      ];
+      const exact = Fitting.fitDoubleDecay(
+        decaySeries(components, 2, 100, 4),
+        // Start with the components swapped
+        {
+          initial: {
+            amplitude: 50,
+            decayConstant: 0.005,
+            amplitude2: 300,
+            decayConstant2: 0.1,
+          },
+        }
+      );
+      expect(exact.halfLives[0].value).toBeCloseTo(8, 4);
+      expect(exact.halfLives[1].value).toBeCloseTo(120, 3);
+      expect(exact.parameters.amplitude).toBeCloseTo(300, 2);
+      expect(exact.parameters.amplitude2).toBeCloseTo(50, 3);
+      expect(exact.covariance).toHaveLength(5);
+
+      const noisy = Fitting.fitDoubleDecay(
+        decaySeries(components, 2, 100, 4, mulberry32(11)),
+        { method: 'least-squares' }
+      );
+      const [fast, slow] = noisy.halfLives;
+      expect(Math.abs(fast.value - 8)).toBeLessThan(3 * fast.uncertainty);
+      expect(Math.abs(slow.value - 120)).toBeLessThan(3 * slow.uncertainty);
+      expect(noisy.dof).toBe(95);
+    });
+  });
+
+  describe('curveFit', () => {
+    const line: CurveModel<'slope' | 'intercept'> = {
+      parameters: ['slope', 'intercept'],
+      evaluate: (x, p) => p.slope * x + p.intercept,
+    };
+    const x = [0, 1, 2, 3, 4, 5, 6, 7];
+    const y = x.map((xi, i) => 2 * xi + 1 + (i % 2 === 0 ? 0.1 : -0.1));
+    const sigma = x.map(() => 0.1);
+
+    it('should match weighted linear least squares', () => {
+      const fit = Fitting.curveFit(
+        line,
+        { x, y, sigma },
+        { initial: { slope: 0, intercept: 0 } }
+      );
+
+      // Closed form for equal errors
+      const meanX = 3.5;
+      const sxx = x.reduce((sum, xi) => sum + (xi - meanX) ** 2, 0);
+      const slope =
+        x.reduce((sum, xi, i) => sum + (xi - meanX) * (y[i] ?? 0), 0) / sxx;
+      expect(fit.parameters.slope).toBeCloseTo(slope, 8);
+      expect(fit.uncertainties.slope).toBeCloseTo(0.1 / Math.sqrt(sxx), 8);
+      expect(fit.uncertainties.intercept).toBeCloseTo(
+        0.1 * Math.sqrt(1 / 8 + meanX ** 2 / sxx),
+        8
+      );
+      expect(fit.dof).toBe(6);
+      expect(fit.pValue).toBeCloseTo(chiSquareSf(fit.chiSquare, 6), 12);
+      expect(fit.converged).toBe(true);
+    });
+
+    it('should hold fixed parameters and respect bounds', () => {
+      const fixed = Fitting.curveFit(
+        line,
+        { x, y, sigma },
+        { initial: { slope: 1, intercept: 1.5 }, fixed: ['intercept'] }
+      );
+      expect(fixed.parameters.intercept).toBe(1.5);
+      expect(fixed.uncertainties.intercept).toBe(0);
+      expect(fixed.covariance[1]).toEqual([0, 0]);
+      expect(fixed.dof).toBe(7);
+      expect(fixed.parameters.slope).toBeLessThan(2);
+
+      const bounded = Fitting.curveFit(
+        line,
+        { x, y, sigma },
+        { initial: { slope: 1, intercept: 0 }, bounds: { slope: [0, 1.5] } }
+      );
+      expect(bounded.parameters.slope).toBe(1.5);
+      expect(bounded.pValue).toBeLessThan(1e-6);
+    });
+
+    it('should reject invalid data and options', () => {
+      const initial = { slope: 1, intercept: 0 };
+
+      expect(() => Fitting.curveFit(line, { x, y, sigma })).toThrow(
+        'initial.slope'
+      );
+      expect(() =>
+        Fitting.curveFit(line, { x, y: y.slice(1), sigma }, { initial })
+      ).toThrow(ValidationError);
+      expect(() =>
+        Fitting.curveFit(line, { x, y, sigma: sigma.map(() => 0) }, { initial })
+      ).toThrow(ValidationError);
+      expect(() =>
+        Fitting.curveFit(
+          line,
+          { x: [1, 2], y: [1, 2], sigma: [1, 1] },
+          { initial }
+        )
+      ).toThrow(ValidationError);
+      expect(() =>
+        Fitting.curveFit(
+          line,
+          { x, y, sigma },
+          { initial, bounds: { slope: [2, 1] } }
+        )
+      ).toThrow(ValidationError);
+      expect(() =>
+        Fitting.curveFit(
+          line,
+          { x, y, sigma },
+          // @ts-expect-error unknown parameter
+          { initial, fixed: ['offset'] }
+        )
+      ).toThrow(ValidationError);
+    });
+  });
+
+  describe('CurveModels', () => {
+    /** Noise-free data from a model */
+    function sample<P extends string>(
+      model: CurveModel<P>,
+      parameters: Record<P, number>,
+      x: number[]
+    ): { x: number[]; y: number[]; sigma: number[] } {
+      const y = x.map((xi) => model.evaluate(xi, parameters));
+      return { x, y, sigma: y.map((yi) => Math.sqrt(Math.max(yi, 1))) };
+    }
+
+    it('should fit the inverse-square law', () => {
+      const truth = { amplitude: 20000, offset: 0.8, background: 3 };
+      const distances = [2, 3, 4, 5, 6, 8, 10, 12, 15, 20, 25, 30];
+      const fit = Fitting.curveFit(
+        CurveModels.inverseSquare,
+        sample(CurveModels.inverseSquare, truth, distances)
+      );
+      expect(fit.parameters.amplitude).toBeCloseTo(20000, 1);
+      expect(fit.parameters.offset).toBeCloseTo(0.8, 5);
+      expect(fit.parameters.background).toBeCloseTo(3, 4);
+      expect(fit.chiSquare).toBeCloseTo(0, 8);
+    });
+
+    it('should fit cos^n zenith-angle distributions', () => {
+      const angles = [0, 10, 20, 30, 40, 50, 60, 70, 80, 90];
+      const data = sample(
+        CurveModels.cosineSquared,
+        { amplitude: 120, exponent: 2.3, background: 4 },
+        angles
+      );
+      const free = Fitting.curveFit(CurveModels.cosineSquared, data);
+      expect(free.parameters.exponent).toBeCloseTo(2.3, 5);
+
+      const strict = Fitting.curveFit(CurveModels.cosineSquared, data, {
+        fixed: ['exponent'],
+      });
+      expect(strict.parameters.exponent).toBe(2);
+      expect(strict.chiSquare).toBeGreaterThan(0.1);
+    });
+
+    it("should fit Malus's law", () => {
+      const angles = Array.from({ length: 19 }, (_, i) => i * 10);
+      const fit = Fitting.curveFit(
+        CurveModels.malus,
+        sample(
+          CurveModels.malus,
+          { amplitude: 800, phase: 33, background: 20 },
+          angles
+        )
+      );
+      expect(fit.parameters.amplitude).toBeCloseTo(800, 3);
+      expect(fit.parameters.phase).toBeCloseTo(33, 5);
+      expect(fit.parameters.background).toBeCloseTo(20, 3);
+    });
+
+    it('should fit falling and rising plateau curves', () => {
+      const x = Array.from({ length: 30 }, (_, i) => 50 + i * 10);
+      const falling = Fitting.curveFit(
+        CurveModels.thresholdPlateau,
+        sample(
+          CurveModels.thresholdPlateau,
+          { plateau: 500, edge: 250, width: 12, slope: -0.001 },
+          x
+        )
+      );
+      expect(falling.parameters.edge).toBeCloseTo(250, 3);
+      expect(falling.parameters.width).toBeCloseTo(12, 3);
+      expect(falling.parameters.slope).toBeCloseTo(-0.001, 6);
+
+      const rising = Fitting.curveFit(
+        CurveModels.thresholdPlateau,
+        sample(
+          CurveModels.thresholdPlateau,
+          { plateau: 300, edge: 150, width: -8, slope: 0.0005 },
+          x
+        )
+      );
+      expect(rising.parameters.plateau).toBeCloseTo(300, 2);
+      expect(rising.parameters.width).toBeCloseTo(-8, 3);
+    });
+  });
+});
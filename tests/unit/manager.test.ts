@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AcquisitionSample } from '../../src/acquisition.js';
+import { CD48Error, ValidationError } from '../../src/errors.js';
+import { CD48Manager } from '../../src/manager.js';
+import { CD48Simulator } from '../../src/simulator.js';
+import { WebSerialTransport } from '../../src/transport.js';
+
+describe('CD48Manager', () => {
+  let manager: CD48Manager;
+
+  beforeEach(() => {
+    manager = new CD48Manager({ deviceOptions: { commandDelay: 0 } });
+  });
+
+  afterEach(async () => {
+    await manager.disconnectAll();
+    vi.restoreAllMocks();
+  });
+
+  describe('units', () => {
+    it('should connect each unit and read its firmware version', async () => {
+      const first = await manager.add(
+        new CD48Simulator({ firmwareVersion: 'CD48 v1.2.0' })
+      );
+      const second = await manager.add(
+        new CD48Simulator({ firmwareVersion: 'CD48 v1.3.0' }),
+        { label: 'bottom' }
+      );
+
+      expect(first.label).toBe('CD48-1');
+      expect(first.firmwareVersion).toBe('CD48 v1.2.0');
+      expect(second.firmwareVersion).toBe('CD48 v1.3.0');
+      expect(first.cd48).not.toBe(second.cd48);
+      expect(first.cd48.isConnected()).toBe(true);
+      expect(manager.devices.map((d) => d.label)).toEqual(['CD48-1', 'bottom']);
+    });
+
+    it('should reject empty and duplicate labels', async () => {
+      await manager.add(new CD48Simulator(), { label: 'top' });
+      await expect(
+        manager.add(new CD48Simulator(), { label: 'top' })
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        manager.add(new CD48Simulator(), { label: ' ' })
+      ).rejects.toThrow(ValidationError);
+      expect(manager.size).toBe(1);
+    });
+
+    it('should relabel a unit in place', async () => {
+      await manager.add(new CD48Simulator(), { label: 'a' });
+      await manager.add(new CD48Simulator(), { label: 'b' });
+
+      const renamed = manager.relabel('a', 'top');
+      expect(renamed.label).toBe('top');
+      expect(manager.get('a')).toBeUndefined();
+      expect(manager.get('top')?.cd48).toBe(renamed.cd48);
+      expect(manager.devices.map((d) => d.label)).toEqual(['top', 'b']);
+      expect(() => manager.relabel('top', 'b')).toThrow(ValidationError);
+      expect(() => manager.relabel('missing', 'c')).toThrow(CD48Error);
+    });
+
+    it('should disconnect removed units', async () => {
+      const device = await manager.add(new CD48Simulator());
+      await manager.remove(device.label);
+
+      expect(device.cd48.isConnected()).toBe(false);
+      expect(manager.size).toBe(0);
+    });
+
+    it('should add each granted port once', async () => {
+      const makeTransport = (productId: number) => {
+        const port = {
+          getInfo: () => ({ usbVendorId: 0x04b4, usbProductId: productId }),
+        };
+        return Object.assign(new CD48Simulator(), { port });
+      };
+      const transports = [makeTransport(1), makeTransport(2)];
+      vi.spyOn(WebSerialTransport, 'grantedPorts').mockImplementation(
+        async () => transports as unknown as WebSerialTransport[]
+      );
+
+      const added = await manager.discover();
+      expect(added.map((d) => d.info.usbProductId)).toEqual([1, 2]);
+
+      transports.splice(
+        0,
+        2,
+        ...transports.map((t) =>
+          Object.assign(new CD48Simulator(), { port: t.port })
+        )
+      );
+      expect(await manager.discover()).toEqual([]);
+      expect(manager.size).toBe(2);
+    });
+  });
+
+  describe('synchronized acquisition', () => {
+    it('should poll every unit on a shared schedule', async () => {
+      await manager.add(new CD48Simulator({ rates: { A: 100 } }), {
+        label: 'top',
+      });
+      await manager.add(new CD48Simulator({ rates: { A: 100 } }), {
+        label: 'bottom',
+      });
+
+      const samples = new Map<string, AcquisitionSample[]>();
+      const stops: string[] = [];
+      const acquisition = manager.createAcquisition({
+        intervalMs: 50,
+        durationMs: 200,
+      });
+      acquisition.on('sample', ({ label, data }) => {
+        samples.set(label, [...(samples.get(label) ?? []), data]);
+      });
+      acquisition.on('stop', ({ label }) => stops.push(label));
+      await acquisition.start();
+
+      const top = samples.get('top') ?? [];
+      const bottom = samples.get('bottom') ?? [];
+      expect(top.length).toBeGreaterThan(0);
+      expect(stops.sort()).toEqual(['bottom', 'top']);
+      for (const [i, sample] of top.entries()) {
+        const other = bottom[i];
+        if (other === undefined) continue;
+        expect(Math.abs(sample.time - other.time)).toBeLessThan(25);
+      }
+      expect(acquisition.running).toBe(false);
+    });
+
+    it('should stop every unit', async () => {
+      await manager.add(new CD48Simulator());
+      await manager.add(new CD48Simulator());
+      const acquisition = manager.createAcquisition({ intervalMs: 20 });
+      const reasons: string[] = [];
+      acquisition.on('stop', ({ data }) => reasons.push(data.reason));
+
+      const done = acquisition.start();
+      setTimeout(() => acquisition.stop(), 60);
+      await done;
+
+      expect(reasons).toEqual(['stopped', 'stopped']);
+    });
+
+    it('should validate its selection and options', async () => {
+      expect(() => manager.createAcquisition()).toThrow(CD48Error);
+      await manager.add(new CD48Simulator(), { label: 'top' });
+      expect(() => manager.createAcquisition({}, ['side'])).toThrow(CD48Error);
+      expect(() => manager.createAcquisition({ intervalMs: 0 })).toThrow(
+        ValidationError
+      );
+    });
+  });
+});
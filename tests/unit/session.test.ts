@@ -0,0 +1,172 @@
+import { appendFile, mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { RateMeasurement } from '../../src/cd48.js';
+import { CD48Error, ValidationError } from '../../src/errors.js';
+import { DataExport } from '../../src/export.js';
+import {
+  FileSessionStorage,
+  MeasurementSession,
+  MemorySessionStorage,
+  type SessionStorage,
+} from '../../src/session.js';
+
+const COUNTS = { counts: [1, 2, 3, 4, 5, 6, 7, 8], overflow: 0 };
+
+const RATE: RateMeasurement = {
+  counts: 100,
+  duration: 10,
+  rate: 10,
+  channel: 0,
+  uncertainty: { counts: 10, rate: 1, relative: 10 },
+  overflowed: false,
+};
+
+/** Behaviour every backend must share */
+function describeStorage(
+  name: string,
+  makeStorage: () => Promise<SessionStorage>
+): void {
+  describe(name, () => {
+    let storage: SessionStorage;
+
+    beforeEach(async () => {
+      storage = await makeStorage();
+    });
+
+    it('should store records in order with their metadata', async () => {
+      const session = await MeasurementSession.create(storage, {
+        name: 'Background',
+        config: { triggerLevel: 0.5 },
+      });
+      await session.addCounts(COUNTS);
+      await session.addRate(RATE);
+
+      const records = await session.records();
+      expect(records.map((r) => [r.sequence, r.type])).toEqual([
+        [0, 'count'],
+        [1, 'rate'],
+      ]);
+      expect(records[0]?.data).toEqual(COUNTS);
+      expect(Date.parse(records[0]?.timestamp ?? '')).not.toBeNaN();
+
+      const metadata = await storage.loadMetadata(session.id);
+      expect(metadata).toMatchObject({
+        name: 'Background',
+        status: 'active',
+        config: { triggerLevel: 0.5 },
+      });
+    });
+
+    it('should resume a session where it left off', async () => {
+      const first = await MeasurementSession.create(storage);
+      await first.addCounts(COUNTS);
+      await first.close();
+
+      const resumed = await MeasurementSession.resume(storage, first.id);
+      expect(resumed.recordCount).toBe(1);
+      expect(resumed.metadata.status).toBe('active');
+      expect(resumed.metadata.closedAt).toBeUndefined();
+      const record = await resumed.addCounts(COUNTS);
+
+      expect(record.sequence).toBe(1);
+      expect(await resumed.counts()).toHaveLength(2);
+    });
+
+    it('should list and delete sessions', async () => {
+      const a = await MeasurementSession.create(storage, { name: 'a' });
+      const b = await MeasurementSession.create(storage, { name: 'b' });
+      await a.addCounts(COUNTS);
+
+      const ids = (await MeasurementSession.list(storage)).map((s) => s.id);
+      expect(ids.sort()).toEqual([a.id, b.id].sort());
+
+      await storage.delete(a.id);
+      expect(await storage.loadMetadata(a.id)).toBeNull();
+      expect(await storage.loadRecords(a.id)).toEqual([]);
+      expect(await storage.list()).toHaveLength(1);
+    });
+  });
+}
+
+describe('MeasurementSession', () => {
+  describeStorage('with MemorySessionStorage', async () => {
+    return new MemorySessionStorage();
+  });
+
+  describe('with FileSessionStorage', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'cd48-sessions-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    describeStorage('backend', async () => new FileSessionStorage(directory));
+
+    it('should skip a record cut short by a crash', async () => {
+      const storage = new FileSessionStorage(directory);
+      const session = await MeasurementSession.create(storage);
+      await session.addCounts(COUNTS);
+      await appendFile(join(directory, `${session.id}.jsonl`), '{"sequ');
+
+      const resumed = await MeasurementSession.resume(storage, session.id);
+      expect(resumed.recordCount).toBe(1);
+    });
+
+    it('should keep records added after a crash', async () => {
+      const storage = new FileSessionStorage(directory);
+      const session = await MeasurementSession.create(storage);
+      await session.addCounts(COUNTS);
+      await appendFile(join(directory, `${session.id}.jsonl`), '{"sequ');
+
+      const resumed = await MeasurementSession.resume(storage, session.id);
+      await resumed.addCounts(COUNTS);
+
+      const reloaded = await MeasurementSession.resume(storage, session.id);
+      expect(reloaded.recordCount).toBe(2);
+      expect(await reloaded.counts()).toHaveLength(2);
+    });
+
+    it('should reject IDs that are not file names', async () => {
+      const storage = new FileSessionStorage(directory);
+      await expect(storage.loadMetadata('../escape')).rejects.toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  it('should throw when resuming an unknown session', async () => {
+    await expect(
+      MeasurementSession.resume(new MemorySessionStorage(), 'missing')
+    ).rejects.toThrow(CD48Error);
+  });
+
+  it('should keep writing after a failed append', async () => {
+    const storage = new MemorySessionStorage();
+    const session = await MeasurementSession.create(storage);
+    vi.spyOn(storage, 'append').mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(session.addCounts(COUNTS)).rejects.toThrow('disk full');
+    await session.addCounts(COUNTS);
+    expect((await session.records()).map((r) => r.sequence)).toEqual([1]);
+  });
+
+  it('should export stored measurements with DataExport', async () => {
+    const session = await MeasurementSession.create(new MemorySessionStorage());
+    void session.addRate(RATE);
+    void session.addCounts(COUNTS);
+    void session.addRate({ ...RATE, channel: 1 });
+
+    const csv = DataExport.ratesToCSV(await session.rates()).split('\n');
+    expect(csv).toHaveLength(3);
+    expect(csv[2]?.startsWith('1,100,')).toBe(true);
+    expect(DataExport.countsToCSV(await session.counts())).toContain(
+      '1,2,3,4,5,6,7,8,0'
+    );
+  });
+});
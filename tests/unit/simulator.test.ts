@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import CD48 from '../../src/cd48.js';
+import { CD48Simulator } from '../../src/simulator.js';
+
+describe('CD48Simulator', () => {
+  let clock: number;
+  const now = (): number => clock;
+
+  beforeEach(() => {
+    clock = 0;
+  });
+
+  describe('protocol', () => {
+    it('should report its firmware version', () => {
+      const simulator = new CD48Simulator({ firmwareVersion: 'CD48 v1.2.3' });
+      expect(simulator.handleCommand('v')).toBe('CD48 v1.2.3\r\n');
+    });
+
+    it('should return nine count fields and clear on read', () => {
+      const simulator = new CD48Simulator({ rates: { A: 100 }, seed: 1, now });
+      clock = 10_000;
+
+      const fields = simulator.handleCommand('c').trim().split(' ');
+      expect(fields).toHaveLength(9);
+      expect(Number(fields[0])).toBeGreaterThan(800);
+      expect(Number(fields[0])).toBeLessThan(1200);
+      expect(fields.slice(1)).toEqual(['0', '0', '0', '0', '0', '0', '0', '0']);
+
+      expect(simulator.handleCommand('c')).toBe('0 0 0 0 0 0 0 0 0\r\n');
+    });
+
+    it('should report settings in machine-readable form', () => {
+      const simulator = new CD48Simulator();
+      expect(simulator.handleCommand('S30110')).toBe('OK\r\n');
+      expect(simulator.handleCommand('L200')).toBe('OK\r\n');
+      expect(simulator.handleCommand('V10')).toBe('OK\r\n');
+      expect(simulator.handleCommand('z')).toBe('OK\r\n');
+      expect(simulator.handleCommand('r500')).toBe('OK\r\n');
+
+      expect(simulator.handleCommand('p')).toBe(
+        '1000 0100 0010 0110 1100 1010 0110 1110 200 10 1 0 500\r\n'
+      );
+    });
+
+    it('should reject malformed commands', () => {
+      const simulator = new CD48Simulator();
+      expect(simulator.handleCommand('S9')).toBe('ERR\r\n');
+      expect(simulator.handleCommand('L256')).toBe('ERR\r\n');
+      expect(simulator.handleCommand('r50')).toBe('ERR\r\n');
+      expect(simulator.handleCommand('?')).toBe('ERR\r\n');
+    });
+
+    it('should answer multi-line commands', () => {
+      const simulator = new CD48Simulator();
+      expect(simulator.handleCommand('C').split('\r\n')).toHaveLength(10);
+      expect(simulator.handleCommand('P')).toContain('Impedance: High-Z');
+      expect(simulator.handleCommand('H')).toContain('toggle repeat');
+    });
+  });
+
+  describe('counting', () => {
+    it('should be reproducible with a seed', () => {
+      const first = new CD48Simulator({ rates: { A: 500 }, seed: 7, now });
+      const second = new CD48Simulator({ rates: { A: 500 }, seed: 7, now });
+      clock = 3000;
+      expect(first.handleCommand('c')).toBe(second.handleCommand('c'));
+    });
+
+    it('should count correlated sources as coincidences', () => {
+      const simulator = new CD48Simulator({
+        rates: { A: 1000, B: 1000 },
+        correlated: [{ inputs: ['A', 'B'], rate: 200 }],
+        seed: 3,
+        now,
+      });
+      clock = 20_000;
+
+      const counts = simulator.handleCommand('c').trim().split(' ').map(Number);
+      const coincidenceRate = (counts[4] ?? 0) / 20;
+      expect((counts[0] ?? 0) / 20).toBeCloseTo(1200, -2);
+      expect(coincidenceRate).toBeGreaterThan(180);
+      expect(coincidenceRate).toBeLessThan(220);
+    });
+
+    it('should produce accidentals near 2*tau*Ra*Rb for independent inputs', () => {
+      const simulator = new CD48Simulator({
+        rates: { A: 50_000, B: 50_000 },
+        coincidenceWindow: 1e-6,
+        seed: 11,
+        now,
+      });
+      clock = 20_000;
+
+      const counts = simulator.handleCommand('c').trim().split(' ').map(Number);
+      // Expected 2 * 1e-6 * 5e4 * 5e4 = 5000/s
+      expect((counts[4] ?? 0) / 20).toBeGreaterThan(4500);
+      expect((counts[4] ?? 0) / 20).toBeLessThan(5500);
+    });
+
+    it('should wrap counters and flag overflow', () => {
+      const simulator = new CD48Simulator({
+        rates: { A: 1000 },
+        counterBits: 8,
+        seed: 5,
+        now,
+      });
+      clock = 1000;
+
+      const fields = simulator.handleCommand('c').trim().split(' ').map(Number);
+      expect(fields[0]).toBeLessThan(256);
+      expect(fields[8]).toBe(1);
+      expect(simulator.handleCommand('E')).toBe('1\r\n');
+      expect(simulator.handleCommand('E')).toBe('0\r\n');
+    });
+
+    it('should apply rate changes from the current time onwards', () => {
+      const simulator = new CD48Simulator({ rates: { B: 0 }, seed: 2, now });
+      clock = 5000;
+      simulator.setRate('B', 1000);
+      expect(simulator.handleCommand('c').split(' ')[1]).toBe('0');
+
+      clock = 6000;
+      expect(
+        Number(simulator.handleCommand('c').split(' ')[1])
+      ).toBeGreaterThan(800);
+    });
+  });
+
+  describe('driven by CD48', () => {
+    let simulator: CD48Simulator;
+    let cd48: CD48;
+
+    beforeEach(async () => {
+      simulator = new CD48Simulator({
+        rates: { A: 2000, B: 1500 },
+        correlated: [{ inputs: ['A', 'B'], rate: 100 }],
+        seed: 42,
+      });
+      cd48 = new CD48({ transport: simulator, commandDelay: 0 });
+      await cd48.connect();
+    });
+
+    afterEach(async () => {
+      vi.useRealTimers();
+      await cd48.disconnect();
+    });
+
+    it('should report compatible firmware', async () => {
+      const info = await cd48.getFirmwareInfo();
+      expect(info.isCompatible).toBe(true);
+    });
+
+    it('should configure channels through the real command path', async () => {
+      await cd48.setChannel(7, { C: 1, D: 1 });
+      await cd48.setImpedance50Ohm();
+      const settings = simulator.getSettings();
+      expect(settings.channelMasks[7]).toBe(0b1100);
+      expect(settings.impedance50Ohm).toBe(true);
+    });
+
+    it('should expose settings as a typed object', async () => {
+      await cd48.setChannel(5, { B: 1, D: 1 });
+      await cd48.setTriggerLevel(1.0);
+      const settings = await cd48.getDeviceSettings();
+      expect(settings.channels[5]).toEqual({ A: 0, B: 1, C: 0, D: 1 });
+      expect(settings.triggerLevel).toBeCloseTo(1.0, 1);
+      expect(settings.impedance).toBe('highz');
+    });
+
+    it('should measure coincidence rates', async () => {
+      const result = await cd48.measureCoincidenceRate({ duration: 0.5 });
+      expect(result.rateA).toBeGreaterThan(1500);
+      expect(result.coincidences).toBeGreaterThan(0);
+    });
+
+    it('should push counts unsolicited in repeat mode', async () => {
+      vi.useFakeTimers();
+      await simulator.write('r100\r');
+      await simulator.write('R\r');
+      await simulator.read();
+      await simulator.read();
+
+      vi.advanceTimersByTime(100);
+      const { value } = await simulator.read();
+      expect(value.trim().split(' ')).toHaveLength(9);
+
+      await simulator.write('R\r');
+      expect(simulator.getSettings().repeatEnabled).toBe(false);
+    });
+  });
+});
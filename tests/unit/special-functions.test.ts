@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import {
+  betaI,
+  binomialCdf,
+  chiSquareCdf,
+  chiSquareQuantile,
+  chiSquareSf,
+  gammaP,
+  gammaQ,
+  lnGamma,
+  logPoissonPmf,
+  normalCdf,
+  normalQuantile,
+} from '../../src/special-functions.js';
+
+describe('Special functions', () => {
+  it('should compute log-gamma', () => {
+    expect(lnGamma(1)).toBeCloseTo(0, 12);
+    expect(lnGamma(5)).toBeCloseTo(Math.log(24), 12);
+    expect(lnGamma(0.5)).toBeCloseTo(0.5 * Math.log(Math.PI), 12);
+    expect(lnGamma(0.25)).toBeCloseTo(Math.log(3.625609908221908), 12);
+  });
+
+  it('should compute the regularized incomplete gamma functions', () => {
+    // P(1, x) = 1 - exp(-x)
+    expect(gammaP(1, 0.5)).toBeCloseTo(1 - Math.exp(-0.5), 12);
+    expect(gammaP(1, 8)).toBeCloseTo(1 - Math.exp(-8), 12);
+    expect(gammaQ(3, 2) + gammaP(3, 2)).toBeCloseTo(1, 12);
+    expect(gammaP(2, 0)).toBe(0);
+    expect(gammaQ(2, 0)).toBe(1);
+  });
+
+  it('should compute chi-square and normal distributions', () => {
+    expect(chiSquareCdf(3.841458820694124, 1)).toBeCloseTo(0.95, 10);
+    expect(chiSquareSf(12.591587243743977, 6)).toBeCloseTo(0.05, 10);
+    expect(chiSquareQuantile(0.95, 1)).toBeCloseTo(3.841458820694124, 8);
+    expect(chiSquareQuantile(0.05, 10)).toBeCloseTo(3.940299136119247, 8);
+    expect(normalCdf(0)).toBe(0.5);
+    expect(normalCdf(-1.959963984540054)).toBeCloseTo(0.025, 12);
+    expect(normalQuantile(0.975)).toBeCloseTo(1.959963984540054, 8);
+  });
+
+  it('should compute Poisson and binomial probabilities', () => {
+    expect(Math.exp(logPoissonPmf(2, 3))).toBeCloseTo(
+      (9 / 2) * Math.exp(-3),
+      12
+    );
+    expect(logPoissonPmf(0, 0)).toBe(0);
+    expect(logPoissonPmf(1, 0)).toBe(Number.NEGATIVE_INFINITY);
+    expect(binomialCdf(3, 10, 0.5)).toBeCloseTo(176 / 1024, 12);
+    expect(binomialCdf(10, 10, 0.3)).toBe(1);
+    expect(binomialCdf(-1, 10, 0.3)).toBe(0);
+    expect(betaI(0.5, 2, 2)).toBeCloseTo(0.5, 12);
+  });
+});
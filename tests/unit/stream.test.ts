@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import CD48 from '../../src/cd48.js';
+import { CD48Error, OperationAbortedError } from '../../src/errors.js';
+import { CD48Simulator } from '../../src/simulator.js';
+import { CountStream, type TimestampedCounts } from '../../src/stream.js';
+
+describe('Count streams', () => {
+  describe('CountStream', () => {
+    it('should yield pushed samples in order with sequence numbers', async () => {
+      const stream = new CountStream(100, async () => {});
+      stream.push({ counts: [1, 0, 0, 0, 0, 0, 0, 0], overflow: 0 });
+      stream.push({ counts: [2, 0, 0, 0, 0, 0, 0, 0], overflow: 0 });
+      stream.end();
+
+      const samples: TimestampedCounts[] = [];
+      for await (const sample of stream) {
+        samples.push(sample);
+      }
+      expect(samples.map((s) => s.sequence)).toEqual([0, 1]);
+      expect(samples[1]?.counts[0]).toBe(2);
+      expect(samples[0]?.intervalMs).toBe(100);
+    });
+
+    it('should drop the oldest samples when the buffer is full', () => {
+      const stream = new CountStream(100, async () => {}, { bufferSize: 2 });
+      for (let i = 0; i < 5; i++) {
+        stream.push({ counts: [i], overflow: 0 });
+      }
+      expect(stream.dropped).toBe(3);
+    });
+
+    it('should surface failures after buffered samples', async () => {
+      const stream = new CountStream(100, async () => {});
+      stream.push({ counts: [1], overflow: 0 });
+      stream.fail(new CD48Error('gone'));
+
+      const iterator = stream[Symbol.asyncIterator]();
+      expect((await iterator.next()).done).toBe(false);
+      await expect(iterator.next()).rejects.toThrow('gone');
+      expect((await iterator.next()).done).toBe(true);
+    });
+
+    it('should let go of a shared signal once ended', async () => {
+      const controller = new AbortController();
+      const stops: string[] = [];
+      const first = new CountStream(
+        100,
+        async () => {
+          stops.push('first');
+        },
+        { signal: controller.signal }
+      );
+      first.end();
+      const second = new CountStream(
+        100,
+        async () => {
+          stops.push('second');
+        },
+        { signal: controller.signal }
+      );
+
+      controller.abort();
+      await second.stop();
+      expect(stops).toEqual(['second']);
+    });
+  });
+
+  describe('CD48.stream', () => {
+    let simulator: CD48Simulator;
+    let cd48: CD48;
+
+    beforeEach(async () => {
+      simulator = new CD48Simulator({ rates: { A: 5000 }, seed: 9 });
+      cd48 = new CD48({ transport: simulator, commandDelay: 0 });
+      await cd48.connect();
+    });
+
+    afterEach(async () => {
+      await cd48.disconnect();
+    });
+
+    it('should stream counts and turn repeat mode off on break', async () => {
+      const stream = await cd48.stream({ intervalMs: 100 });
+      expect(simulator.getSettings().repeatEnabled).toBe(true);
+      expect(simulator.getSettings().repeatInterval).toBe(100);
+
+      const samples: TimestampedCounts[] = [];
+      for await (const sample of stream) {
+        samples.push(sample);
+        if (samples.length === 3) break;
+      }
+
+      expect(samples[2]?.sequence).toBe(2);
+      expect(samples[0]?.counts[0]).toBeGreaterThan(200);
+      expect(stream.active).toBe(false);
+      expect(simulator.getSettings().repeatEnabled).toBe(false);
+      // Command/response mode is back
+      expect((await cd48.getCounts()).counts).toHaveLength(8);
+    });
+
+    it('should keep answering other commands while streaming', async () => {
+      const stream = await cd48.stream({ intervalMs: 100 });
+      await cd48.sleep(150);
+
+      expect(await cd48.getVersion()).toBe('CD48 Simulator v1.0.0');
+      expect((await cd48.getDeviceSettings()).repeatEnabled).toBe(true);
+      await expect(cd48.getCounts()).rejects.toThrow(CD48Error);
+
+      await stream.stop();
+      expect(simulator.getSettings().repeatEnabled).toBe(false);
+    });
+
+    it('should stop when the signal aborts', async () => {
+      const controller = new AbortController();
+      const stream = await cd48.stream({
+        intervalMs: 100,
+        signal: controller.signal,
+      });
+      setTimeout(() => controller.abort(), 250);
+
+      let received = 0;
+      for await (const _sample of stream) {
+        received++;
+      }
+      expect(received).toBeGreaterThanOrEqual(1);
+      expect(simulator.getSettings().repeatEnabled).toBe(false);
+    });
+
+    it('should reject a second concurrent stream', async () => {
+      const stream = await cd48.stream({ intervalMs: 100 });
+      await expect(cd48.stream()).rejects.toThrow('already active');
+      await stream.stop();
+    });
+
+    it('should reject an already aborted signal', async () => {
+      await expect(
+        cd48.stream({ signal: AbortSignal.abort() })
+      ).rejects.toThrow(OperationAbortedError);
+    });
+
+    it('should fail the stream when the device is unplugged', async () => {
+      const stream = await cd48.stream({ intervalMs: 100 });
+      setTimeout(() => simulator.simulateDisconnect(), 150);
+
+      await expect(async () => {
+        for await (const _sample of stream) {
+          // Drain until the device goes away
+        }
+      }).rejects.toThrow('disconnected');
+    });
+
+    it('should stop the stream on disconnect', async () => {
+      const stream = await cd48.stream({ intervalMs: 100 });
+      await cd48.disconnect();
+      expect(stream.active).toBe(false);
+    });
+  });
+});
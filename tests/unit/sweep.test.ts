@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import CD48 from '../../src/cd48.js';
+import { OperationAbortedError, ValidationError } from '../../src/errors.js';
+import { DataExport } from '../../src/export.js';
+import { CD48Simulator } from '../../src/simulator.js';
+import { Sweep } from '../../src/sweep.js';
+
+describe('Sweep', () => {
+  let simulator: CD48Simulator;
+  let cd48: CD48;
+
+  beforeEach(async () => {
+    simulator = new CD48Simulator({ rates: { A: 1000, B: 1000 }, seed: 4 });
+    cd48 = new CD48({ transport: simulator, commandDelay: 0 });
+    await cd48.connect();
+  });
+
+  afterEach(async () => {
+    await cd48.disconnect();
+  });
+
+  it('should apply each trigger level and measure a rate', async () => {
+    const levels: number[] = [];
+    const sweep = Sweep.triggerLevel(cd48, [0.5, 1.0, 1.5], {
+      measure: { type: 'rate', channel: 0, duration: 0.02 },
+      settlingMs: 0,
+    });
+    sweep.on('point', () => levels.push(simulator.getSettings().triggerLevel));
+
+    const result = await sweep.run();
+
+    expect(result.complete).toBe(true);
+    expect(result.type).toBe('rate');
+    expect(result.columns).toEqual([
+      'triggerLevel',
+      'counts',
+      'duration',
+      'rate',
+      'uncertainty_rate',
+      'overflowed',
+    ]);
+    expect(result.rows.map((row) => row[0])).toEqual([0.5, 1.0, 1.5]);
+    expect(new Set(levels).size).toBe(3);
+    expect(result.points[0]?.measurement).toMatchObject({ channel: 0 });
+  });
+
+  it('should run a user setup hook with coincidence measurements', async () => {
+    const positions: string[] = [];
+    const progress: number[] = [];
+    const sweep = new Sweep(cd48, {
+      points: ['near', 'far'],
+      setup: async (position) => {
+        positions.push(position);
+      },
+      measure: { type: 'coincidence', duration: 0.02 },
+      settlingMs: 0,
+      parameterName: 'position',
+    });
+    sweep.on('progress', (p) => progress.push(p.fraction));
+
+    const result = await sweep.run();
+
+    expect(positions).toEqual(['near', 'far']);
+    expect(progress).toEqual([0.5, 1]);
+    expect(result.columns[0]).toBe('position');
+    expect(result.columns).toContain('trueCoincidenceRate');
+    expect(result.rows[1]?.[0]).toBe('far');
+  });
+
+  it('should return the points measured so far when stopped', async () => {
+    const sweep = new Sweep(cd48, {
+      points: [1, 2, 3, 4],
+      setup: () => {},
+      measure: { type: 'rate', duration: 0.02 },
+      settlingMs: 0,
+    });
+    sweep.on('point', (p) => {
+      if (p.index === 1) sweep.stop();
+    });
+
+    const result = await sweep.run();
+
+    expect(result.complete).toBe(false);
+    expect(result.points).toHaveLength(2);
+    expect(sweep.running).toBe(false);
+  });
+
+  it('should stop during settling when the signal aborts', async () => {
+    const controller = new AbortController();
+    const sweep = new Sweep(cd48, {
+      points: [1, 2],
+      setup: () => {},
+      settlingMs: 10_000,
+      signal: controller.signal,
+    });
+
+    const pending = sweep.run();
+    setTimeout(() => controller.abort(), 20);
+    const result = await pending;
+
+    expect(result.points).toHaveLength(0);
+    await expect(sweep.run()).rejects.toThrow(OperationAbortedError);
+  });
+
+  it('should pause after the current point and resume', async () => {
+    const events: string[] = [];
+    const sweep = new Sweep(cd48, {
+      points: [1, 2, 3],
+      setup: (value) => {
+        events.push(`setup ${value}`);
+      },
+      measure: { type: 'rate', duration: 0.01 },
+      settlingMs: 0,
+    });
+    sweep.on('point', (p) => {
+      if (p.index === 0) sweep.pause();
+    });
+    sweep.on('pause', ({ index }) => {
+      events.push(`pause ${index}`);
+      setTimeout(() => sweep.resume(), 20);
+    });
+    sweep.on('resume', ({ index }) => events.push(`resume ${index}`));
+
+    const result = await sweep.run();
+
+    expect(result.complete).toBe(true);
+    expect(events).toEqual([
+      'setup 1',
+      'pause 1',
+      'resume 1',
+      'setup 2',
+      'setup 3',
+    ]);
+  });
+
+  it('should not keep abort listeners from earlier pauses', async () => {
+    const added = vi.spyOn(AbortSignal.prototype, 'addEventListener');
+    const removed = vi.spyOn(AbortSignal.prototype, 'removeEventListener');
+    const sweep = new Sweep(cd48, {
+      points: [1, 2, 3, 4],
+      setup: () => {},
+      measure: { type: 'rate', duration: 0.01 },
+      settlingMs: 0,
+    });
+    sweep.on('point', () => sweep.pause());
+    sweep.on('pause', () => setTimeout(() => sweep.resume(), 5));
+
+    try {
+      expect((await sweep.run()).complete).toBe(true);
+      const listeners = (calls: unknown[][]) =>
+        calls
+          .filter(([type]) => type === 'abort')
+          .map(([, listener]) => listener);
+      const left = listeners(added.mock.calls).filter(
+        (listener) => !listeners(removed.mock.calls).includes(listener)
+      );
+      expect(left).toEqual([]);
+    } finally {
+      added.mockRestore();
+      removed.mockRestore();
+    }
+  });
+
+  it('should validate its options', () => {
+    expect(() => new Sweep(cd48, { points: [], setup: () => {} })).toThrow(
+      ValidationError
+    );
+    expect(
+      () => new Sweep(cd48, { points: [1], setup: () => {}, settlingMs: -1 })
+    ).toThrow(ValidationError);
+  });
+
+  it('should export its result as a table', async () => {
+    const result = await Sweep.dacVoltage(cd48, [0.25, 0.5], {
+      measure: { type: 'rate', duration: 0.01 },
+      settlingMs: 0,
+    }).run();
+
+    const csv = DataExport.tableToCSV(result).split('\n');
+    expect(csv[0]).toBe(
+      'dacVoltage,counts,duration,rate,uncertainty_rate,overflowed'
+    );
+    expect(csv).toHaveLength(3);
+    expect(csv[1]?.endsWith(',false')).toBe(true);
+
+    const records = JSON.parse(DataExport.tableToJSON(result));
+    expect(records[1]).toMatchObject({ dacVoltage: 0.5, duration: 0.01 });
+
+    const mat = DataExport.tableToMAT(result).split('\n');
+    expect(mat[1]).toBe(
+      '% Columns: dacVoltage counts duration rate uncertainty_rate overflowed'
+    );
+    expect(mat.at(-1)?.split(' ')).toHaveLength(6);
+  });
+});
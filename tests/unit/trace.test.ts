@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import CD48 from '../../src/cd48.js';
+import { ReplayMismatchError, ValidationError } from '../../src/errors.js';
+import { ProtocolTrace, ReplayTransport } from '../../src/trace.js';
+import { LoopbackTransport } from '../../src/transport.js';
+
+/** Device that answers the version and count commands */
+function respond(command: string): string {
+  if (command === 'v') return 'CD48 v1.0.0\r\n';
+  if (command === 'c') return '10 20 30 40 5 0 0 0 0\r\n';
+  return 'OK\r\n';
+}
+
+/** Record a session against a loopback device */
+async function recordSession(
+  responder: (command: string) => string | undefined = respond,
+  commandRetries = 0
+): Promise<ProtocolTrace> {
+  const trace = new ProtocolTrace();
+  const cd48 = new CD48({
+    transport: new LoopbackTransport({ responder }),
+    commandDelay: 0,
+    commandRetries,
+    retryDelay: 0,
+    trace,
+  });
+  await cd48.connect();
+  await cd48.getVersion();
+  await cd48.getCounts();
+  await cd48.disconnect();
+  return trace;
+}
+
+describe('ProtocolTrace', () => {
+  it('should record writes and reads with their command', async () => {
+    const trace = await recordSession();
+
+    expect(
+      trace.entries.map((e) => [e.direction, e.data, e.command, e.attempt])
+    ).toEqual([
+      ['write', 'v\r', 'v', 1],
+      ['read', 'CD48 v1.0.0\r\n', 'v', 1],
+      ['write', 'c\r', 'c', 1],
+      ['read', '10 20 30 40 5 0 0 0 0\r\n', 'c', 1],
+    ]);
+    const times = trace.entries.map((e) => e.time);
+    expect(times).toEqual([...times].sort((a, b) => a - b));
+  });
+
+  it('should record failed attempts and retries', async () => {
+    let calls = 0;
+    const trace = await recordSession((command) => {
+      calls++;
+      return calls === 1 ? undefined : respond(command);
+    }, 1);
+
+    expect(
+      trace.entries
+        .slice(0, 4)
+        .map((e) => [e.direction, e.attempt, e.error?.name])
+    ).toEqual([
+      ['write', 1, undefined],
+      ['error', 1, 'CommandTimeoutError'],
+      ['write', 2, undefined],
+      ['read', 2, undefined],
+    ]);
+  });
+
+  it('should not record while disabled and keep only maxEntries', () => {
+    const trace = new ProtocolTrace({ maxEntries: 2 });
+    trace.enabled = false;
+    trace.record('write', 'v\r');
+    expect(trace.entries).toHaveLength(0);
+
+    trace.enabled = true;
+    trace.record('write', 'a\r');
+    trace.record('write', 'b\r');
+    trace.recordError(new Error('boom'));
+    expect(trace.entries.map((e) => e.direction)).toEqual(['write', 'error']);
+    expect(trace.entries[1]?.error).toEqual({ name: 'Error', message: 'boom' });
+
+    trace.clear();
+    expect(trace.entries).toHaveLength(0);
+    expect(() => new ProtocolTrace({ maxEntries: 0 })).toThrow(ValidationError);
+  });
+
+  it('should round-trip through JSONL', async () => {
+    const trace = await recordSession();
+    const text = trace.toJSONL();
+
+    expect(text.split('\n')).toHaveLength(4);
+    expect(ProtocolTrace.fromJSONL(`${text}\n`).entries).toEqual(trace.entries);
+    expect(() => ProtocolTrace.fromJSONL('{"time":1}')).toThrow(
+      ValidationError
+    );
+    expect(() => ProtocolTrace.fromJSONL('not json')).toThrow(ValidationError);
+  });
+});
+
+describe('ReplayTransport', () => {
+  it('should reproduce a recorded session', async () => {
+    const trace = ProtocolTrace.fromJSONL((await recordSession()).toJSONL());
+    const transport = new ReplayTransport(trace);
+    const cd48 = new CD48({ transport, commandDelay: 0 });
+    await cd48.connect();
+
+    expect(await cd48.getVersion()).toBe('CD48 v1.0.0');
+    expect((await cd48.getCounts()).counts[1]).toBe(20);
+    expect(transport.finished).toBe(true);
+    await cd48.disconnect();
+  });
+
+  it('should reproduce a timeout and its retry', async () => {
+    let calls = 0;
+    const trace = await recordSession((command) => {
+      calls++;
+      return calls === 1 ? undefined : respond(command);
+    }, 1);
+    const cd48 = new CD48({
+      transport: new ReplayTransport(trace, { timing: 'immediate' }),
+      commandDelay: 0,
+      commandRetries: 1,
+      retryDelay: 0,
+    });
+    const timeouts: string[] = [];
+    cd48.on('timeout', (t) => timeouts.push(t.command));
+    await cd48.connect();
+
+    expect(await cd48.getVersion()).toBe('CD48 v1.0.0');
+    expect(timeouts).toEqual(['v']);
+    await cd48.disconnect();
+  });
+
+  it('should reject writes the trace does not expect', async () => {
+    const transport = new ReplayTransport(await recordSession());
+    await transport.open();
+
+    await expect(transport.write('c\r')).rejects.toThrow(ReplayMismatchError);
+    await transport.write('v\r');
+    expect(await transport.read()).toEqual({
+      value: 'CD48 v1.0.0\r\n',
+      done: false,
+    });
+    await transport.write('c\r');
+    await expect(transport.write('c\r')).rejects.toThrow('end of trace');
+    expect(transport.finished).toBe(true);
+    await transport.close();
+  });
+});
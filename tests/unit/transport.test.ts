@@ -0,0 +1,283 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import CD48 from '../../src/cd48.js';
+import { NotConnectedError } from '../../src/errors.js';
+import { NodeSerialTransport } from '../../src/node-transport.js';
+import { LoopbackTransport, WebSerialTransport } from '../../src/transport.js';
+import {
+  cleanupWebSerialMock,
+  setupWebSerialMock,
+} from '../mocks/web-serial.js';
+
+type DataListener = (chunk: Uint8Array) => void;
+type CloseListener = (
+  error: (Error & { disconnected?: boolean }) | null
+) => void;
+
+class FakeSerialPort {
+  public static instances: FakeSerialPort[] = [];
+  public static list = vi.fn(async () => [
+    { path: '/dev/ttyUSB0', vendorId: '04b4', productId: '0001' },
+    { path: '/dev/ttyS0', vendorId: undefined, productId: undefined },
+    { path: '/dev/ttyACM0', vendorId: '2341', productId: '0043' },
+  ]);
+  public readonly written: string[] = [];
+  public readonly options: { path: string; baudRate: number };
+  private dataListener: DataListener | null = null;
+  private closeListener: CloseListener | null = null;
+
+  constructor(options: { path: string; baudRate: number }) {
+    this.options = options;
+    FakeSerialPort.instances.push(this);
+  }
+
+  open(callback: (error: Error | null) => void): void {
+    callback(this.options.path === '/dev/missing' ? new Error('ENOENT') : null);
+  }
+
+  on(event: string, listener: DataListener | CloseListener): void {
+    if (event === 'data') this.dataListener = listener as DataListener;
+    if (event === 'close') this.closeListener = listener as CloseListener;
+  }
+
+  write(data: string, callback: (error?: Error | null) => void): void {
+    this.written.push(data);
+    callback(null);
+    if (data === 'v\r') {
+      this.emitData('CD48 v1.2.0\r\n');
+    }
+  }
+
+  drain(callback: (error: Error | null) => void): void {
+    callback(null);
+  }
+
+  close(callback: () => void): void {
+    callback();
+  }
+
+  emitData(text: string): void {
+    this.dataListener?.(new TextEncoder().encode(text));
+  }
+
+  emitClose(error: (Error & { disconnected?: boolean }) | null): void {
+    this.closeListener?.(error);
+  }
+}
+
+vi.mock('serialport', () => ({ SerialPort: FakeSerialPort }));
+
+describe('Transports', () => {
+  describe('LoopbackTransport', () => {
+    it('should route complete commands to the responder', async () => {
+      const responder = vi.fn((command: string) => `${command}-reply\r\n`);
+      const transport = new LoopbackTransport({ responder });
+      await transport.open();
+
+      await transport.write('v');
+      expect(responder).not.toHaveBeenCalled();
+      await transport.write('\rc\r');
+
+      expect(responder).toHaveBeenNthCalledWith(1, 'v');
+      expect(responder).toHaveBeenNthCalledWith(2, 'c');
+      expect(transport.written).toEqual(['v', '\rc\r']);
+      expect(await transport.read()).toEqual({
+        value: 'v-reply\r\n',
+        done: false,
+      });
+      expect(await transport.read()).toEqual({
+        value: 'c-reply\r\n',
+        done: false,
+      });
+    });
+
+    it('should deliver pushed data to a waiting reader', async () => {
+      const transport = new LoopbackTransport();
+      await transport.open();
+
+      const pending = transport.read();
+      transport.push('unsolicited\r\n');
+
+      expect(await pending).toEqual({ value: 'unsolicited\r\n', done: false });
+    });
+
+    it('should report done and reject writes once closed', async () => {
+      const transport = new LoopbackTransport();
+      await transport.open();
+      const pending = transport.read();
+      await transport.close();
+
+      expect(await pending).toEqual({ value: '', done: true });
+      expect(transport.isOpen()).toBe(false);
+      await expect(transport.write('v\r')).rejects.toThrow(NotConnectedError);
+    });
+
+    it('should notify the disconnect callback on simulated unplug', async () => {
+      const transport = new LoopbackTransport();
+      const callback = vi.fn();
+      transport.onDisconnect(callback);
+      await transport.open();
+
+      transport.simulateDisconnect();
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(transport.isOpen()).toBe(false);
+    });
+  });
+
+  describe('CD48 over LoopbackTransport', () => {
+    let transport: LoopbackTransport;
+    let cd48: CD48;
+
+    beforeEach(async () => {
+      transport = new LoopbackTransport({
+        responder: (command) => {
+          if (command === 'v') return 'CD48 v1.0.0\r\n';
+          if (command === 'c') return '10 20 30 40 5 0 0 0 0\r\n';
+          return 'OK\r\n';
+        },
+      });
+      cd48 = new CD48({ transport, commandDelay: 0 });
+      await cd48.connect();
+    });
+
+    afterEach(async () => {
+      await cd48.disconnect();
+    });
+
+    it('should connect without Web Serial support', async () => {
+      delete (global.navigator as { serial?: unknown }).serial;
+      expect(CD48.isSupported()).toBe(false);
+
+      const other = new CD48({ transport: new LoopbackTransport() });
+      await expect(other.connect()).resolves.toBe(true);
+      await other.disconnect();
+    });
+
+    it('should exchange commands through the transport', async () => {
+      expect(await cd48.getVersion()).toBe('CD48 v1.0.0');
+      expect(transport.written).toContain('v\r');
+    });
+
+    it('should run rate measurements through the transport', async () => {
+      const result = await cd48.measureRate(1, 0.01);
+      expect(result.counts).toBe(20);
+      expect(result.rate).toBeCloseTo(2000);
+    });
+
+    it('should not lose data that arrives after a read timeout', async () => {
+      transport.setResponder(() => undefined);
+      const version = cd48.sendCommand('v');
+      setTimeout(() => transport.push('late reply\r\n'), 150);
+
+      expect(await version).toBe('late reply');
+    });
+
+    it('should reopen the same transport on reconnect', async () => {
+      await cd48.disconnect();
+      expect(await cd48.reconnect()).toBe(true);
+      expect(await cd48.getVersion()).toBe('CD48 v1.0.0');
+    });
+
+    it('should fire onDisconnect when the transport drops', async () => {
+      const callback = vi.fn();
+      cd48.onDisconnect(callback);
+
+      transport.simulateDisconnect();
+
+      expect(callback).toHaveBeenCalled();
+      expect(cd48.isConnected()).toBe(false);
+    });
+  });
+
+  describe('WebSerialTransport', () => {
+    afterEach(() => {
+      cleanupWebSerialMock();
+    });
+
+    it('should return null when no granted port matches', async () => {
+      setupWebSerialMock({ hasPreviousPort: false });
+      expect(await WebSerialTransport.fromGrantedPorts()).toBeNull();
+    });
+
+    it('should wrap a granted CD48 port', async () => {
+      const { mockPort } = setupWebSerialMock({ hasPreviousPort: true });
+      const transport = await WebSerialTransport.fromGrantedPorts();
+      expect(transport?.port).toBe(mockPort);
+    });
+
+    it('should list every granted CD48 port', async () => {
+      setupWebSerialMock({ hasPreviousPort: false });
+      expect(await WebSerialTransport.grantedPorts()).toEqual([]);
+      cleanupWebSerialMock();
+
+      const { mockPort } = setupWebSerialMock({ hasPreviousPort: true });
+      const transports = await WebSerialTransport.grantedPorts();
+      expect(transports.map((t) => t.port)).toEqual([mockPort]);
+    });
+
+    it('should throw NotConnectedError when used before open', async () => {
+      const { mockPort } = setupWebSerialMock();
+      const transport = new WebSerialTransport(
+        mockPort as unknown as SerialPort
+      );
+      await expect(transport.write('v\r')).rejects.toThrow(NotConnectedError);
+      await expect(transport.read()).rejects.toThrow(NotConnectedError);
+    });
+  });
+
+  describe('NodeSerialTransport', () => {
+    beforeEach(() => {
+      FakeSerialPort.instances = [];
+    });
+
+    it('should list only Cypress ports', async () => {
+      const ports = await NodeSerialTransport.list();
+      expect(ports.map((p) => p.path)).toEqual(['/dev/ttyUSB0']);
+    });
+
+    it('should open the device path with the configured baud rate', async () => {
+      const transport = new NodeSerialTransport('/dev/ttyUSB0', {
+        baudRate: 9600,
+      });
+      await transport.open();
+
+      expect(transport.isOpen()).toBe(true);
+      expect(FakeSerialPort.instances[0]?.options).toMatchObject({
+        path: '/dev/ttyUSB0',
+        baudRate: 9600,
+      });
+    });
+
+    it('should wrap open failures in ConnectionError', async () => {
+      const transport = new NodeSerialTransport('/dev/missing');
+      await expect(transport.open()).rejects.toThrow('Connection failed');
+      expect(transport.isOpen()).toBe(false);
+    });
+
+    it('should drive CD48 commands', async () => {
+      const cd48 = new CD48({
+        transport: new NodeSerialTransport('/dev/ttyUSB0'),
+        commandDelay: 0,
+      });
+      await cd48.connect();
+
+      expect(await cd48.getVersion()).toBe('CD48 v1.2.0');
+      expect(FakeSerialPort.instances[0]?.written).toEqual(['v\r']);
+      await cd48.disconnect();
+    });
+
+    it('should report unexpected disconnects', async () => {
+      const transport = new NodeSerialTransport('/dev/ttyUSB0');
+      const callback = vi.fn();
+      transport.onDisconnect(callback);
+      await transport.open();
+
+      FakeSerialPort.instances[0]?.emitClose(
+        Object.assign(new Error('Port disconnected'), { disconnected: true })
+      );
+
+      expect(callback).toHaveBeenCalled();
+      expect(await transport.read()).toEqual({ value: '', done: true });
+    });
+  });
+});
@@ -32,7 +32,7 @@ export default defineConfig({
     },
     rollupOptions: {
       // Externalize dependencies that shouldn't be bundled
-      external: [],
+      external: ['serialport', /^node:/],
       output: {
         // Provide global variables to use in the UMD build
         globals: {},
@@ -31,7 +31,7 @@ export default defineConfig({
       },
     },
     rollupOptions: {
-      external: [],
+      external: ['serialport', /^node:/],
       output: {
         globals: {},
         exports: 'named',